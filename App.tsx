@@ -7,7 +7,8 @@ import {
   Map, ExternalLink, Image as ImageIcon, ChevronRight, Key,
   Zap, Coffee, Scale, Plus, Trash2, Pin, Star, Ticket, Globe, Search,
   RotateCw, AlertCircle, ThumbsUp, ThumbsDown, ChevronLeft, Flag, MoreVertical, Info,
-  Activity as ActivityIcon, User, Rabbit, Eye, Award, TrendingUp, ChefHat, Lock, CreditCard, Share2, Mail
+  Activity as ActivityIcon, User, Rabbit, Eye, Award, TrendingUp, ChefHat, Lock, CreditCard, Share2, Mail,
+  Undo2, Redo2, LogOut, Briefcase, MessageSquarePlus, CalendarPlus, FileDown, Route, Waypoints, History
 } from 'lucide-react';
 import { Button } from './components/Button';
 import { Input } from './components/Input';
@@ -15,8 +16,16 @@ import { SelectableCard } from './components/SelectableCard';
 import { DateRangePicker } from './components/DateRangePicker';
 import { SingleDatePicker } from './components/SingleDatePicker';
 import { RegenerateModal } from './components/RegenerateModal';
-import { checkEventsAndGetQuestions, generateItinerary, generateDayCardImage, validateDestination, getAlternativeActivity, getItineraryById, createCheckoutSession, verifyPayment, saveUserEmail, saveGeneratedImage } from './services/geminiService';
-import { UserPreferences, SmartQuestion, Itinerary, DayPlan, TripType, BudgetLevel, VibeType, PaceType, Interest, Activity, FixedPlan, Gender, KidsAgeRange } from './types';
+import { ShareModal } from './components/ShareModal';
+import { DayMap } from './components/DayMap';
+import { TravelLegRow } from './components/TravelLegRow';
+import { TripLegsEditor, newTripLeg } from './components/TripLegsEditor';
+import { ProposalModal } from './components/ProposalModal';
+import { CollaboratorsModal } from './components/CollaboratorsModal';
+import { HistoryModal } from './components/HistoryModal';
+import { checkEventsAndGetQuestions, generateItinerary, generateDayCardImage, validateDestination, getAlternativeActivity, getItineraryById, createCheckoutSession, verifyPayment, saveUserEmail, saveGeneratedImage, updateItineraryActivities, undoItineraryChange, redoItineraryChange, getItineraryRevisions, diffItineraryRevisions, restoreItineraryRevision, getItineraryPrice, validatePromoCode, requestLoginLink, verifyLoginLink, getCurrentUser, logout, getMyTrips, getShareLinks, createShareLink, revokeShareLink, getSharedItinerary, rememberCollaboratorToken, getCollaborators, inviteCollaborator, removeCollaborator, getActivityFeedback, voteOnActivity, proposeReplacement, createQuestionDeck, getQuestionDeck, submitDeckResponse, mergeQuestionDeck, getCalendarUrl, getPdfUrl, getRouteExportUrl, optimizeItineraryRoute } from './services/geminiService';
+import { UserPreferences, SmartQuestion, Itinerary, DayPlan, TripType, BudgetLevel, VibeType, PaceType, Interest, Activity, FixedPlan, Gender, KidsAgeRange, ActivityPeriod, ItineraryPayload, ItineraryRevision, RevisionChange, ItineraryPrice, PromoQuote, PreviewInfo, AccountUser, TripSummary, ShareLink, Collaborator, ActivityFeedback, QuestionDeck, MergeStrategy, DeckMerge, HotelStay, RouteReport, TripLeg, TransferInfo, GenerationEvent, GenerationPhase } from './types';
+import { describeFieldErrors, validatePreferences } from './validation';
 
 // Step Enum
 enum Step {
@@ -27,6 +36,9 @@ enum Step {
   LOADING = 4,
   ITINERARY = 5,
   VERIFYING_PAYMENT = 6, // New step for better UX
+  MY_TRIPS = 7,
+  GROUP_SUMMARY = 8, // Organiser: merged answers from the shared question deck
+  GROUP_JOIN = 9, // Traveller arriving from a shared question deck link
 }
 
 // Helper to construct Google Maps Search URL
@@ -46,15 +58,27 @@ const formatDate = (isoDate: string) => {
   return `${day}/${month}/${year}`;
 };
 
+// Same limit as server/services/multiCity
+const MAX_TRIP_LEGS = 6;
+
 interface ActivityCardProps {
     activity: Activity;
     onDetailsClick: () => void;
     onRegenerate: () => void;
     onDelete: () => void;
     isRegenerating: boolean;
+    // Preview mode: details were redacted by the server, so show a teaser instead
+    isRedacted?: boolean;
+    // Hide regenerate/remove (viewers of someone else's trip, or redacted previews)
+    readOnly?: boolean;
+    // Group trips: the activity's vote tally, and handlers for the owner and collaborators
+    feedback?: ActivityFeedback;
+    onVote?: (value: number) => void;
+    onPropose?: () => void;
 }
 
-const ActivityCard: React.FC<ActivityCardProps> = ({ activity, onDetailsClick, onRegenerate, onDelete, isRegenerating }) => {
+const ActivityCard: React.FC<ActivityCardProps> = ({ activity, onDetailsClick, onRegenerate, onDelete, isRegenerating, isRedacted = false, readOnly = false, feedback, onVote, onPropose }) => {
+    const myVote = feedback?.myVote || 0;
     return (
         <div className="group relative flex gap-4 bg-white p-4 rounded-2xl border border-slate-100 hover:border-sky-200 hover:shadow-md transition-all cursor-pointer" onClick={onDetailsClick}>
              <div className="flex-shrink-0 w-12 h-12 bg-slate-50 rounded-xl flex items-center justify-center text-2xl shadow-sm">
@@ -64,6 +88,7 @@ const ActivityCard: React.FC<ActivityCardProps> = ({ activity, onDetailsClick, o
              <div className="flex-1 min-w-0">
                  <div className="flex justify-between items-start">
                     <h5 className="font-bold text-slate-900 truncate pr-2">{activity.name}</h5>
+                    {!readOnly && (
                     <div className="flex gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                          <button 
                              onClick={(e) => { e.stopPropagation(); onRegenerate(); }}
@@ -80,8 +105,15 @@ const ActivityCard: React.FC<ActivityCardProps> = ({ activity, onDetailsClick, o
                              <Trash2 size={16} />
                          </button>
                     </div>
+                    )}
                  </div>
-                 <p className="text-sm text-slate-500 line-clamp-2 mt-0.5">{activity.description}</p>
+                 {isRedacted ? (
+                     <p className="text-sm text-slate-400 mt-0.5 flex items-center gap-1">
+                         <Lock size={12} /> <span className="blur-[3px] select-none">Details are available in the full itinerary</span>
+                     </p>
+                 ) : (
+                     <p className="text-sm text-slate-500 line-clamp-2 mt-0.5">{activity.description}</p>
+                 )}
                  <div className="flex gap-3 mt-2">
                      {activity.priceLevel && (
                          <span className="text-xs font-medium text-slate-400 flex items-center gap-1">
@@ -93,13 +125,91 @@ const ActivityCard: React.FC<ActivityCardProps> = ({ activity, onDetailsClick, o
                              <Clock size={12} /> {activity.duration}
                          </span>
                      )}
+                     {typeof activity.distanceFromHotelKm === 'number' && (
+                         <span className="text-xs font-medium text-slate-400 flex items-center gap-1" title="Distance from your hotel">
+                             <Hotel size={12} /> {activity.distanceFromHotelKm < 1 ? `${Math.round(activity.distanceFromHotelKm * 1000)} m` : `${activity.distanceFromHotelKm.toFixed(1)} km`}
+                         </span>
+                     )}
                  </div>
+                 {onVote && (
+                     <div className="flex items-center gap-1 mt-3" onClick={(e) => e.stopPropagation()}>
+                         <button 
+                             onClick={() => onVote(myVote === 1 ? 0 : 1)}
+                             className={`px-2 py-1 rounded-lg text-xs font-medium flex items-center gap-1 transition-colors ${myVote === 1 ? 'bg-green-50 text-green-600' : 'text-slate-400 hover:bg-slate-50'}`}
+                             title="Thumbs up"
+                         >
+                             <ThumbsUp size={14} /> {feedback?.up || 0}
+                         </button>
+                         <button 
+                             onClick={() => onVote(myVote === -1 ? 0 : -1)}
+                             className={`px-2 py-1 rounded-lg text-xs font-medium flex items-center gap-1 transition-colors ${myVote === -1 ? 'bg-red-50 text-red-500' : 'text-slate-400 hover:bg-slate-50'}`}
+                             title="Thumbs down"
+                         >
+                             <ThumbsDown size={14} /> {feedback?.down || 0}
+                         </button>
+                         {onPropose && (
+                             <button 
+                                 onClick={onPropose}
+                                 className="px-2 py-1 rounded-lg text-xs font-medium flex items-center gap-1 text-slate-400 hover:bg-sky-50 hover:text-sky-600 transition-colors"
+                                 title="Suggest a replacement"
+                             >
+                                 <MessageSquarePlus size={14} /> Suggest
+                             </button>
+                         )}
+                     </div>
+                 )}
+                 {feedback && feedback.proposals.length > 0 && (
+                     <ul className="mt-2 space-y-1">
+                         {feedback.proposals.map((proposal, i) => (
+                             <li key={i} className="text-xs text-slate-500 bg-slate-50 rounded-lg px-2 py-1">
+                                 <span className="font-medium text-slate-600">{proposal.voter === 'owner' ? 'Trip owner' : proposal.voter}:</span> {proposal.suggestion}
+                             </li>
+                         ))}
+                     </ul>
+                 )}
              </div>
         </div>
     );
 };
 
-const ActivityDetailsModal = ({ activity, onClose }: { activity: Activity, onClose: () => void }) => {
+const LockedPeriodPlaceholder: React.FC<{ period: ActivityPeriod, count: number }> = ({ period, count }) => {
+    return (
+        <div className="relative pt-4">
+            <div className="absolute -left-[19px] md:-left-[31px] top-4 w-4 h-4 rounded-full bg-white border-4 border-slate-300"></div>
+            <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">{period}</h4>
+            <div className="flex items-center gap-3 bg-white/60 p-4 rounded-2xl border border-dashed border-slate-200 text-slate-400">
+                <Lock size={16} className="flex-shrink-0" />
+                <span className="text-sm">
+                    {count > 0 ? `${count} ${count === 1 ? 'activity' : 'activities'} planned` : 'Planned'} — unlock to reveal
+                </span>
+            </div>
+        </div>
+    );
+};
+
+// Travel logistics on the day a multi-city trip moves on to its next city
+const TransferCard: React.FC<{ transfer: TransferInfo }> = ({ transfer }) => {
+    return (
+        <div className="bg-indigo-50 border border-indigo-100 rounded-2xl p-5 mb-6 space-y-2">
+            <p className="text-xs font-bold text-indigo-500 uppercase tracking-wider flex items-center gap-2">
+                <Plane size={14} /> {transfer.from} → {transfer.to}
+            </p>
+            {(transfer.mode || transfer.duration) && (
+                <p className="font-semibold text-indigo-900 capitalize">
+                    {[transfer.mode, transfer.duration].filter(Boolean).join(' · ')}
+                </p>
+            )}
+            <p className="text-sm text-indigo-900/80">{transfer.description}</p>
+            {transfer.tips.length > 0 && (
+                <ul className="text-sm text-indigo-900/80 list-disc pl-5 space-y-1">
+                    {transfer.tips.map((tip, i) => <li key={i}>{tip}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const ActivityDetailsModal = ({ activity, onClose, isRedacted = false }: { activity: Activity, onClose: () => void, isRedacted?: boolean }) => {
     return (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
              <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
@@ -125,6 +235,13 @@ const ActivityDetailsModal = ({ activity, onClose }: { activity: Activity, onClo
                  </div>
 
                  <div className="p-6 overflow-y-auto">
+                     {isRedacted ? (
+                         <div className="flex items-center gap-3 p-4 bg-amber-50 text-amber-800 rounded-xl border border-amber-100">
+                             <Lock size={20} className="flex-shrink-0" />
+                             <span className="text-sm font-medium">Unlock the full itinerary to see details, hours, tickets and directions.</span>
+                         </div>
+                     ) : (
+                     <>
                      <div className="flex gap-4 mb-6">
                          <Button 
                             variant="primary" 
@@ -186,6 +303,8 @@ const ActivityDetailsModal = ({ activity, onClose }: { activity: Activity, onClo
                              </div>
                          )}
                      </div>
+                     </>
+                     )}
                  </div>
              </div>
         </div>
@@ -215,16 +334,39 @@ export default function App() {
   // Date Picker State
   const [isDatePickerOpen, setIsDatePickerOpen] = useState(false);
   const [isFixedPlanDatePickerOpen, setIsFixedPlanDatePickerOpen] = useState(false);
+  const [isStayDatePickerOpen, setIsStayDatePickerOpen] = useState(false);
   
   // Temporary state for adding a fixed plan
   const [tempPlan, setTempPlan] = useState<{date: string, desc: string}>({date: '', desc: ''});
+  // ...and for a later hotel on multi-stay trips
+  const [tempStay, setTempStay] = useState<{date: string, name: string}>({date: '', name: ''});
 
   const [smartQuestions, setSmartQuestions] = useState<SmartQuestion[]>([]);
   const [itinerary, setItinerary] = useState<Itinerary | null>(null);
   const [itineraryId, setItineraryId] = useState<string | null>(null);
   const [isUnlocked, setIsUnlocked] = useState(false);
+  const [preview, setPreview] = useState<PreviewInfo | null>(null);
+  const [canEdit, setCanEdit] = useState(false);
+  const [canVote, setCanVote] = useState(false);
   const [totalDays, setTotalDays] = useState(0);
   const [isLoadingPayment, setIsLoadingPayment] = useState(false);
+  const [unlockPrice, setUnlockPrice] = useState<ItineraryPrice | null>(null);
+
+  // Promo Code State
+  const [promoOpen, setPromoOpen] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoQuote, setPromoQuote] = useState<PromoQuote | null>(null);
+  const [promoError, setPromoError] = useState<string | null>(null);
+  const [isApplyingPromo, setIsApplyingPromo] = useState(false);
+
+  // Undo/Redo availability, as reported by the server's revision log
+  const [history, setHistory] = useState<{ canUndo: boolean, canRedo: boolean }>({ canUndo: false, canRedo: false });
+  const [isSteppingHistory, setIsSteppingHistory] = useState(false);
+  // Revision list for the history modal; `revision` is the one the plan currently matches
+  const [historyModalOpen, setHistoryModalOpen] = useState(false);
+  const [revisionLog, setRevisionLog] = useState<{ revision: number, revisions: ItineraryRevision[] | null }>({ revision: 0, revisions: null });
+  const [revisionComparison, setRevisionComparison] = useState<{ revision: number, changes: RevisionChange[] | null } | null>(null);
+  const [isRestoringRevision, setIsRestoringRevision] = useState(false);
   
   // Store images for each day: { dayNumber: base64String }
   const [dayImages, setDayImages] = useState<Record<number, string>>({});
@@ -248,8 +390,50 @@ export default function App() {
   const [userEmail, setUserEmail] = useState('');
   const [isSavingEmail, setIsSavingEmail] = useState(false);
 
+  // Share Link State
+  const [shareModalOpen, setShareModalOpen] = useState(false);
+  const [shareLinks, setShareLinks] = useState<ShareLink[] | null>(null);
+  const [isCreatingShareLink, setIsCreatingShareLink] = useState(false);
+
+  // Group Trip State (collaborator invites and activity votes)
+  const [activityFeedback, setActivityFeedback] = useState<ActivityFeedback[]>([]);
+  const [groupModalOpen, setGroupModalOpen] = useState(false);
+  const [collaborators, setCollaborators] = useState<Collaborator[] | null>(null);
+  const [isInviting, setIsInviting] = useState(false);
+  const [inviteError, setInviteError] = useState<string | null>(null);
+  const [proposalTarget, setProposalTarget] = useState<{ dayNumber: number, period: ActivityPeriod, activityName: string } | null>(null);
+  const [isReplacingDownvoted, setIsReplacingDownvoted] = useState(false);
+  const [routeReport, setRouteReport] = useState<RouteReport | null>(null);
+  const [isOptimizingRoute, setIsOptimizingRoute] = useState(false);
+
+  // Day map panels: which days have their map open
+  const [openMapDays, setOpenMapDays] = useState<Set<number>>(new Set());
+
+  // Route export menu (GeoJSON / KML / GPX)
+  const [routeMenuOpen, setRouteMenuOpen] = useState(false);
+
+  // Account State (magic-link sign-in)
+  const [currentUser, setCurrentUser] = useState<AccountUser | null>(null);
+  const [loginEmail, setLoginEmail] = useState('');
+  const [loginLinkStatus, setLoginLinkStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [myTrips, setMyTrips] = useState<TripSummary[] | null>(null);
+
+  // Group Questions State. The organiser holds `groupDeck`; a traveller who opened a deck link holds `joinDeck`.
+  const [groupDeck, setGroupDeck] = useState<{ id: string, ownerToken: string } | null>(null);
+  const [isSharingDeck, setIsSharingDeck] = useState(false);
+  const [joinDeck, setJoinDeck] = useState<QuestionDeck | null>(null);
+  const [travellerName, setTravellerName] = useState('');
+  const [deckSubmitStatus, setDeckSubmitStatus] = useState<'idle' | 'sending' | 'sent'>('idle');
+  const [deckMerge, setDeckMerge] = useState<DeckMerge | null>(null);
+  const [mergeStrategy, setMergeStrategy] = useState<MergeStrategy>('majority');
+  const [mergeWeights, setMergeWeights] = useState<Record<string, number>>({});
+
   // Loading Progress
   const [progress, setProgress] = useState(0);
+  // Set while a trip is being generated, from the server's progress events.
+  // `days` is indexed by dayIndex: null for a drafted day the free preview hides, undefined until drafted.
+  const [generation, setGeneration] = useState<{ phase: GenerationPhase; city: string; days: (DayPlan | null)[]; totalDays: number } | null>(null);
+  const isGenerating = generation !== null;
 
   // --- Tinder Swipe State ---
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
@@ -257,8 +441,9 @@ export default function App() {
   const [dragDelta, setDragDelta] = useState<{x: number, y: number}>({x: 0, y: 0});
   const [isAnimatingOut, setIsAnimatingOut] = useState<'left' | 'right' | null>(null);
 
-  // Function to process images after itinerary load
-  const loadImages = (days: DayPlan[], existingImages: Record<number, string> = {}, id: string) => {
+  // Function to process images after itinerary load. Only owners may store new images;
+  // viewers still see generated ones for this visit.
+  const loadImages = (days: DayPlan[], existingImages: Record<number, string> = {}, id: string, persist: boolean) => {
     // Set existing images first
     setDayImages(existingImages);
 
@@ -272,7 +457,7 @@ export default function App() {
               if (img) {
                 setDayImages(prev => ({...prev, [day.dayNumber]: img}));
                 // Save to DB
-                await saveGeneratedImage(id, day.dayNumber, img);
+                if (persist) await saveGeneratedImage(id, day.dayNumber, img);
               }
             } catch (err) {
                console.error("Image gen failed", err);
@@ -281,12 +466,111 @@ export default function App() {
     });
   };
 
+  // Loads a stored itinerary into the itinerary view
+  const openItinerary = (id: string) => {
+    setStep(Step.LOADING);
+    getItineraryById(id).then(data => {
+        if (data && data.plan) {
+            setItinerary(data.plan);
+            setItineraryId(data.id);
+            setIsUnlocked(data.unlocked);
+            setPreview(data.preview);
+            setCanEdit(data.canEdit);
+            setCanVote(data.canVote);
+            setTotalDays(data.totalDays);
+            setHistory({ canUndo: data.canUndo, canRedo: data.canRedo });
+            setStep(Step.ITINERARY);
+            
+            // Load Images
+            loadImages(data.plan.days, data.images, data.id, data.canEdit);
+        } else {
+            setStep(Step.START);
+        }
+    });
+  };
+
+  // Loads the read-only view behind a share link. The server leaves out the itinerary id,
+  // so itineraryId stays null and nothing on this page can write or pay.
+  const openSharedItinerary = (token: string) => {
+    setStep(Step.LOADING);
+    getSharedItinerary(token).then(data => {
+        if (data && data.plan) {
+            setItinerary(data.plan);
+            setItineraryId(null);
+            setIsUnlocked(data.unlocked);
+            setPreview(data.preview);
+            setCanEdit(false);
+            setCanVote(false);
+            setTotalDays(data.totalDays);
+            setHistory({ canUndo: false, canRedo: false });
+            setStep(Step.ITINERARY);
+
+            loadImages(data.plan.days, data.images, '', false);
+        } else {
+            alert("This share link is invalid, has expired or was revoked.");
+            setStep(Step.START);
+        }
+    });
+  };
+
+  // Restore the signed-in account on mount
+  useEffect(() => {
+    getCurrentUser().then(setCurrentUser);
+  }, []);
+
   // Check for shared URL on mount
   useEffect(() => {
     const params = new URLSearchParams(window.location.search);
     const sharedId = params.get('id');
     const paymentSuccess = params.get('success');
     const sessionId = params.get('session_id');
+    const loginToken = params.get('login');
+    const shareToken = params.get('share');
+    const inviteToken = params.get('invite');
+    const deckId = params.get('deck');
+
+    if (loginToken) {
+        // Arrived from a magic sign-in link
+        const newUrl = new URL(window.location.href);
+        newUrl.searchParams.delete('login');
+        window.history.replaceState({}, '', newUrl);
+
+        verifyLoginLink(loginToken).then(user => {
+            if (user) {
+                setCurrentUser(user);
+                setStep(Step.MY_TRIPS);
+            } else {
+                alert("This sign-in link is invalid or has expired. Please request a new one.");
+            }
+        });
+        return;
+    }
+
+    if (shareToken) {
+        openSharedItinerary(shareToken);
+        return;
+    }
+
+    if (deckId) {
+        // A traveller asked to swipe the group's question deck
+        getQuestionDeck(deckId).then(deck => {
+            if (deck) {
+                setJoinDeck(deck);
+                setStep(Step.GROUP_JOIN);
+            } else {
+                alert("These questions are no longer available.");
+            }
+        });
+        return;
+    }
+
+    if (sharedId && inviteToken) {
+        // Arrived from a collaborator invite: keep the token so this browser can vote
+        rememberCollaboratorToken(sharedId, inviteToken);
+        const newUrl = new URL(window.location.href);
+        newUrl.searchParams.delete('invite');
+        window.history.replaceState({}, '', newUrl);
+    }
 
     if (sharedId) {
         if (paymentSuccess === 'true' && sessionId) {
@@ -302,11 +586,15 @@ export default function App() {
                              setItinerary(data.plan);
                              setItineraryId(data.id);
                              setIsUnlocked(true);
+                             setPreview(null);
+                             setCanEdit(data.canEdit);
+                             setCanVote(data.canVote);
                              setTotalDays(data.totalDays);
+                             setHistory({ canUndo: data.canUndo, canRedo: data.canRedo });
                              setStep(Step.ITINERARY);
                              
                              // Load Images
-                             loadImages(data.plan.days, data.images, data.id);
+                             loadImages(data.plan.days, data.images, data.id, data.canEdit);
 
                              // Clean URL
                              const newUrl = new URL(window.location.href);
@@ -323,28 +611,14 @@ export default function App() {
 
         } else {
             // Normal Load
-            setStep(Step.LOADING);
-            getItineraryById(sharedId).then(data => {
-                if (data && data.plan) {
-                    setItinerary(data.plan);
-                    setItineraryId(data.id);
-                    setIsUnlocked(data.unlocked);
-                    setTotalDays(data.totalDays);
-                    setStep(Step.ITINERARY);
-                    
-                    // Load Images
-                    loadImages(data.plan.days, data.images, data.id);
-                } else {
-                    setStep(Step.START);
-                }
-            });
+            openItinerary(sharedId);
         }
     }
   }, []);
 
-  // Loading Bar Animation
+  // Loading Bar Animation (trip generation reports real progress instead, see below)
   useEffect(() => {
-    if (step === Step.LOADING) {
+    if (step === Step.LOADING && !isGenerating) {
       setProgress(0);
       const interval = setInterval(() => {
         setProgress(p => {
@@ -355,10 +629,126 @@ export default function App() {
       }, 100);
       return () => clearInterval(interval);
     }
-  }, [step]);
+  }, [step, isGenerating]);
+
+  // Drafting fills the bar up to 85%, the later phases take it the rest of the way
+  useEffect(() => {
+    if (!generation) return;
+    const drafted = generation.days.filter(day => day !== undefined).length;
+    const drafting = generation.totalDays ? 5 + 80 * Math.min(1, drafted / generation.totalDays) : 5;
+    const later: Partial<Record<GenerationPhase, number>> = { locating: 85, optimizing: 90, saving: 95, done: 100 };
+    setProgress(Math.max(drafting, later[generation.phase] || 0));
+  }, [generation]);
+
+  // Fetch the unlock price from the server so the paywall shows exactly what checkout will charge
+  useEffect(() => {
+    if (!itineraryId || isUnlocked) return;
+    getItineraryPrice(itineraryId).then(setUnlockPrice);
+  }, [itineraryId, isUnlocked]);
+
+  // Group votes are refetched after every change to the plan, since replacing an activity clears its votes
+  useEffect(() => {
+    if (!itineraryId || !canVote) {
+      setActivityFeedback([]);
+      return;
+    }
+    getActivityFeedback(itineraryId).then(feedback => setActivityFeedback(feedback || []));
+  }, [itineraryId, canVote, itinerary]);
+
+  const refreshDeckMerge = () => {
+    if (!groupDeck) return;
+    mergeQuestionDeck(groupDeck.id, groupDeck.ownerToken, mergeStrategy, mergeWeights).then(setDeckMerge);
+  };
+
+  // Re-merge the group's answers whenever the organiser changes the strategy or weights
+  useEffect(() => {
+    if (step === Step.GROUP_SUMMARY) refreshDeckMerge();
+  }, [step, groupDeck, mergeStrategy, mergeWeights]);
+
+  // Load the dashboard whenever it is opened while signed in
+  useEffect(() => {
+    if (step === Step.MY_TRIPS && currentUser) {
+      setMyTrips(null);
+      getMyTrips().then(trips => setMyTrips(trips || []));
+    }
+  }, [step, currentUser]);
 
   // Handlers
+  const handleRequestLoginLink = async () => {
+    if (!loginEmail) return;
+    setLoginLinkStatus('sending');
+    const ok = await requestLoginLink(loginEmail);
+    if (ok) {
+        setLoginLinkStatus('sent');
+    } else {
+        alert("We couldn't send the sign-in link. Please check your email address.");
+        setLoginLinkStatus('idle');
+    }
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    setCurrentUser(null);
+    setMyTrips(null);
+    setLoginLinkStatus('idle');
+    setStep(Step.START);
+  };
+
+  const handleOpenTrip = (id: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('id', id);
+    window.history.pushState({}, '', url);
+    openItinerary(id);
+  };
+
+  // Switches the start screen to a multi-city trip, keeping what was already entered as the first city
+  const startMultiCity = () => {
+    setPrefs({
+        ...prefs,
+        legs: [
+            newTripLeg({ destination: prefs.destination, startDate: prefs.startDate, endDate: prefs.endDate, hotelLocation: prefs.hotelLocation }),
+            newTripLeg()
+        ]
+    });
+  };
+
+  // Validates every city, then spans destination and dates across the whole trip
+  const submitMultiCity = async (legs: TripLeg[]) => {
+    for (let i = 1; i < legs.length; i++) {
+        if (legs[i].startDate <= legs[i - 1].endDate) {
+            alert(`City ${i + 1} has to start after city ${i} ends. The first day in a new city is your travel day.`);
+            return;
+        }
+    }
+
+    setIsValidating(true);
+    try {
+      const validated: TripLeg[] = [];
+      for (const leg of legs) {
+        const result = await validateDestination(leg.destination);
+        if (!result || !result.isValid) {
+          alert(`We couldn't find "${leg.destination}". Please check the spelling or try a specific city/country.`);
+          return;
+        }
+        validated.push({ ...leg, destination: result.formattedName || leg.destination });
+      }
+      setPrefs(prev => ({
+          ...prev,
+          legs: validated,
+          destination: validated.map(l => l.destination).join(' → '),
+          startDate: validated[0].startDate,
+          endDate: validated[validated.length - 1].endDate,
+          hotelLocation: validated[0].hotelLocation,
+          hotelStays: []
+      }));
+      setStep(Step.PREFERENCES);
+    } finally {
+      setIsValidating(false);
+    }
+  };
+
   const handleStartSubmit = async () => {
+    if (prefs.legs) return submitMultiCity(prefs.legs);
     if (!prefs.destination || !prefs.startDate || !prefs.endDate) return;
     
     setIsValidating(true);
@@ -398,6 +788,11 @@ export default function App() {
   };
 
   const handleSpecificsSubmit = async () => {
+    const { errors } = validatePreferences(prefs);
+    if (errors) {
+        alert(`Please check your trip details: ${describeFieldErrors(errors)}`);
+        return;
+    }
     setStep(Step.LOADING);
     const questions = await checkEventsAndGetQuestions(prefs);
     if (questions && questions.length > 0) {
@@ -430,6 +825,24 @@ export default function App() {
     });
   };
 
+  const addHotelStay = () => {
+    if (tempStay.date && tempStay.name) {
+      const stay: HotelStay = { id: Math.random().toString(36).substr(2, 9), name: tempStay.name, startDate: tempStay.date };
+      setPrefs({
+        ...prefs,
+        hotelStays: [...(prefs.hotelStays || []), stay].sort((a, b) => a.startDate.localeCompare(b.startDate))
+      });
+      setTempStay({date: '', name: ''});
+    }
+  };
+
+  const removeHotelStay = (id: string) => {
+    setPrefs({
+        ...prefs,
+        hotelStays: (prefs.hotelStays || []).filter(s => s.id !== id)
+    });
+  };
+
   // --- SWIPE LOGIC START ---
   const handleSwipeComplete = (direction: 'left' | 'right') => {
     if (isAnimatingOut) return;
@@ -439,9 +852,10 @@ export default function App() {
     setDragDelta({ x: direction === 'right' ? 500 : -500, y: 0 }); 
 
     const answer = direction === 'right'; 
+    const answers = { ...prefs.followUpAnswers, [currentQ.id]: answer };
     setPrefs(prev => ({
       ...prev,
-      followUpAnswers: { ...prev.followUpAnswers, [currentQ.id]: answer }
+      followUpAnswers: answers
     }));
 
     setTimeout(() => {
@@ -449,7 +863,7 @@ export default function App() {
         setDragDelta({ x: 0, y: 0 });
         const nextIndex = currentQuestionIndex + 1;
         if (nextIndex >= smartQuestions.length) {
-            handleQuestionsComplete();
+            handleQuestionsComplete(answers);
         } else {
             setCurrentQuestionIndex(nextIndex);
         }
@@ -484,18 +898,92 @@ export default function App() {
   };
   // --- SWIPE LOGIC END ---
 
-  const handleQuestionsComplete = () => {
+  const handleQuestionsComplete = async (answers: Record<string, boolean>) => {
+    if (joinDeck) {
+        // Traveller: hand the swipes to the organiser instead of generating
+        setStep(Step.GROUP_JOIN);
+        setDeckSubmitStatus('sending');
+        const { success, error } = await submitDeckResponse(joinDeck.id, travellerName, answers);
+        if (!success) alert(error || "We couldn't save your answers. Please try again.");
+        setDeckSubmitStatus(success ? 'sent' : 'idle');
+        return;
+    }
+    if (groupDeck) {
+        // Organiser: their swipes count as one traveller, then review the merge
+        await submitDeckResponse(groupDeck.id, 'Organiser', answers);
+        setDeckMerge(null);
+        setStep(Step.GROUP_SUMMARY);
+        return;
+    }
     setStep(Step.LOADING);
     generateTrip();
   };
 
-  const generateTrip = async () => {
-    const result = await generateItinerary(prefs);
+  // Organiser: share the current question deck so each traveller can swipe it too
+  const handleShareDeck = async () => {
+    setIsSharingDeck(true);
+    const deck = groupDeck || await createQuestionDeck(prefs.destination, smartQuestions);
+    setIsSharingDeck(false);
+    if (!deck) {
+        alert("Could not share the questions. Please try again.");
+        return;
+    }
+    setGroupDeck(deck);
+    const link = `${window.location.origin}${window.location.pathname}?deck=${deck.id}`;
+    try {
+        await navigator.clipboard.writeText(link);
+        alert("Link copied! Send it to your group, then finish your own swipes.");
+    } catch (e) {
+        window.prompt("Send this link to your group:", link);
+    }
+  };
+
+  const handleStartDeck = () => {
+    if (!joinDeck || !travellerName.trim()) return;
+    setSmartQuestions(joinDeck.questions);
+    setPrefs(prev => ({ ...prev, followUpAnswers: {} }));
+    setCurrentQuestionIndex(0);
+    setStep(Step.QUESTIONS);
+  };
+
+  const handleGenerateFromGroup = () => {
+    if (!deckMerge) return;
+    const groupPrefs = { ...prefs, followUpAnswers: deckMerge.answers };
+    setPrefs(groupPrefs);
+    setStep(Step.LOADING);
+    generateTrip(groupPrefs);
+  };
+
+  const handleGenerationEvent = (event: GenerationEvent) => {
+    setGeneration(prev => {
+      if (!prev) return prev;
+      switch (event.phase) {
+        case 'drafting':
+          return { ...prev, phase: event.phase, city: event.city };
+        case 'day': {
+          const days = [...prev.days];
+          days[event.dayIndex] = event.day || null;
+          return { ...prev, phase: event.phase, days, totalDays: event.totalDays };
+        }
+        default:
+          return { ...prev, phase: event.phase };
+      }
+    });
+  };
+
+  const generateTrip = async (tripPrefs: UserPreferences = prefs) => {
+    setGeneration({ phase: 'drafting', city: tripPrefs.destination, days: [], totalDays: 0 });
+    const result = await generateItinerary(tripPrefs, handleGenerationEvent);
+    setGeneration(null);
     if (result && result.plan) {
       setItinerary(result.plan);
       setItineraryId(result.id);
       setIsUnlocked(result.unlocked);
+      setPreview(result.preview);
+      setCanEdit(result.canEdit);
+      setCanVote(result.canVote);
       setTotalDays(result.totalDays);
+      setHistory({ canUndo: result.canUndo, canRedo: result.canRedo });
       setStep(Step.ITINERARY);
       setEmailModalOpen(true); // Open email modal immediately upon success
       
@@ -505,7 +993,7 @@ export default function App() {
       window.history.pushState({}, '', url);
       
       // Load Images (Check if empty object, likely is for new trip)
-      loadImages(result.plan.days, {}, result.id);
+      loadImages(result.plan.days, {}, result.id, true);
 
     } else {
       alert("Something went wrong generating your trip.");
@@ -513,12 +1001,33 @@ export default function App() {
     }
   };
 
+  const handleApplyPromo = async () => {
+      if (!itineraryId || !promoInput.trim()) return;
+      setIsApplyingPromo(true);
+      setPromoError(null);
+      const { quote, error } = await validatePromoCode(itineraryId, promoInput);
+      setPromoQuote(quote || null);
+      setPromoError(error || null);
+      setIsApplyingPromo(false);
+  };
+
   const handlePayment = async () => {
       if (!itineraryId) return;
       setIsLoadingPayment(true);
-      const url = await createCheckoutSession(itineraryId);
-      if (url) {
-          window.location.href = url;
+      const result = await createCheckoutSession(itineraryId, promoQuote?.code);
+      if (result?.unlocked) {
+          // Free with a promo code - no Stripe redirect, just reload the full plan
+          const data = await getItineraryById(itineraryId);
+          if (data) {
+              setItinerary(data.plan);
+              setIsUnlocked(data.unlocked);
+              setPreview(data.preview);
+              setTotalDays(data.totalDays);
+              loadImages(data.plan.days, data.images, data.id, data.canEdit);
+          }
+          setIsLoadingPayment(false);
+      } else if (result?.url) {
+          window.location.href = result.url;
       } else {
           alert("Could not initialize payment. Please check console/keys.");
           setIsLoadingPayment(false);
@@ -533,6 +1042,214 @@ export default function App() {
     setEmailModalOpen(false);
   };
 
+  const openShareModal = async () => {
+    if (!itineraryId) return;
+    setShareModalOpen(true);
+    setShareLinks(null);
+    setShareLinks(await getShareLinks(itineraryId) || []);
+  };
+
+  const handleCreateShareLink = async (expiresInDays: number | null) => {
+    if (!itineraryId) return;
+    setIsCreatingShareLink(true);
+    const link = await createShareLink(itineraryId, expiresInDays);
+    setIsCreatingShareLink(false);
+    if (link) {
+        setShareLinks(prev => [link, ...(prev || [])]);
+    } else {
+        alert("Could not create a share link. Please try again.");
+    }
+  };
+
+  const handleRevokeShareLink = async (token: string) => {
+    if (!itineraryId) return;
+    if (await revokeShareLink(itineraryId, token)) {
+        setShareLinks(prev => (prev || []).filter(l => l.token !== token));
+    } else {
+        alert("Could not revoke this link. Please try again.");
+    }
+  };
+
+  const openGroupModal = async () => {
+    if (!itineraryId) return;
+    setGroupModalOpen(true);
+    setInviteError(null);
+    setCollaborators(null);
+    setCollaborators(await getCollaborators(itineraryId) || []);
+  };
+
+  const handleInviteCollaborator = async (email: string) => {
+    if (!itineraryId) return;
+    setIsInviting(true);
+    setInviteError(null);
+    const result = await inviteCollaborator(itineraryId, email);
+    setIsInviting(false);
+    if (result.collaborators) {
+        setCollaborators(result.collaborators);
+    } else {
+        setInviteError(result.error || 'Could not send the invite');
+    }
+  };
+
+  const handleRemoveCollaborator = async (email: string) => {
+    if (!itineraryId) return;
+    const updated = await removeCollaborator(itineraryId, email);
+    if (updated) {
+        setCollaborators(updated);
+        getActivityFeedback(itineraryId).then(feedback => setActivityFeedback(feedback || []));
+    }
+  };
+
+  const feedbackFor = (dayNumber: number, period: ActivityPeriod, activityName: string) =>
+    activityFeedback.find(f => f.dayNumber === dayNumber && f.period === period && f.activityName === activityName);
+
+  // On multi-city trips, suggestions for a day should come from that day's city
+  const prefsForDay = (day: DayPlan): UserPreferences => day.city ? { ...prefs, destination: day.city } : prefs;
+
+  // The leg that leaves this activity for the next stop, if both have coordinates
+  const legFrom = (day: DayPlan, period: ActivityPeriod, index: number) =>
+    day.travelLegs?.find(leg => leg.from.period === period && leg.from.index === index);
+
+  const handleVote = async (dayNumber: number, period: ActivityPeriod, activityName: string, value: number) => {
+    if (!itineraryId) return;
+    const feedback = await voteOnActivity(itineraryId, { dayNumber, period, activityName }, value);
+    if (feedback) setActivityFeedback(feedback);
+  };
+
+  const handleSubmitProposal = async (suggestion: string) => {
+    if (!itineraryId || !proposalTarget) return;
+    const target = proposalTarget;
+    setProposalTarget(null);
+    const feedback = await proposeReplacement(itineraryId, target, suggestion);
+    if (feedback) {
+        setActivityFeedback(feedback);
+    } else {
+        alert("Could not save your suggestion. Please try again.");
+    }
+  };
+
+  // Owner only: replaces every activity the group voted down (net vote below zero),
+  // passing the group's suggestions along as the regeneration request
+  const handleReplaceDownvoted = async () => {
+    if (!itineraryId || !itinerary) return;
+    const downvoted = activityFeedback.filter(f => f.net < 0);
+    if (downvoted.length === 0) return;
+    setIsReplacingDownvoted(true);
+
+    let plan = itinerary;
+    let failed = 0;
+    const existingNames = plan.days.flatMap(d => [...(d.morning || []), ...(d.afternoon || []), ...(d.evening || [])].map(a => a.name));
+
+    for (const target of downvoted) {
+        const day = plan.days.find(d => d.dayNumber === target.dayNumber);
+        const idx = (day?.[target.period] || []).findIndex(a => a.name === target.activityName);
+        if (!day || idx === -1) continue;
+
+        const id = `${target.dayNumber}-${target.period}-${idx}`;
+        setRegeneratingIds(prev => new Set(prev).add(id));
+        const instruction = target.proposals.length > 0
+            ? `The group voted this down. Their suggestions: ${target.proposals.map(p => p.suggestion).join('; ')}`
+            : 'The group voted this down, suggest something different.';
+
+        try {
+            const newActivity = await getAlternativeActivity(
+                prefsForDay(day), day[target.period][idx], { dayTitle: day.title, area: day.areaFocus, timeOfDay: target.period }, existingNames, instruction
+            );
+            const saved = newActivity && await updateItineraryActivities(itineraryId, { op: 'replace', dayNumber: target.dayNumber, period: target.period, index: idx, activity: newActivity });
+            if (saved) {
+                applySavedItinerary(saved);
+                plan = saved.plan;
+                existingNames.push(newActivity.name);
+            } else {
+                failed++;
+            }
+        } catch (e) {
+            console.error("Failed to replace down-voted activity", e);
+            failed++;
+        } finally {
+            setRegeneratingIds(prev => { const next = new Set(prev); next.delete(id); return next; });
+        }
+    }
+
+    // The per-edit refetches can land out of order, so settle the banner on the final votes
+    const feedback = await getActivityFeedback(itineraryId);
+    setActivityFeedback(feedback || []);
+    setIsReplacingDownvoted(false);
+    if (failed > 0) {
+        alert(`Couldn't replace ${failed} of the down-voted ${failed === 1 ? 'activity' : 'activities'}. Please try again.`);
+    }
+  };
+
+  // Apply the server's copy of the plan after any edit, undo or redo
+  const applySavedItinerary = (saved: ItineraryPayload) => {
+    setItinerary(saved.plan);
+    setHistory({ canUndo: saved.canUndo, canRedo: saved.canRedo });
+    setPreview(saved.preview);
+  };
+
+  const handleHistoryStep = async (direction: 'undo' | 'redo') => {
+    if (!itineraryId || isSteppingHistory) return;
+    setIsSteppingHistory(true);
+    const saved = direction === 'undo' ? await undoItineraryChange(itineraryId) : await redoItineraryChange(itineraryId);
+    if (saved) applySavedItinerary(saved);
+    setRouteReport(null);
+    setIsSteppingHistory(false);
+  };
+
+  const openHistoryModal = async () => {
+    if (!itineraryId) return;
+    setHistoryModalOpen(true);
+    setRevisionComparison(null);
+    setRevisionLog({ revision: 0, revisions: null });
+    const log = await getItineraryRevisions(itineraryId);
+    if (log) {
+        setRevisionLog({ revision: log.revision, revisions: log.revisions });
+    } else {
+        setHistoryModalOpen(false);
+        alert("Couldn't load the edit history. Please try again.");
+    }
+  };
+
+  // Lists what changed between an earlier revision and the current one
+  const handleCompareRevision = async (revision: number) => {
+    if (!itineraryId) return;
+    setRevisionComparison({ revision, changes: null });
+    const changes = await diffItineraryRevisions(itineraryId, revision, revisionLog.revision);
+    if (changes) {
+        setRevisionComparison(current => current?.revision === revision ? { revision, changes } : current);
+    } else {
+        setRevisionComparison(null);
+        alert("Couldn't compare these versions. Please try again.");
+    }
+  };
+
+  const handleRestoreRevision = async (revision: number) => {
+    if (!itineraryId || isRestoringRevision) return;
+    setIsRestoringRevision(true);
+    const saved = await restoreItineraryRevision(itineraryId, revision);
+    if (saved) {
+        applySavedItinerary(saved);
+        setRouteReport(null);
+        setHistoryModalOpen(false);
+    } else {
+        alert("Couldn't restore this version. Please try again.");
+    }
+    setIsRestoringRevision(false);
+  };
+
+  const handleOptimizeRoute = async (allowDayMoves = false) => {
+    if (!itineraryId || isOptimizingRoute) return;
+    setIsOptimizingRoute(true);
+    const saved = await optimizeItineraryRoute(itineraryId, allowDayMoves);
+    if (saved) {
+        applySavedItinerary(saved);
+        setRouteReport(saved.report);
+    } else {
+        alert("Couldn't optimise the route. Please try again.");
+    }
+    setIsOptimizingRoute(false);
+  };
+
   const openRegenerateModal = (dayNum: number, period: 'morning' | 'afternoon' | 'evening', idx: number, activity: Activity, dayContext: DayPlan) => {
       setRegenTarget({ dayNum, period, idx, activity, dayContext });
       setRegenModalOpen(true);
@@ -557,20 +1274,15 @@ export default function App() {
 
     try {
         const newActivity = await getAlternativeActivity(
-            prefs, activity, { dayTitle: dayContext.title, area: dayContext.areaFocus, timeOfDay: period }, existingNames, instruction
+            prefsForDay(dayContext), activity, { dayTitle: dayContext.title, area: dayContext.areaFocus, timeOfDay: period }, existingNames, instruction
         );
-        if (newActivity) {
-            setItinerary(prev => {
-                if (!prev || !prev.days) return null;
-                const newDays = prev.days.map(d => {
-                    if (d.dayNumber !== dayNum) return d;
-                    const activities = d[period] || [];
-                    const newActivities = [...activities];
-                    if (newActivities[idx]) newActivities[idx] = newActivity;
-                    return { ...d, [period]: newActivities };
-                });
-                return { ...prev, days: newDays };
-            });
+        if (newActivity && itineraryId) {
+            const saved = await updateItineraryActivities(itineraryId, { op: 'replace', dayNumber: dayNum, period, index: idx, activity: newActivity });
+            if (saved) {
+                applySavedItinerary(saved);
+            } else {
+                alert("Could not save the new activity. Please try again.");
+            }
         }
     } catch (e) { console.error("Failed to redo", e); } finally {
         setRegeneratingIds(prev => { const next = new Set(prev); next.delete(id); return next; });
@@ -578,25 +1290,27 @@ export default function App() {
     }
   };
 
-  const handleDeleteActivity = (dayNum: number, period: 'morning' | 'afternoon' | 'evening', idx: number) => {
-    setItinerary(prev => {
-        if (!prev || !prev.days) return null;
-        const newDays = prev.days.map(d => {
-            if (d.dayNumber !== dayNum) return d;
-            const list = d[period] || [];
-            const newList = [...list];
-            newList.splice(idx, 1);
-            return { ...d, [period]: newList };
-        });
-        return { ...prev, days: newDays };
-    });
+  const handleDeleteActivity = async (dayNum: number, period: ActivityPeriod, idx: number) => {
+    if (!itineraryId) return;
+    const saved = await updateItineraryActivities(itineraryId, { op: 'delete', dayNumber: dayNum, period, index: idx });
+    if (saved) {
+        applySavedItinerary(saved);
+    } else {
+        alert("Could not remove the activity. Please try again.");
+    }
   };
 
   // --- Renders ---
   
   if (step === Step.START) {
     return (
-      <div className="min-h-screen flex flex-col items-center justify-start pt-8 md:pt-24 p-6 bg-gradient-to-br from-sky-50 to-indigo-50">
+      <div className="min-h-screen flex flex-col items-center justify-start pt-8 md:pt-24 p-6 bg-gradient-to-br from-sky-50 to-indigo-50 relative">
+        <button 
+            onClick={() => setStep(Step.MY_TRIPS)}
+            className="absolute top-4 right-4 flex items-center gap-2 px-3 py-2 rounded-lg text-sm font-medium text-sky-700 hover:bg-white/70 transition-colors"
+        >
+            {currentUser ? <><Briefcase size={18} /> My Trips</> : <><User size={18} /> Sign in</>}
+        </button>
         <div className="max-w-md w-full space-y-8 animate-fade-in-up">
           <div className="text-center space-y-2">
             <div className="inline-flex p-3 rounded-2xl bg-sky-100 text-sky-600 mb-2">
@@ -607,60 +1321,74 @@ export default function App() {
           </div>
 
           <div className="bg-white p-6 rounded-3xl shadow-xl shadow-slate-200/50 space-y-5 relative z-0">
-            <Input 
-              label="Where to?" 
-              placeholder="e.g. Tokyo, Japan" 
-              value={prefs.destination}
-              onChange={(e) => setPrefs({...prefs, destination: e.target.value})}
-            />
+            {prefs.legs ? (
+              <>
+                <TripLegsEditor legs={prefs.legs} onChange={(legs) => setPrefs({...prefs, legs})} maxLegs={MAX_TRIP_LEGS} />
+                <button onClick={() => setPrefs({...prefs, legs: undefined})} className="text-sm text-slate-500 hover:text-sky-600">
+                  Just one city
+                </button>
+              </>
+            ) : (
+              <>
+                <Input 
+                  label="Where to?" 
+                  placeholder="e.g. Tokyo, Japan" 
+                  value={prefs.destination}
+                  onChange={(e) => setPrefs({...prefs, destination: e.target.value})}
+                />
             
-            <div className="relative">
-                <label className="block text-sm font-medium text-slate-600 mb-1.5 ml-1">Travel Dates</label>
-                <div 
-                    onClick={() => setIsDatePickerOpen(!isDatePickerOpen)}
-                    className="w-full px-4 py-3.5 rounded-xl border border-slate-200 bg-white text-slate-900 flex items-center justify-between cursor-pointer hover:border-sky-500 transition-colors relative z-10"
-                >
-                    <span className={!prefs.startDate ? 'text-slate-400' : 'text-slate-900 font-medium'}>
-                        {prefs.startDate ? (
-                            <>
-                                {formatDate(prefs.startDate)} 
-                                {prefs.endDate ? ` — ${formatDate(prefs.endDate)}` : ' — Select End Date'}
-                            </>
-                        ) : 'Select Travel Dates'}
-                    </span>
-                    <Calendar size={20} className="text-slate-400" />
-                </div>
+                <div className="relative">
+                    <label className="block text-sm font-medium text-slate-600 mb-1.5 ml-1">Travel Dates</label>
+                    <div 
+                        onClick={() => setIsDatePickerOpen(!isDatePickerOpen)}
+                        className="w-full px-4 py-3.5 rounded-xl border border-slate-200 bg-white text-slate-900 flex items-center justify-between cursor-pointer hover:border-sky-500 transition-colors relative z-10"
+                    >
+                        <span className={!prefs.startDate ? 'text-slate-400' : 'text-slate-900 font-medium'}>
+                            {prefs.startDate ? (
+                                <>
+                                    {formatDate(prefs.startDate)} 
+                                    {prefs.endDate ? ` — ${formatDate(prefs.endDate)}` : ' — Select End Date'}
+                                </>
+                            ) : 'Select Travel Dates'}
+                        </span>
+                        <Calendar size={20} className="text-slate-400" />
+                    </div>
 
-                {isDatePickerOpen && (
-                    <>
-                        <div 
-                            className="fixed inset-0 z-10" 
-                            onClick={() => setIsDatePickerOpen(false)}
-                        ></div>
-                        <div className="absolute top-0 left-1/2 -translate-x-1/2 z-20">
-                            <DateRangePicker 
-                                startDate={prefs.startDate} 
-                                endDate={prefs.endDate} 
-                                onChange={(start, end) => setPrefs({...prefs, startDate: start, endDate: end})}
-                                onClose={() => setIsDatePickerOpen(false)}
-                            />
-                        </div>
-                    </>
-                )}
-            </div>
+                    {isDatePickerOpen && (
+                        <>
+                            <div 
+                                className="fixed inset-0 z-10" 
+                                onClick={() => setIsDatePickerOpen(false)}
+                            ></div>
+                            <div className="absolute top-0 left-1/2 -translate-x-1/2 z-20">
+                                <DateRangePicker 
+                                    startDate={prefs.startDate} 
+                                    endDate={prefs.endDate} 
+                                    onChange={(start, end) => setPrefs({...prefs, startDate: start, endDate: end})}
+                                    onClose={() => setIsDatePickerOpen(false)}
+                                />
+                            </div>
+                        </>
+                    )}
+                </div>
 
-            <Input 
-              label="Hotel Location (Optional)" 
-              placeholder="Area or Hotel Name" 
-              value={prefs.hotelLocation}
-              onChange={(e) => setPrefs({...prefs, hotelLocation: e.target.value})}
-            />
+                <Input 
+                  label="Hotel Location (Optional)" 
+                  placeholder="Area or Hotel Name" 
+                  value={prefs.hotelLocation}
+                  onChange={(e) => setPrefs({...prefs, hotelLocation: e.target.value})}
+                />
+                <button onClick={startMultiCity} className="text-sm text-sky-600 hover:text-sky-700 font-medium flex items-center gap-1">
+                  <Plus size={14} /> Visiting more than one city?
+                </button>
+              </>
+            )}
 
             <Button 
                 fullWidth 
                 size="lg" 
                 onClick={handleStartSubmit} 
-                disabled={!prefs.destination || !prefs.startDate || !prefs.endDate || isValidating}
+                disabled={(prefs.legs ? prefs.legs.some(l => !l.destination || !l.startDate || !l.endDate) : (!prefs.destination || !prefs.startDate || !prefs.endDate)) || isValidating}
             >
               {isValidating ? (
                   <span className="flex items-center justify-center gap-2">
@@ -963,6 +1691,83 @@ export default function App() {
                 )}
             </section>
 
+            {/* Multi-city trips set a hotel per city on the first screen instead */}
+            {!prefs.legs && (
+                <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-4">
+                    <h3 className="text-lg font-semibold text-slate-700 flex items-center gap-2">
+                        <Hotel size={20} className="text-sky-500"/> Changing Hotels?
+                    </h3>
+                    <p className="text-sm text-slate-400">
+                        {prefs.hotelLocation ? `You start at ${prefs.hotelLocation}. ` : ''}Add each hotel you move to and the night you check in, and we'll start and end those days there.
+                    </p>
+
+                    <div className="flex gap-2 items-end">
+                        <div className="flex-1 relative min-w-0">
+                            <label className="block text-sm font-medium text-slate-600 mb-1.5 ml-1">Check-in</label>
+                            <div 
+                                onClick={() => setIsStayDatePickerOpen(!isStayDatePickerOpen)}
+                                className="w-full h-[54px] px-3 rounded-xl border border-slate-200 bg-white text-slate-900 flex items-center justify-between cursor-pointer hover:border-sky-500 transition-colors"
+                            >
+                                <span className={`text-sm truncate ${!tempStay.date ? 'text-slate-400' : 'text-slate-900 font-medium'}`}>
+                                    {tempStay.date ? formatDate(tempStay.date) : 'Select Date'}
+                                </span>
+                                <Calendar size={16} className="text-slate-400 flex-shrink-0 ml-1" />
+                            </div>
+
+                            {isStayDatePickerOpen && (
+                                <>
+                                    <div 
+                                        className="fixed inset-0 z-10" 
+                                        onClick={() => setIsStayDatePickerOpen(false)}
+                                    ></div>
+                                    <div className="absolute top-full left-0 mt-2 z-20">
+                                        <SingleDatePicker 
+                                            date={tempStay.date}
+                                            minDate={prefs.startDate}
+                                            maxDate={prefs.endDate}
+                                            onChange={(date) => setTempStay({...tempStay, date})}
+                                            onClose={() => setIsStayDatePickerOpen(false)}
+                                        />
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <Input 
+                                label="Hotel"
+                                placeholder="Hotel or area"
+                                value={tempStay.name}
+                                onChange={(e) => setTempStay({...tempStay, name: e.target.value})}
+                                className="h-[54px]" 
+                            />
+                        </div>
+                        <button 
+                            onClick={addHotelStay}
+                            disabled={!tempStay.date || !tempStay.name}
+                            className="mb-[2px] h-[54px] w-[54px] flex items-center justify-center bg-sky-100 text-sky-600 rounded-xl hover:bg-sky-200 disabled:opacity-50 transition-colors flex-shrink-0"
+                        >
+                            <Plus size={24} />
+                        </button>
+                    </div>
+
+                    {(prefs.hotelStays || []).length > 0 && (
+                        <div className="space-y-2 mt-4">
+                            {(prefs.hotelStays || []).map(stay => (
+                                <div key={stay.id} className="flex justify-between items-center p-3 bg-slate-50 rounded-xl border border-slate-100">
+                                    <div className="overflow-hidden">
+                                        <span className="font-semibold text-sky-900 mr-2">From {formatDate(stay.startDate)}:</span>
+                                        <span className="text-slate-700 truncate">{stay.name}</span>
+                                    </div>
+                                    <button onClick={() => removeHotelStay(stay.id)} className="text-red-400 hover:text-red-600 p-1 flex-shrink-0">
+                                        <Trash2 size={18} />
+                                    </button>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </section>
+            )}
+
             <section className="bg-white p-6 rounded-2xl border border-slate-100 shadow-sm space-y-4">
                 <h3 className="text-lg font-semibold text-slate-700 flex items-center gap-2">
                     <Sparkles size={20} className="text-amber-500"/> Must Visit
@@ -1018,6 +1823,17 @@ export default function App() {
             <span className="bg-slate-800 text-white px-4 py-1.5 rounded-full text-sm font-bold shadow-md">
                 Question {currentQuestionIndex + 1} / {smartQuestions.length}
             </span>
+            {/* Group trips: let every traveller swipe the same deck */}
+            {!joinDeck && prefs.tripType !== 'Solo' && (
+                <button 
+                    onClick={handleShareDeck}
+                    disabled={isSharingDeck}
+                    className="mt-4 mx-auto flex items-center gap-2 text-sm font-medium text-sky-600 hover:underline disabled:opacity-50"
+                >
+                    {isSharingDeck ? <Loader2 size={14} className="animate-spin" /> : <Users size={14} />}
+                    {groupDeck ? 'Copy the group link again' : 'Ask my group to swipe too'}
+                </button>
+            )}
           </div>
 
           <div className="relative w-full h-[400px]">
@@ -1097,6 +1913,67 @@ export default function App() {
   }
 
   // ... (LOADING Step)
+  if (step === Step.LOADING && generation) {
+    const draftedCount = generation.days.filter(day => day !== undefined).length;
+    const headline = generation.phase === 'locating' ? 'Pinning every stop on the map...'
+      : generation.phase === 'optimizing' ? 'Working out the best routes...'
+      : generation.phase === 'saving' || generation.phase === 'done' ? 'Saving your trip...'
+      : `Drafting your days in ${generation.city}...`;
+    return (
+      <div className="min-h-screen flex flex-col items-center bg-white p-6 pt-16 text-center">
+        <div className="relative">
+          <div className="absolute inset-0 animate-ping rounded-full bg-sky-100 opacity-75"></div>
+          <div className="relative bg-sky-50 p-6 rounded-full text-sky-600">
+             <Map className="w-12 h-12 animate-bounce" />
+          </div>
+        </div>
+        <h2 className="text-2xl font-bold text-slate-900 mt-8 mb-2">{headline}</h2>
+        <p className="text-slate-500 max-w-xs mx-auto mb-8">
+            {generation.totalDays > 0
+                ? `${draftedCount} of ${generation.totalDays} days drafted`
+                : 'Analyzing demographics, checking local gems, and organizing your fixed plans'}
+        </p>
+
+        <div className="w-full max-w-xs bg-slate-100 rounded-full h-2 overflow-hidden">
+            <div 
+                className="bg-sky-500 h-full rounded-full transition-all duration-300 ease-out"
+                style={{ width: `${progress}%` }}
+            ></div>
+        </div>
+
+        <div className="w-full max-w-md mt-10 space-y-3 text-left">
+            {generation.days.map((day, index) => {
+                if (day === undefined) return null;
+                if (day === null) return (
+                    <div key={index} className="bg-slate-50 border border-slate-100 rounded-2xl p-4 animate-fade-in-up">
+                        <div className="text-xs font-bold uppercase tracking-wider text-amber-600 flex items-center gap-1">
+                            <Lock size={12} /> Day {index + 1}
+                        </div>
+                        <div className="font-bold text-slate-400 mt-1">Included when you unlock the full trip</div>
+                        <div className="h-3 w-2/3 bg-slate-200 rounded-full mt-3 filter blur-sm"></div>
+                    </div>
+                );
+                const activities = [...(day.morning || []), ...(day.afternoon || []), ...(day.evening || [])];
+                return (
+                    <div key={day.dayNumber} className="bg-slate-50 border border-slate-100 rounded-2xl p-4 animate-fade-in-up">
+                        <div className="text-xs font-bold uppercase tracking-wider text-sky-600">
+                            Day {day.dayNumber}{day.date ? ` · ${day.date}` : ''}{day.city ? ` · ${day.city}` : ''}
+                        </div>
+                        <div className="font-bold text-slate-900 mt-1">{day.title}</div>
+                        {day.areaFocus && <div className="text-sm text-slate-500">{day.areaFocus}</div>}
+                        {activities.length > 0 && (
+                            <div className="text-sm text-slate-600 mt-2 truncate">
+                                {activities.slice(0, 4).map(a => `${a.emoji || ''} ${a.name}`.trim()).join(' · ')}
+                            </div>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+      </div>
+    );
+  }
+
   if (step === Step.LOADING) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-white p-6 text-center">
@@ -1119,6 +1996,221 @@ export default function App() {
     );
   }
   
+  if (step === Step.GROUP_JOIN && joinDeck) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center p-6 bg-slate-50">
+        <div className="max-w-md w-full bg-white p-8 rounded-3xl shadow-xl border border-slate-100 text-center">
+            <div className="mx-auto w-16 h-16 bg-sky-100 rounded-full flex items-center justify-center mb-6">
+                <Users size={32} className="text-sky-600" />
+            </div>
+            {deckSubmitStatus === 'sent' ? (
+                <>
+                    <h2 className="text-2xl font-bold text-slate-900 mb-2">Thanks, {travellerName}!</h2>
+                    <p className="text-slate-600">Your answers were sent to the trip organiser. They'll be merged with the rest of the group's before the trip is planned.</p>
+                </>
+            ) : deckSubmitStatus === 'sending' ? (
+                <div className="flex justify-center py-6 text-slate-400"><Loader2 className="animate-spin" /></div>
+            ) : (
+                <>
+                    <h2 className="text-2xl font-bold text-slate-900 mb-2">
+                        Help plan {joinDeck.destination ? `the trip to ${joinDeck.destination}` : 'the trip'}
+                    </h2>
+                    <p className="text-slate-600 mb-6">
+                        Swipe through {joinDeck.questions.length} quick questions. Your answers are combined with everyone else's.
+                    </p>
+                    <Input 
+                        placeholder="Your name"
+                        value={travellerName}
+                        onChange={(e) => setTravellerName(e.target.value)}
+                        className="mb-4"
+                        autoFocus
+                    />
+                    <Button fullWidth size="lg" onClick={handleStartDeck} disabled={!travellerName.trim()}>
+                        Start Swiping <ArrowRight size={18} className="ml-2" />
+                    </Button>
+                </>
+            )}
+        </div>
+      </div>
+    );
+  }
+
+  if (step === Step.GROUP_SUMMARY) {
+    const strategies: { value: MergeStrategy, label: string, subLabel: string }[] = [
+        { value: 'majority', label: 'Majority', subLabel: 'Most votes wins' },
+        { value: 'veto', label: 'Any veto', subLabel: 'One no is enough' },
+        { value: 'weighted', label: 'Weighted', subLabel: 'Some votes count more' }
+    ];
+
+    return (
+      <div className="min-h-screen bg-slate-50 p-6">
+        <div className="max-w-2xl mx-auto space-y-6">
+            <div className="text-center">
+                <h2 className="text-2xl font-bold text-slate-900 mb-2">Your group's answers</h2>
+                <p className="text-slate-500">
+                    {deckMerge ? `${deckMerge.responses.length} ${deckMerge.responses.length === 1 ? 'person has' : 'people have'} answered so far.` : 'Collecting answers...'}
+                </p>
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+                {strategies.map(option => (
+                    <SelectableCard 
+                        key={option.value}
+                        selected={mergeStrategy === option.value}
+                        onClick={() => setMergeStrategy(option.value)}
+                        label={option.label}
+                        subLabel={option.subLabel}
+                    />
+                ))}
+            </div>
+
+            {deckMerge && mergeStrategy === 'weighted' && (
+                <div className="bg-white rounded-2xl border border-slate-100 p-4 space-y-2">
+                    {deckMerge.responses.map(response => (
+                        <div key={response.id} className="flex items-center justify-between">
+                            <span className="text-sm font-medium text-slate-700">{response.name}</span>
+                            <div className="flex items-center gap-2">
+                                <button 
+                                    onClick={() => setMergeWeights(prev => ({ ...prev, [response.id]: Math.max(0, response.weight - 1) }))}
+                                    className="w-8 h-8 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50"
+                                >-</button>
+                                <span className="w-6 text-center text-sm font-bold text-slate-900">{response.weight}</span>
+                                <button 
+                                    onClick={() => setMergeWeights(prev => ({ ...prev, [response.id]: Math.min(10, response.weight + 1) }))}
+                                    className="w-8 h-8 rounded-lg border border-slate-200 text-slate-500 hover:bg-slate-50"
+                                >+</button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-3">
+                <h3 className="text-sm font-bold text-slate-400 uppercase tracking-wider">Where the group disagreed</h3>
+                {!deckMerge ? (
+                    <div className="flex justify-center py-6 text-slate-400"><Loader2 className="animate-spin" /></div>
+                ) : deckMerge.disagreements.length === 0 ? (
+                    <p className="text-sm text-slate-500 bg-white rounded-2xl border border-slate-100 p-4">Everyone agreed on everything so far.</p>
+                ) : deckMerge.disagreements.map(d => (
+                    <div key={d.questionId} className="bg-white rounded-2xl border border-slate-100 p-4">
+                        <div className="flex items-center justify-between mb-2">
+                            <p className="font-bold text-slate-900">{d.emoji} {d.title}</p>
+                            <span className={`text-xs font-bold px-2 py-1 rounded-full ${d.result ? 'bg-green-50 text-green-600' : 'bg-red-50 text-red-500'}`}>
+                                {d.result ? 'Included' : 'Skipped'}
+                            </span>
+                        </div>
+                        <p className="text-sm text-slate-500 flex items-center gap-1"><ThumbsUp size={14} className="text-green-500" /> {d.yes.join(', ')}</p>
+                        <p className="text-sm text-slate-500 flex items-center gap-1"><ThumbsDown size={14} className="text-red-400" /> {d.no.join(', ')}</p>
+                    </div>
+                ))}
+            </div>
+
+            <div className="flex gap-3">
+                <Button variant="secondary" fullWidth onClick={refreshDeckMerge}>
+                    <RotateCw size={18} className="mr-2" /> Refresh
+                </Button>
+                <Button fullWidth onClick={handleGenerateFromGroup} disabled={!deckMerge}>
+                    Plan the Trip <ArrowRight size={18} className="ml-2" />
+                </Button>
+            </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (step === Step.MY_TRIPS) {
+    return (
+      <div className="min-h-screen bg-slate-50">
+        <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-md border-b border-slate-200">
+            <div className="max-w-3xl mx-auto px-6 py-4 flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                    <button onClick={() => setStep(Step.START)} className="p-2 -ml-2 text-slate-400 hover:text-slate-600">
+                        <ChevronLeft size={20} />
+                    </button>
+                    <div>
+                        <h1 className="text-xl font-bold text-slate-900">My Trips</h1>
+                        {currentUser && <p className="text-sm text-slate-500">{currentUser.email}</p>}
+                    </div>
+                </div>
+                {currentUser && (
+                    <button onClick={handleLogout} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors flex items-center gap-2" title="Sign out">
+                        <LogOut size={18} />
+                        <span className="hidden sm:inline text-sm font-medium">Sign out</span>
+                    </button>
+                )}
+            </div>
+        </header>
+
+        <div className="max-w-3xl mx-auto p-4 md:p-6">
+          {!currentUser ? (
+            <div className="max-w-md mx-auto bg-white p-8 rounded-3xl shadow-xl shadow-slate-200/50 text-center mt-8">
+                <div className="mx-auto w-16 h-16 bg-sky-100 rounded-full flex items-center justify-center mb-6">
+                    <Mail size={32} className="text-sky-600"/>
+                </div>
+                {loginLinkStatus === 'sent' ? (
+                    <>
+                        <h3 className="text-2xl font-bold text-slate-900 mb-2">Check your inbox</h3>
+                        <p className="text-slate-600">We sent a sign-in link to <span className="font-medium">{loginEmail}</span>. It expires in 15 minutes.</p>
+                    </>
+                ) : (
+                    <>
+                        <h3 className="text-2xl font-bold text-slate-900 mb-2">Sign in to see your trips</h3>
+                        <p className="text-slate-600 mb-6">No password needed. We'll email you a one-time sign-in link.</p>
+                        <Input 
+                            placeholder="name@example.com"
+                            type="email"
+                            value={loginEmail}
+                            onChange={(e) => setLoginEmail(e.target.value)}
+                            className="mb-4"
+                            autoFocus
+                        />
+                        <Button fullWidth size="lg" onClick={handleRequestLoginLink} disabled={!loginEmail || loginLinkStatus === 'sending'}>
+                            {loginLinkStatus === 'sending' ? <Loader2 className="animate-spin" /> : 'Email me a link'}
+                        </Button>
+                    </>
+                )}
+            </div>
+          ) : myTrips === null ? (
+            <div className="flex justify-center py-20">
+                <Loader2 className="w-8 h-8 animate-spin text-sky-500" />
+            </div>
+          ) : myTrips.length === 0 ? (
+            <div className="text-center py-20">
+                <p className="text-slate-500 mb-6">You don't have any trips yet.</p>
+                <Button onClick={() => setStep(Step.START)}>Plan a Trip</Button>
+            </div>
+          ) : (
+            <div className="space-y-3">
+                {myTrips.map(trip => (
+                    <button 
+                        key={trip.id}
+                        onClick={() => handleOpenTrip(trip.id)}
+                        className="w-full text-left flex items-center gap-4 bg-white p-5 rounded-2xl border border-slate-100 hover:border-sky-200 hover:shadow-md transition-all"
+                    >
+                        <div className="flex-shrink-0 w-12 h-12 bg-sky-50 text-sky-600 rounded-xl flex items-center justify-center">
+                            <Plane size={22} />
+                        </div>
+                        <div className="flex-1 min-w-0">
+                            <h3 className="font-bold text-slate-900 truncate">{trip.destination}</h3>
+                            <p className="text-sm text-slate-500">
+                                {trip.startDate && trip.endDate ? `${trip.startDate} — ${trip.endDate}` : `${trip.totalDays} days`}
+                            </p>
+                        </div>
+                        {trip.unlocked ? (
+                            <span className="flex items-center gap-1 text-xs font-medium text-green-600 bg-green-50 px-2 py-1 rounded-full"><Check size={12} /> Unlocked</span>
+                        ) : (
+                            <span className="flex items-center gap-1 text-xs font-medium text-amber-600 bg-amber-50 px-2 py-1 rounded-full"><Lock size={12} /> Preview</span>
+                        )}
+                        <ChevronRight size={18} className="text-slate-300" />
+                    </button>
+                ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
   if (step === Step.VERIFYING_PAYMENT) {
     return (
       <div className="min-h-screen flex flex-col items-center justify-center bg-white p-6 text-center">
@@ -1133,9 +2225,13 @@ export default function App() {
 
   // ... (ITINERARY Step - UPDATED FOR LOCKING)
   if (step === Step.ITINERARY && itinerary && itinerary.days) {
-    // Determine how many days to show (Locked = max 2)
-    const displayDays = isUnlocked ? itinerary.days : itinerary.days.slice(0, 2);
-    const lockedDaysCount = totalDays - displayDays.length;
+    // The server has already applied the preview policy; `preview` says what it hid
+    const displayDays = itinerary.days;
+    const lockedDaysCount = preview ? preview.hiddenDays : 0;
+    const isRedacted = !!preview && preview.redactedFields.length > 0;
+    const hasLockedContent = !!preview && (preview.hiddenDays > 0 || preview.lockedPeriods.length > 0 || isRedacted);
+    const checkoutPrice = promoQuote?.price || unlockPrice;
+    const downvotedCount = activityFeedback.filter(f => f.net < 0).length;
 
     return (
       <div className="min-h-screen bg-slate-50 relative">
@@ -1152,15 +2248,98 @@ export default function App() {
                     </p>
                 </div>
                 <div className="flex gap-2">
-                   {/* Share Button (Only visible when unlocked for now, or always?) - Let's allow sharing anytime */}
+                   {/* Owner-only actions; viewers of a shared link just read */}
+                   {canEdit && (
+                   <>
                    <button 
-                       onClick={() => setEmailModalOpen(true)}
+                       onClick={() => handleHistoryStep('undo')}
+                       disabled={!history.canUndo || isSteppingHistory}
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                       title="Undo last change"
+                   >
+                       <Undo2 size={20} />
+                   </button>
+                   <button 
+                       onClick={() => handleHistoryStep('redo')}
+                       disabled={!history.canRedo || isSteppingHistory}
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30 disabled:hover:bg-transparent"
+                       title="Redo"
+                   >
+                       <Redo2 size={20} />
+                   </button>
+                   <button 
+                       onClick={openHistoryModal}
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                       title="Edit history"
+                   >
+                       <History size={20} />
+                   </button>
+                   <button 
+                       onClick={openGroupModal}
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                       title="Invite your group to vote"
+                   >
+                       <Users size={20} />
+                   </button>
+                   {/* Share Button - allowed whether or not the trip is unlocked */}
+                   <button 
+                       onClick={openShareModal}
                        className="p-2 text-sky-600 hover:bg-sky-50 rounded-lg transition-colors flex items-center gap-2"
                        title="Share Itinerary"
                    >
                        <Share2 size={20} />
                        <span className="hidden sm:inline text-sm font-medium">Share</span>
                    </button>
+                   </>
+                   )}
+                   {canEdit && isUnlocked && (
+                   <button 
+                       onClick={() => handleOptimizeRoute()}
+                       disabled={isOptimizingRoute}
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors disabled:opacity-30"
+                       title="Optimise the route"
+                   >
+                       {isOptimizingRoute ? <Loader2 size={20} className="animate-spin" /> : <Waypoints size={20} />}
+                   </button>
+                   )}
+                   {itineraryId && isUnlocked && (
+                   <a 
+                       href={getPdfUrl(itineraryId)}
+                       download
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                       title="Download PDF"
+                   >
+                       <FileDown size={20} />
+                   </a>
+                   )}
+                   {itineraryId && (
+                   <div className="relative">
+                       <button 
+                           onClick={() => setRouteMenuOpen(open => !open)}
+                           className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                           title="Export route for map apps"
+                       >
+                           <Route size={20} />
+                       </button>
+                       {routeMenuOpen && (
+                           <div className="absolute right-0 mt-2 w-44 bg-white rounded-xl shadow-lg border border-slate-100 py-1 z-50" onClick={() => setRouteMenuOpen(false)}>
+                               <a href={getRouteExportUrl(itineraryId, 'gpx')} download className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50">GPX (hiking apps)</a>
+                               <a href={getRouteExportUrl(itineraryId, 'kml')} download className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50">KML (Google Earth)</a>
+                               <a href={getRouteExportUrl(itineraryId, 'geojson')} download className="block px-4 py-2 text-sm text-slate-700 hover:bg-slate-50">GeoJSON</a>
+                           </div>
+                       )}
+                   </div>
+                   )}
+                   {itineraryId && (
+                   <a 
+                       href={getCalendarUrl(itineraryId)}
+                       download
+                       className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg transition-colors"
+                       title={isUnlocked ? "Add to calendar" : "Add the preview days to your calendar"}
+                   >
+                       <CalendarPlus size={20} />
+                   </a>
+                   )}
                    <button onClick={() => setStep(Step.START)} className="p-2 text-slate-400 hover:text-slate-600">
                      <X size={20} />
                    </button>
@@ -1170,8 +2349,65 @@ export default function App() {
 
         <div className="max-w-3xl mx-auto p-4 md:p-6 space-y-8 pb-20">
           
-          {displayDays.map((day) => (
+          {canEdit && downvotedCount > 0 && (
+             <div className="flex items-center justify-between gap-4 bg-amber-50 border border-amber-100 rounded-2xl p-4">
+                 <p className="text-sm text-amber-800 flex items-center gap-2">
+                     <ThumbsDown size={16} className="flex-shrink-0" />
+                     Your group voted down {downvotedCount} {downvotedCount === 1 ? 'activity' : 'activities'}.
+                 </p>
+                 {/* Redacted previews can't be edited (see readOnly on ActivityCard), so there is nothing to replace yet */}
+                 {isRedacted ? (
+                     <span className="text-xs text-amber-700 flex-shrink-0">Unlock the full itinerary to replace them</span>
+                 ) : (
+                 <Button size="sm" variant="secondary" onClick={handleReplaceDownvoted} disabled={isReplacingDownvoted}>
+                     {isReplacingDownvoted ? <Loader2 size={16} className="animate-spin" /> : <span className="flex items-center gap-2"><RotateCw size={16} /> Replace them</span>}
+                 </Button>
+                 )}
+             </div>
+          )}
+
+          {routeReport && (
+             <div className="bg-sky-50 border border-sky-100 rounded-2xl p-4 space-y-3">
+                 <div className="flex items-start justify-between gap-4">
+                     <p className="text-sm text-sky-900 flex items-center gap-2">
+                         <Waypoints size={16} className="flex-shrink-0" />
+                         {routeReport.totalAfterKm < routeReport.totalBeforeKm
+                            ? `Route optimised: ${routeReport.totalBeforeKm} km → ${routeReport.totalAfterKm} km in total.`
+                            : `Your route is already as short as it gets (${routeReport.totalAfterKm} km in total).`}
+                         {routeReport.movedBetweenDays > 0 && ` ${routeReport.movedBetweenDays} activities moved to another day.`}
+                     </p>
+                     <button onClick={() => setRouteReport(null)} className="text-sky-400 hover:text-sky-600"><X size={16} /></button>
+                 </div>
+                 <ul className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-xs text-sky-800">
+                     {routeReport.days.map(d => (
+                         <li key={d.dayNumber} className="bg-white/70 rounded-lg px-3 py-2">
+                             <span className="font-bold">Day {d.dayNumber}:</span> {d.beforeKm} → {d.afterKm} km
+                         </li>
+                     ))}
+                 </ul>
+                 <Button size="sm" variant="secondary" onClick={() => handleOptimizeRoute(true)} disabled={isOptimizingRoute}>
+                     {isOptimizingRoute ? <Loader2 size={16} className="animate-spin" /> : 'Also swap activities between days'}
+                 </Button>
+             </div>
+          )}
+
+          {displayDays.map((day, dayIndex) => (
             <div key={day.dayNumber} className="relative">
+                {/* Leg header whenever a multi-city trip arrives in a new city */}
+                {itinerary.legs && day.legIndex !== undefined && (dayIndex === 0 || displayDays[dayIndex - 1].legIndex !== day.legIndex) && (
+                    <div className="flex items-center gap-3 mb-6">
+                        <span className="w-8 h-8 rounded-full bg-sky-600 text-white text-sm font-bold flex items-center justify-center flex-shrink-0">{day.legIndex + 1}</span>
+                        <div>
+                            <h2 className="text-lg font-bold text-slate-900">{day.city}</h2>
+                            {itinerary.legs[day.legIndex] && (
+                                <p className="text-sm text-slate-500">
+                                    {formatDate(itinerary.legs[day.legIndex].startDate)} — {formatDate(itinerary.legs[day.legIndex].endDate)}
+                                </p>
+                            )}
+                        </div>
+                    </div>
+                )}
+
                 {/* Day Header Card */}
                 <div className="bg-white rounded-3xl shadow-sm border border-slate-100 overflow-hidden mb-6">
                     <div className="h-48 w-full bg-slate-100 relative overflow-hidden group">
@@ -1210,9 +2446,26 @@ export default function App() {
                                 {day.vibeIcons?.map((icon, i) => <span key={i} className="text-2xl">{icon}</span>)}
                              </div>
                         </div>
+                        <button 
+                            onClick={() => setOpenMapDays(prev => {
+                                const next = new Set(prev);
+                                if (next.has(day.dayNumber)) next.delete(day.dayNumber); else next.add(day.dayNumber);
+                                return next;
+                            })}
+                            className="mt-3 text-sm font-medium text-sky-600 hover:underline flex items-center gap-1"
+                        >
+                            <Map size={16} /> {openMapDays.has(day.dayNumber) ? 'Hide map' : 'Show map'}
+                        </button>
+                        {openMapDays.has(day.dayNumber) && (
+                            <div className="mt-4">
+                                <DayMap day={day} onSelectActivity={setSelectedActivity} />
+                            </div>
+                        )}
                     </div>
                 </div>
 
+                {day.transfer && <TransferCard transfer={day.transfer} />}
+
                 <div className="space-y-6 pl-3 md:pl-6 border-l-2 border-slate-200 ml-0 md:ml-4 relative">
                     {/* Morning */}
                     {day.morning?.length > 0 && (
@@ -1221,14 +2474,21 @@ export default function App() {
                             <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Morning</h4>
                             <div className="space-y-3">
                                 {day.morning.map((activity, idx) => (
-                                    <ActivityCard 
-                                        key={idx} 
-                                        activity={activity} 
-                                        onDetailsClick={() => setSelectedActivity(activity)}
-                                        onRegenerate={() => openRegenerateModal(day.dayNumber, 'morning', idx, activity, day)}
-                                        onDelete={() => handleDeleteActivity(day.dayNumber, 'morning', idx)}
-                                        isRegenerating={regeneratingIds.has(`${day.dayNumber}-morning-${idx}`)}
-                                    />
+                                    <React.Fragment key={idx}>
+                                        <ActivityCard 
+                                            activity={activity} 
+                                            onDetailsClick={() => setSelectedActivity(activity)}
+                                            onRegenerate={() => openRegenerateModal(day.dayNumber, 'morning', idx, activity, day)}
+                                            onDelete={() => handleDeleteActivity(day.dayNumber, 'morning', idx)}
+                                            isRegenerating={regeneratingIds.has(`${day.dayNumber}-morning-${idx}`)}
+                                            isRedacted={isRedacted}
+                                            readOnly={isRedacted || !canEdit}
+                                            feedback={feedbackFor(day.dayNumber, 'morning', activity.name)}
+                                            onVote={canVote ? (value) => handleVote(day.dayNumber, 'morning', activity.name, value) : undefined}
+                                            onPropose={canVote ? () => setProposalTarget({ dayNumber: day.dayNumber, period: 'morning', activityName: activity.name }) : undefined}
+                                        />
+                                        {legFrom(day, 'morning', idx) && <TravelLegRow leg={legFrom(day, 'morning', idx)!} />}
+                                    </React.Fragment>
                                 ))}
                             </div>
                         </div>
@@ -1241,14 +2501,21 @@ export default function App() {
                             <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Afternoon</h4>
                             <div className="space-y-3">
                                 {day.afternoon.map((activity, idx) => (
-                                    <ActivityCard 
-                                        key={idx} 
-                                        activity={activity} 
-                                        onDetailsClick={() => setSelectedActivity(activity)}
-                                        onRegenerate={() => openRegenerateModal(day.dayNumber, 'afternoon', idx, activity, day)}
-                                        onDelete={() => handleDeleteActivity(day.dayNumber, 'afternoon', idx)}
-                                        isRegenerating={regeneratingIds.has(`${day.dayNumber}-afternoon-${idx}`)}
-                                    />
+                                    <React.Fragment key={idx}>
+                                        <ActivityCard 
+                                            activity={activity} 
+                                            onDetailsClick={() => setSelectedActivity(activity)}
+                                            onRegenerate={() => openRegenerateModal(day.dayNumber, 'afternoon', idx, activity, day)}
+                                            onDelete={() => handleDeleteActivity(day.dayNumber, 'afternoon', idx)}
+                                            isRegenerating={regeneratingIds.has(`${day.dayNumber}-afternoon-${idx}`)}
+                                            isRedacted={isRedacted}
+                                            readOnly={isRedacted || !canEdit}
+                                            feedback={feedbackFor(day.dayNumber, 'afternoon', activity.name)}
+                                            onVote={canVote ? (value) => handleVote(day.dayNumber, 'afternoon', activity.name, value) : undefined}
+                                            onPropose={canVote ? () => setProposalTarget({ dayNumber: day.dayNumber, period: 'afternoon', activityName: activity.name }) : undefined}
+                                        />
+                                        {legFrom(day, 'afternoon', idx) && <TravelLegRow leg={legFrom(day, 'afternoon', idx)!} />}
+                                    </React.Fragment>
                                 ))}
                             </div>
                         </div>
@@ -1261,18 +2528,33 @@ export default function App() {
                             <h4 className="text-sm font-bold text-slate-400 uppercase tracking-wider mb-3">Evening</h4>
                             <div className="space-y-3">
                                 {day.evening.map((activity, idx) => (
-                                    <ActivityCard 
-                                        key={idx} 
-                                        activity={activity} 
-                                        onDetailsClick={() => setSelectedActivity(activity)}
-                                        onRegenerate={() => openRegenerateModal(day.dayNumber, 'evening', idx, activity, day)}
-                                        onDelete={() => handleDeleteActivity(day.dayNumber, 'evening', idx)}
-                                        isRegenerating={regeneratingIds.has(`${day.dayNumber}-evening-${idx}`)}
-                                    />
+                                    <React.Fragment key={idx}>
+                                        <ActivityCard 
+                                            activity={activity} 
+                                            onDetailsClick={() => setSelectedActivity(activity)}
+                                            onRegenerate={() => openRegenerateModal(day.dayNumber, 'evening', idx, activity, day)}
+                                            onDelete={() => handleDeleteActivity(day.dayNumber, 'evening', idx)}
+                                            isRegenerating={regeneratingIds.has(`${day.dayNumber}-evening-${idx}`)}
+                                            isRedacted={isRedacted}
+                                            readOnly={isRedacted || !canEdit}
+                                            feedback={feedbackFor(day.dayNumber, 'evening', activity.name)}
+                                            onVote={canVote ? (value) => handleVote(day.dayNumber, 'evening', activity.name, value) : undefined}
+                                            onPropose={canVote ? () => setProposalTarget({ dayNumber: day.dayNumber, period: 'evening', activityName: activity.name }) : undefined}
+                                        />
+                                        {legFrom(day, 'evening', idx) && <TravelLegRow leg={legFrom(day, 'evening', idx)!} />}
+                                    </React.Fragment>
                                 ))}
                             </div>
                         </div>
                     )}
+
+                    {preview?.lockedPeriods.map(period => (
+                        <LockedPeriodPlaceholder 
+                            key={period} 
+                            period={period} 
+                            count={preview.lockedActivityCounts[day.dayNumber]?.[period] || 0} 
+                        />
+                    ))}
                 </div>
 
                 {day.highlightEvent && (
@@ -1284,7 +2566,9 @@ export default function App() {
                                 <span className="font-bold text-sm tracking-wide text-white/90 uppercase">Special Event</span>
                             </div>
                             <h3 className="text-2xl font-bold mb-2">{day.highlightEvent.name}</h3>
-                            <p className="text-white/80 text-sm mb-4 leading-relaxed">{day.highlightEvent.description}</p>
+                            {day.highlightEvent.description && (
+                                <p className="text-white/80 text-sm mb-4 leading-relaxed">{day.highlightEvent.description}</p>
+                            )}
                             <a 
                                 href={getGoogleSearchUrl(day.highlightEvent.name)}
                                 target="_blank"
@@ -1300,7 +2584,7 @@ export default function App() {
           ))}
 
           {/* LOCKED STATE OVERLAY */}
-          {!isUnlocked && lockedDaysCount > 0 && (
+          {!isUnlocked && hasLockedContent && (
              <div className="relative mt-8 rounded-3xl overflow-hidden border border-slate-200 shadow-xl bg-white">
                 {/* Simulated Blurred Content */}
                 <div className="p-8 filter blur-sm opacity-50 pointer-events-none select-none">
@@ -1318,18 +2602,55 @@ export default function App() {
                         <div className="bg-amber-100 p-3 rounded-full inline-flex mb-3">
                           <Lock size={28} className="text-amber-600" />
                         </div>
-                        <h3 className="text-2xl font-bold text-slate-900 mb-2">Unlock {lockedDaysCount} More Days</h3>
+                        <h3 className="text-2xl font-bold text-slate-900 mb-2">
+                            {lockedDaysCount > 0 ? `Unlock ${lockedDaysCount} More ${lockedDaysCount === 1 ? 'Day' : 'Days'}` : 'Unlock the Full Itinerary'}
+                        </h3>
                         <p className="text-slate-600 mb-6 max-w-sm">
                             Get access to the full itinerary, including hidden gems, logistic details, and optimization tools.
                         </p>
+                        {/* Share-link viewers see the preview but can't buy the owner's trip */}
+                        {itineraryId ? (
+                        <>
                         <Button onClick={handlePayment} size="lg" className="px-10 py-4 shadow-xl shadow-sky-500/30" disabled={isLoadingPayment}>
                             {isLoadingPayment ? <Loader2 className="animate-spin" /> : (
                                 <span className="flex items-center gap-2">
-                                    <CreditCard size={20} /> Pay $5.00 to Unlock
+                                    {checkoutPrice?.amount === 0 ? (
+                                        <><Ticket size={20} /> Unlock for Free</>
+                                    ) : (
+                                        <><CreditCard size={20} /> {checkoutPrice ? `Pay ${checkoutPrice.formatted} to Unlock` : 'Unlock Full Itinerary'}</>
+                                    )}
                                 </span>
                             )}
                         </Button>
+                        {promoQuote && (
+                            <p className="mt-3 text-sm text-green-600 flex items-center justify-center gap-1">
+                                <Check size={14} /> Code {promoQuote.code} applied
+                                <span className="text-slate-400 line-through ml-1">{promoQuote.original.formatted}</span>
+                            </p>
+                        )}
+                        {promoOpen ? (
+                            <div className="mt-4 flex gap-2 max-w-xs mx-auto">
+                                <Input 
+                                    placeholder="Promo code"
+                                    value={promoInput}
+                                    onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                                    className="py-2.5 text-sm uppercase"
+                                />
+                                <Button variant="secondary" size="sm" onClick={handleApplyPromo} disabled={!promoInput.trim() || isApplyingPromo}>
+                                    {isApplyingPromo ? <Loader2 size={16} className="animate-spin" /> : 'Apply'}
+                                </Button>
+                            </div>
+                        ) : (
+                            <button onClick={() => setPromoOpen(true)} className="mt-4 text-sm text-sky-600 hover:underline">
+                                Have a code?
+                            </button>
+                        )}
+                        {promoError && <p className="mt-2 text-xs text-red-500">{promoError}</p>}
                         <p className="mt-4 text-xs text-slate-400">Secure payment via Stripe</p>
+                        </>
+                        ) : (
+                            <p className="text-sm text-slate-500">Ask the person who shared this trip to unlock it.</p>
+                        )}
                     </div>
                 </div>
              </div>
@@ -1341,6 +2662,7 @@ export default function App() {
             <ActivityDetailsModal 
                 activity={selectedActivity} 
                 onClose={() => setSelectedActivity(null)} 
+                isRedacted={isRedacted}
             />
         )}
         
@@ -1353,6 +2675,45 @@ export default function App() {
             />
         )}
         
+        <CollaboratorsModal
+            isOpen={groupModalOpen}
+            onClose={() => setGroupModalOpen(false)}
+            collaborators={collaborators}
+            isInviting={isInviting}
+            error={inviteError}
+            onInvite={handleInviteCollaborator}
+            onRemove={handleRemoveCollaborator}
+        />
+
+        {proposalTarget && (
+            <ProposalModal
+                isOpen={!!proposalTarget}
+                onClose={() => setProposalTarget(null)}
+                onSubmit={handleSubmitProposal}
+                activityName={proposalTarget.activityName}
+            />
+        )}
+
+        <HistoryModal
+            isOpen={historyModalOpen}
+            onClose={() => setHistoryModalOpen(false)}
+            revisions={revisionLog.revisions}
+            currentRevision={revisionLog.revision}
+            comparison={revisionComparison}
+            isRestoring={isRestoringRevision}
+            onCompare={handleCompareRevision}
+            onRestore={handleRestoreRevision}
+        />
+
+        <ShareModal
+            isOpen={shareModalOpen}
+            onClose={() => setShareModalOpen(false)}
+            links={shareLinks}
+            isCreating={isCreatingShareLink}
+            onCreate={handleCreateShareLink}
+            onRevoke={handleRevokeShareLink}
+        />
+
         {/* EMAIL CAPTURE MODAL - Shows immediately after trip generation */}
         {emailModalOpen && (
             <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
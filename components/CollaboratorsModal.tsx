@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { X, UserPlus, Trash2, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { Input } from './Input';
+import { Collaborator } from '../types';
+
+interface CollaboratorsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  collaborators: Collaborator[] | null; // null while loading
+  isInviting: boolean;
+  error: string | null;
+  onInvite: (email: string) => void;
+  onRemove: (email: string) => void;
+}
+
+export const CollaboratorsModal: React.FC<CollaboratorsModalProps> = ({
+  isOpen,
+  onClose,
+  collaborators,
+  isInviting,
+  error,
+  onInvite,
+  onRemove
+}) => {
+  const [email, setEmail] = useState('');
+
+  if (!isOpen) return null;
+
+  const handleInvite = () => {
+    if (!email.trim()) return;
+    onInvite(email.trim());
+    setEmail('');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-fade-in-up">
+
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Plan Together</h3>
+            <p className="text-sm text-slate-500">Invite your travel group to vote on activities and suggest alternatives.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-2">
+          <Input
+            placeholder="friend@example.com"
+            type="email"
+            value={email}
+            onChange={(e) => setEmail(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleInvite()}
+            className="py-2.5 text-sm"
+          />
+          <Button onClick={handleInvite} disabled={!email.trim() || isInviting}>
+            {isInviting ? <Loader2 size={18} className="animate-spin" /> : <UserPlus size={18} />}
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-500 mb-2">{error}</p>}
+
+        <div className="space-y-2 mt-4 max-h-64 overflow-y-auto">
+          {collaborators === null ? (
+            <div className="flex justify-center py-6 text-slate-400"><Loader2 className="animate-spin" /></div>
+          ) : collaborators.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-6">Nobody has been invited yet.</p>
+          ) : collaborators.map(collaborator => (
+            <div key={collaborator.email} className="flex items-center gap-2 p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-slate-700 truncate">{collaborator.email}</p>
+                <p className="text-xs text-slate-400">Invited {new Date(collaborator.invitedAt).toLocaleDateString()}</p>
+              </div>
+              <button onClick={() => onRemove(collaborator.email)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg" title="Remove collaborator">
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useEffect, useRef } from 'react';
+import L from 'leaflet';
+import { MapPinOff, Hotel } from 'lucide-react';
+import { Activity, ActivityPeriod, DayPlan } from '../types';
+
+interface DayMapProps {
+  day: DayPlan;
+  onSelectActivity: (activity: Activity) => void;
+}
+
+const PERIODS: ActivityPeriod[] = ['morning', 'afternoon', 'evening'];
+
+// Matches the timeline dots in the itinerary view
+const PERIOD_COLORS: Record<ActivityPeriod, string> = {
+  morning: '#fbbf24',
+  afternoon: '#fb923c',
+  evening: '#6366f1'
+};
+
+const hasCoordinates = (item: { latitude?: number, longitude?: number }) =>
+  typeof item.latitude === 'number' && typeof item.longitude === 'number';
+
+const numberedIcon = (n: number, color: string) => L.divIcon({
+  className: '',
+  html: `<div style="background:${color};color:white;width:28px;height:28px;border-radius:9999px;border:2px solid white;box-shadow:0 1px 4px rgba(0,0,0,.3);display:flex;align-items:center;justify-content:center;font-weight:700;font-size:13px;">${n}</div>`,
+  iconSize: [28, 28],
+  iconAnchor: [14, 14]
+});
+
+const hotelIcon = L.divIcon({
+  className: '',
+  html: '<div style="background:#0f172a;width:30px;height:30px;border-radius:8px;border:2px solid white;box-shadow:0 1px 4px rgba(0,0,0,.3);display:flex;align-items:center;justify-content:center;font-size:16px;">🏨</div>',
+  iconSize: [30, 30],
+  iconAnchor: [15, 15]
+});
+
+// Leaflet inserts popup strings as HTML, and hotel names are typed in by the trip's owner
+const textPopup = (text: string) => {
+  const element = document.createElement('span');
+  element.textContent = text;
+  return element;
+};
+
+// The day's activities in visiting order (morning, afternoon, evening), numbered from 1
+export const orderDayStops = (day: DayPlan) =>
+  PERIODS.flatMap(period => (day[period] || []).map(activity => ({ activity, period })))
+    .map((stop, i) => ({ ...stop, number: i + 1 }));
+
+export const DayMap: React.FC<DayMapProps> = ({ day, onSelectActivity }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Keep the latest handler without rebuilding the map on every render
+  const onSelectRef = useRef(onSelectActivity);
+  onSelectRef.current = onSelectActivity;
+
+  const hotel = day.hotel || null;
+  const stops = orderDayStops(day);
+  const placed = stops.filter(stop => hasCoordinates(stop.activity));
+  const unplaced = stops.filter(stop => !hasCoordinates(stop.activity));
+  const hotelPlaced = !!hotel && hasCoordinates(hotel);
+
+  useEffect(() => {
+    if (!containerRef.current || (placed.length === 0 && !hotelPlaced)) return;
+
+    const map = L.map(containerRef.current, { scrollWheelZoom: false });
+    L.tileLayer('https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png', {
+      attribution: '&copy; OpenStreetMap contributors',
+      maxZoom: 19
+    }).addTo(map);
+
+    const points: L.LatLngExpression[] = [];
+    placed.forEach(({ activity, period, number }) => {
+      const position: L.LatLngExpression = [activity.latitude!, activity.longitude!];
+      points.push(position);
+      L.marker(position, { icon: numberedIcon(number, PERIOD_COLORS[period]), title: activity.name })
+        .addTo(map)
+        .on('click', () => onSelectRef.current(activity));
+    });
+
+    if (points.length > 1) {
+      L.polyline(points, { color: '#0284c7', weight: 3, opacity: 0.7, dashArray: '6 6' }).addTo(map);
+    }
+
+    const bounds = [...points];
+    if (hotelPlaced) {
+      const position: L.LatLngExpression = [hotel!.latitude!, hotel!.longitude!];
+      bounds.push(position);
+      L.marker(position, { icon: hotelIcon, title: hotel!.name }).addTo(map).bindPopup(textPopup(hotel!.name));
+    }
+
+    if (bounds.length === 1) {
+      map.setView(bounds[0], 15);
+    } else {
+      map.fitBounds(L.latLngBounds(bounds), { padding: [30, 30] });
+    }
+
+    return () => { map.remove(); };
+  }, [day]);
+
+  return (
+    <div className="space-y-3">
+      {placed.length > 0 || hotelPlaced ? (
+        <div ref={containerRef} className="h-64 w-full rounded-2xl overflow-hidden border border-slate-100 z-0" />
+      ) : (
+        <div className="h-24 w-full rounded-2xl border border-dashed border-slate-200 flex items-center justify-center text-sm text-slate-400">
+          No locations to show on the map for this day
+        </div>
+      )}
+
+      {hotel && !hotelPlaced && (
+        <p className="text-xs text-slate-400 flex items-center gap-1">
+          <Hotel size={12} /> {hotel.name} (not on the map)
+        </p>
+      )}
+
+      {unplaced.length > 0 && (
+        <div className="bg-slate-50 rounded-xl p-3">
+          <p className="text-xs font-bold text-slate-400 uppercase tracking-wider mb-2 flex items-center gap-1">
+            <MapPinOff size={12} /> Unplaced
+          </p>
+          <ul className="space-y-1">
+            {unplaced.map(({ activity, number }) => (
+              <li key={number}>
+                <button onClick={() => onSelectActivity(activity)} className="text-sm text-slate-600 hover:text-sky-600 text-left">
+                  {number}. {activity.name}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React from 'react';
+import { X, RotateCcw, Loader2 } from 'lucide-react';
+import { ItineraryRevision, RevisionChange } from '../types';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  revisions: ItineraryRevision[] | null; // null while loading
+  currentRevision: number;
+  comparison: { revision: number, changes: RevisionChange[] | null } | null; // changes are null while loading
+  isRestoring: boolean;
+  onCompare: (revision: number) => void;
+  onRestore: (revision: number) => void;
+}
+
+const describeChange = (change: RevisionChange) => {
+  const where = change.period ? `Day ${change.dayNumber} ${change.period}` : `Day ${change.dayNumber}`;
+  switch (change.change) {
+    case 'added': return `${where}: ${change.activity} added`;
+    case 'removed': return `${where}: ${change.activity} removed`;
+    case 'updated': return `${where}: ${change.activity} changed`;
+    case 'reordered': return `${where}: activities reordered`;
+    case 'day-added': return `${where} added`;
+    case 'day-removed': return `${where} removed`;
+    case 'day-updated': return `${where}: details changed`;
+  }
+};
+
+export const HistoryModal: React.FC<HistoryModalProps> = ({
+  isOpen,
+  onClose,
+  revisions,
+  currentRevision,
+  comparison,
+  isRestoring,
+  onCompare,
+  onRestore
+}) => {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-fade-in-up">
+
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Edit History</h3>
+            <p className="text-sm text-slate-500">See what changed since an earlier version, or go back to it.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {revisions === null ? (
+            <div className="flex justify-center py-6 text-slate-400"><Loader2 className="animate-spin" /></div>
+          ) : [...revisions].reverse().map(revision => {
+            const isCurrent = revision.number === currentRevision;
+            const isCompared = comparison?.revision === revision.number;
+            return (
+              <div key={revision.number} className="p-3 rounded-xl border border-slate-100 bg-slate-50">
+                <div className="flex items-center gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-slate-700 truncate">{revision.summary || 'Itinerary changed'}</p>
+                    <p className="text-xs text-slate-400">{new Date(revision.createdAt).toLocaleString()}</p>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-xs font-medium text-sky-600 px-2">Current</span>
+                  ) : (
+                    <>
+                      <button onClick={() => onCompare(revision.number)} className="px-2 py-1 text-xs font-medium text-slate-500 hover:bg-slate-100 rounded-lg">
+                        Changes
+                      </button>
+                      <button onClick={() => onRestore(revision.number)} disabled={isRestoring} className="p-2 text-sky-600 hover:bg-sky-50 rounded-lg disabled:opacity-30" title="Restore this version">
+                        <RotateCcw size={16} />
+                      </button>
+                    </>
+                  )}
+                </div>
+                {isCompared && (
+                  <div className="mt-2 pt-2 border-t border-slate-100 text-xs text-slate-500 space-y-1">
+                    {comparison.changes === null ? (
+                      <Loader2 size={14} className="animate-spin" />
+                    ) : comparison.changes.length === 0 ? (
+                      <p>No differences from the current version.</p>
+                    ) : comparison.changes.map((change, i) => <p key={i}>{describeChange(change)}</p>)}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { X, MessageSquarePlus } from 'lucide-react';
+import { Button } from './Button';
+
+interface ProposalModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSubmit: (suggestion: string) => void;
+  activityName: string;
+}
+
+export const ProposalModal: React.FC<ProposalModalProps> = ({
+  isOpen,
+  onClose,
+  onSubmit,
+  activityName
+}) => {
+  const [suggestion, setSuggestion] = useState('');
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-fade-in-up">
+
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Suggest a Replacement</h3>
+            <p className="text-sm text-slate-500">Instead of: <span className="font-medium text-slate-700">{activityName}</span></p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-6">
+            <label className="block text-sm font-medium text-slate-700">Your Suggestion</label>
+            <textarea
+                className="w-full p-3 rounded-xl border border-slate-200 bg-white text-slate-900 focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none resize-none h-24 text-sm"
+                placeholder="e.g. A cooking class would be more fun for the whole group..."
+                value={suggestion}
+                maxLength={300}
+                onChange={(e) => setSuggestion(e.target.value)}
+                autoFocus
+            />
+            <p className="text-xs text-slate-400">The trip owner sees every suggestion when replacing down-voted activities.</p>
+        </div>
+
+        <div className="flex gap-3">
+            <Button variant="secondary" onClick={onClose} fullWidth>
+                Cancel
+            </Button>
+            <Button
+                variant="primary"
+                onClick={() => onSubmit(suggestion.trim())}
+                disabled={!suggestion.trim()}
+                fullWidth
+            >
+                <MessageSquarePlus size={18} className="mr-2" /> Suggest
+            </Button>
+        </div>
+
+      </div>
+    </div>
+  );
+};
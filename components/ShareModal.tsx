@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { X, Link2, Copy, Check, Trash2, Loader2 } from 'lucide-react';
+import { Button } from './Button';
+import { ShareLink } from '../types';
+
+interface ShareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  links: ShareLink[] | null; // null while loading
+  isCreating: boolean;
+  onCreate: (expiresInDays: number | null) => void;
+  onRevoke: (token: string) => void;
+}
+
+const EXPIRY_OPTIONS: { label: string, days: number | null }[] = [
+  { label: 'Never expires', days: null },
+  { label: 'Expires in 1 day', days: 1 },
+  { label: 'Expires in 7 days', days: 7 },
+  { label: 'Expires in 30 days', days: 30 }
+];
+
+export const shareUrl = (token: string) =>
+  `${window.location.origin}${window.location.pathname}?share=${token}`;
+
+export const ShareModal: React.FC<ShareModalProps> = ({
+  isOpen,
+  onClose,
+  links,
+  isCreating,
+  onCreate,
+  onRevoke
+}) => {
+  const [expiryIndex, setExpiryIndex] = useState(0);
+  const [copiedToken, setCopiedToken] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const handleCopy = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      setCopiedToken(token);
+      setTimeout(() => setCopiedToken(current => current === token ? null : current), 2000);
+    } catch (e) {
+      window.prompt("Copy this link:", shareUrl(token));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-slate-900/40 backdrop-blur-sm" onClick={onClose}></div>
+      <div className="relative bg-white w-full max-w-md rounded-2xl shadow-2xl p-6 animate-fade-in-up">
+
+        <div className="flex justify-between items-start mb-4">
+          <div>
+            <h3 className="text-xl font-bold text-slate-900">Share Trip</h3>
+            <p className="text-sm text-slate-500">Anyone with a link can view this trip, but only you can change it.</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex gap-2 mb-6">
+          <select
+            className="flex-1 p-3 rounded-xl border border-slate-200 bg-white text-slate-900 text-sm focus:border-sky-500 focus:ring-2 focus:ring-sky-500/20 outline-none"
+            value={expiryIndex}
+            onChange={(e) => setExpiryIndex(Number(e.target.value))}
+          >
+            {EXPIRY_OPTIONS.map((option, i) => (
+              <option key={option.label} value={i}>{option.label}</option>
+            ))}
+          </select>
+          <Button onClick={() => onCreate(EXPIRY_OPTIONS[expiryIndex].days)} disabled={isCreating}>
+            {isCreating ? <Loader2 size={18} className="animate-spin" /> : <span className="flex items-center gap-2"><Link2 size={18} /> New link</span>}
+          </Button>
+        </div>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {links === null ? (
+            <div className="flex justify-center py-6 text-slate-400"><Loader2 className="animate-spin" /></div>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-slate-400 text-center py-6">No active share links yet.</p>
+          ) : links.map(link => (
+            <div key={link.token} className="flex items-center gap-2 p-3 rounded-xl border border-slate-100 bg-slate-50">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-mono text-slate-700 truncate">{shareUrl(link.token)}</p>
+                <p className="text-xs text-slate-400">
+                  {link.expiresAt ? `Expires ${new Date(link.expiresAt).toLocaleDateString()}` : 'Never expires'}
+                </p>
+              </div>
+              <button onClick={() => handleCopy(link.token)} className="p-2 text-sky-600 hover:bg-sky-50 rounded-lg" title="Copy link">
+                {copiedToken === link.token ? <Check size={18} /> : <Copy size={18} />}
+              </button>
+              <button onClick={() => onRevoke(link.token)} className="p-2 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg" title="Revoke link">
+                <Trash2 size={18} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+      </div>
+    </div>
+  );
+};
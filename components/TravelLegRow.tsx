@@ -0,0 +1,49 @@
+import React from 'react';
+import { Footprints, TrainFront, Car, AlertTriangle } from 'lucide-react';
+import { TravelLeg, TravelMode } from '../types';
+
+interface TravelLegRowProps {
+  leg: TravelLeg;
+}
+
+const MODE_ICONS: Record<TravelMode, React.ElementType> = {
+  walk: Footprints,
+  transit: TrainFront,
+  drive: Car
+};
+
+const MODE_LABELS: Record<TravelMode, string> = {
+  walk: 'walk',
+  transit: 'by transit',
+  drive: 'drive'
+};
+
+const formatMinutes = (minutes: number) =>
+  minutes < 60 ? `${minutes} min` : `${Math.floor(minutes / 60)} h ${minutes % 60 ? `${minutes % 60} min` : ''}`.trim();
+
+const formatKm = (km: number) => km < 1 ? `${Math.round(km * 1000)} m` : `${km.toFixed(1)} km`;
+
+// Sits between two ActivityCards in the day timeline
+export const TravelLegRow: React.FC<TravelLegRowProps> = ({ leg }) => {
+  const Icon = MODE_ICONS[leg.mode];
+  const alternatives = (['walk', 'transit', 'drive'] as TravelMode[])
+    .filter(mode => mode !== leg.mode)
+    .map(mode => `${formatMinutes(mode === 'walk' ? leg.walkMinutes : mode === 'transit' ? leg.transitMinutes : leg.driveMinutes)} ${MODE_LABELS[mode]}`)
+    .join(' · ');
+
+  return (
+    <div
+      className={`flex items-center gap-2 pl-4 text-xs ${leg.tooLong ? 'text-amber-600' : 'text-slate-400'}`}
+      title={alternatives}
+    >
+      <div className={`h-6 border-l-2 border-dashed ${leg.tooLong ? 'border-amber-300' : 'border-slate-200'}`} />
+      <Icon size={14} />
+      <span>{formatMinutes(leg.minutes)} {MODE_LABELS[leg.mode]} · {formatKm(leg.distanceKm)}</span>
+      {leg.tooLong && (
+        <span className="flex items-center gap-1 font-medium">
+          <AlertTriangle size={12} /> Long hop for your pace
+        </span>
+      )}
+    </div>
+  );
+};
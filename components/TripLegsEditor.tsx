@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Calendar, Plus, Trash2 } from 'lucide-react';
+import { Input } from './Input';
+import { DateRangePicker } from './DateRangePicker';
+import { TripLeg } from '../types';
+
+interface TripLegsEditorProps {
+  legs: TripLeg[];
+  onChange: (legs: TripLeg[]) => void;
+  maxLegs: number;
+}
+
+const formatDate = (isoDate: string) => {
+  if (!isoDate) return '';
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+export const newTripLeg = (fields: Partial<TripLeg> = {}): TripLeg => ({
+  id: Math.random().toString(36).substr(2, 9),
+  destination: '',
+  startDate: '',
+  endDate: '',
+  hotelLocation: '',
+  ...fields
+});
+
+// One card per city: where, when, and (optionally) which hotel
+export const TripLegsEditor: React.FC<TripLegsEditorProps> = ({ legs, onChange, maxLegs }) => {
+  const [pickerOpenFor, setPickerOpenFor] = useState<string | null>(null);
+
+  const update = (id: string, fields: Partial<TripLeg>) =>
+    onChange(legs.map(leg => (leg.id === id ? { ...leg, ...fields } : leg)));
+
+  return (
+    <div className="space-y-4">
+      {legs.map((leg, index) => (
+        <div key={leg.id} className="relative p-4 rounded-2xl border border-slate-100 bg-slate-50/50 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-sky-600 uppercase tracking-wider">City {index + 1}</span>
+            {legs.length > 2 && (
+              <button onClick={() => onChange(legs.filter(l => l.id !== leg.id))} className="text-red-400 hover:text-red-600 p-1" title="Remove this city">
+                <Trash2 size={16} />
+              </button>
+            )}
+          </div>
+
+          <Input
+            placeholder="e.g. Kyoto, Japan"
+            value={leg.destination}
+            onChange={(e) => update(leg.id, { destination: e.target.value })}
+          />
+
+          <div className="relative">
+            <div
+              onClick={() => setPickerOpenFor(pickerOpenFor === leg.id ? null : leg.id)}
+              className="w-full px-4 py-3.5 rounded-xl border border-slate-200 bg-white text-slate-900 flex items-center justify-between cursor-pointer hover:border-sky-500 transition-colors"
+            >
+              <span className={!leg.startDate ? 'text-slate-400' : 'text-slate-900 font-medium'}>
+                {leg.startDate ? `${formatDate(leg.startDate)}${leg.endDate ? ` — ${formatDate(leg.endDate)}` : ' — Select End Date'}` : 'Select Dates'}
+              </span>
+              <Calendar size={20} className="text-slate-400" />
+            </div>
+
+            {pickerOpenFor === leg.id && (
+              <>
+                <div className="fixed inset-0 z-10" onClick={() => setPickerOpenFor(null)}></div>
+                <div className="absolute top-0 left-1/2 -translate-x-1/2 z-20">
+                  <DateRangePicker
+                    startDate={leg.startDate}
+                    endDate={leg.endDate}
+                    onChange={(start, end) => update(leg.id, { startDate: start, endDate: end })}
+                    onClose={() => setPickerOpenFor(null)}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <Input
+            placeholder="Hotel (optional)"
+            value={leg.hotelLocation}
+            onChange={(e) => update(leg.id, { hotelLocation: e.target.value })}
+          />
+        </div>
+      ))}
+
+      {legs.length < maxLegs && (
+        <button
+          onClick={() => onChange([...legs, newTripLeg()])}
+          className="w-full py-3 rounded-xl border-2 border-dashed border-slate-200 text-slate-500 hover:border-sky-300 hover:text-sky-600 transition-colors flex items-center justify-center gap-2 text-sm font-medium"
+        >
+          <Plus size={16} /> Add another city
+        </button>
+      )}
+    </div>
+  );
+};
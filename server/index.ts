@@ -6,7 +6,27 @@ import dotenv from 'dotenv';
 import Stripe from 'stripe';
 import nodemailer from 'nodemailer';
 import { Itinerary } from './models/Itinerary';
+import { Payment } from './models/Payment';
+import { PromoCode } from './models/PromoCode';
+import { QuestionDeck } from './models/QuestionDeck';
 import * as aiService from './services/aiService';
+import { applyActivityEdit, describeActivityEdit, parseActivityEdit } from './services/itineraryEditor';
+import { applyPreviewPolicy, choosePreviewPolicy, describePreviewPolicy, isPreviewEditable, parsePreviewPolicy, policyFor, previewDay } from './services/previewPolicy';
+import { OWNER_TOKEN_HEADER, endSession, findCollaborator, getRequestUser, hashToken, isItineraryOwner, issueLoginToken, issueOwnerToken, redeemLoginToken, requireUser } from './services/auth';
+import { OWNER_VOTER, addProposal, castVote, hasActivity, inviteCollaborator, listCollaborators, moveActivityFeedback, normalizeEmail, removeCollaborator, tallyFeedback } from './services/groupVoting';
+import { buildItineraryCalendar } from './services/calendarExport';
+import { GEO_CONTENT_TYPES, GeoFormat, renderGeoExport } from './services/geoExport';
+import { DECK_TTL_MS, mergeDeckResponses } from './services/groupPreferences';
+import { renderItineraryPdf } from './services/pdfExport';
+import { optimizeRoute } from './services/routeOptimizer';
+import { withTravelLegs } from './services/travelLegs';
+import { checkLegDestinations, generateTripPlan, parseTripLegs } from './services/multiCity';
+import { getItineraryPrice } from './services/pricing';
+import { quotePromoCode, redeemPromoCode } from './services/promoCodes';
+import { addShareLink, findSharedItinerary, listShareLinks, parseExpiresInDays, revokeShareLink } from './services/shareLinks';
+import { EDIT_REASONS, diffPlans, ensureRevisionBaseline, findRevisionPair, getHistoryState, listRevisions, recordRevision, restoreRevision, stepRevision, visibleSummary } from './services/revisionLog';
+import { ActivityPeriod, GenerationEvent } from '../types';
+import { FieldError, MAX_DECK_RESPONSES, ValidationResult, describeFieldErrors, validateActivity, validateAlternativeRequest, validateCheckoutRequest, validateDayImageRequest, validateDeckMergeRequest, validateDeckResponseRequest, validateDestinationRequest, validateLoginLinkRequest, validatePreferencesRequest, validatePromoCodeRequest, validatePromoRequest, validateProposalRequest, validateQuestionDeckRequest, validateSaveEmailRequest, validateSaveImageRequest, validateVerifyPaymentRequest, validateVoteRequest } from '../validation';
 
 dotenv.config();
 
@@ -35,6 +55,9 @@ const transporter = nodemailer.createTransport({
 
 const SENDER_EMAIL = process.env.EMAIL_USER || 'onboarding@resend.dev'; // Use your verified Resend domain here
 
+// Used for links in emails sent outside a browser request (e.g. from the Stripe webhook)
+const APP_URL = process.env.APP_URL || 'http://localhost:3000';
+
 // Middleware
 app.use((req, res, next) => {
   if (req.originalUrl === '/api/webhook') {
@@ -52,14 +75,75 @@ mongoose.connect(process.env.MONGO_URI || 'mongodb://localhost:27017/tripdaddy')
   .catch((err) => console.error('MongoDB connection error:', err));
 
 // --- HELPER ---
-const maskPlan = (plan: any) => {
-    if (!plan || !Array.isArray(plan.days)) return plan;
+// Masks the plan with the itinerary's preview policy unless it has been paid for
+const visiblePlan = (itinerary: any) => {
+    if (itinerary.unlocked) return { plan: itinerary.plan, preview: null };
+    return applyPreviewPolicy(itinerary.plan, policyFor(itinerary));
+};
+
+// Whether this day/period can be edited: always once unlocked, otherwise only inside the preview
+const canEditPeriod = (itinerary: any, dayNumber: number, period: ActivityPeriod) =>
+    itinerary.unlocked || isPreviewEditable(itinerary.plan, policyFor(itinerary), dayNumber, period);
+
+// Shape returned to the client for any itinerary read or write.
+// `canEdit` tells the client whether to offer editing; the write routes enforce it regardless.
+// `canVote` is true for the owner and invited collaborators.
+const toClientPayload = (itinerary: any, canEdit: boolean, canVote = canEdit) => {
+    const { plan, preview } = visiblePlan(itinerary);
+
     return {
-        ...plan,
-        days: plan.days.slice(0, 2)
+        id: itinerary.id,
+        unlocked: itinerary.unlocked,
+        canEdit,
+        canVote,
+        plan,
+        preview,
+        totalDays: itinerary.plan?.days?.length || 0,
+        images: itinerary.images || {},
+        ...getHistoryState(itinerary)
     };
 };
 
+// Write routes: loads the itinerary named by :id (or body.itineraryId) into res.locals.itinerary,
+// rejecting anyone but its owner. Read routes stay open so shared links keep working.
+const requireOwner: express.RequestHandler = async (req, res, next) => {
+    try {
+        const itinerary = await Itinerary.findOne({ id: req.params.id || req.body?.itineraryId });
+        if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
+
+        if (!(await isItineraryOwner(itinerary, req))) {
+            return res.status(403).json({ error: 'Only the owner of this trip can change it' });
+        }
+        res.locals.itinerary = itinerary;
+        next();
+    } catch (e) {
+        console.error("Ownership Check Error:", e);
+        res.status(500).json({ error: 'Failed to check ownership' });
+    }
+};
+
+// Group feedback and revision routes: like requireOwner, but invited collaborators get in too.
+// Sets res.locals.voter to the collaborator's email, or 'owner'.
+const requireMember: express.RequestHandler = async (req, res, next) => {
+    try {
+        const itinerary = await Itinerary.findOne({ id: req.params.id });
+        if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
+
+        if (await isItineraryOwner(itinerary, req)) {
+            res.locals.voter = OWNER_VOTER;
+        } else {
+            const collaborator = await findCollaborator(itinerary, req);
+            if (!collaborator) return res.status(403).json({ error: 'Only the owner and invited collaborators have access to this trip' });
+            res.locals.voter = collaborator.email;
+        }
+        res.locals.itinerary = itinerary;
+        next();
+    } catch (e) {
+        console.error("Membership Check Error:", e);
+        res.status(500).json({ error: 'Failed to check access' });
+    }
+};
+
 const sendEmail = async (to: string, subject: string, html: string) => {
     try {
         await transporter.sendMail({
@@ -76,67 +160,148 @@ const sendEmail = async (to: string, subject: string, html: string) => {
 
 // --- AI ROUTES ---
 
+// Rejects a request body that failed validation, naming every invalid field
+const rejectInvalid = (res: express.Response, errors: FieldError[]) =>
+    res.status(400).json({ error: `Invalid request: ${describeFieldErrors(errors)}`, fields: errors });
+
+// Same check as middleware, for routes where requireOwner must only see a validated itineraryId.
+// The checked body is left on res.locals.body.
+const validBody = <T>(validate: (body: any) => ValidationResult<T>): express.RequestHandler => (req, res, next) => {
+    const { value, errors } = validate(req.body);
+    if (errors) return rejectInvalid(res, errors);
+    res.locals.body = value;
+    next();
+};
+
 app.post('/api/validate-destination', async (req, res) => {
+    const { value, errors } = validateDestinationRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
     try {
-        const result = await aiService.validateDestination(req.body.destination);
+        const result = await aiService.validateDestination(value!.destination);
         res.json(result);
     } catch (e) { res.status(500).json({ error: 'Validation failed' }); }
 });
 
 app.post('/api/check-events', async (req, res) => {
+    const { value, errors } = validatePreferencesRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
     try {
-        const result = await aiService.checkEventsAndGetQuestions(req.body.prefs);
+        const result = await aiService.checkEventsAndGetQuestions(value!.prefs);
         res.json(result);
     } catch (e) { res.status(500).json({ error: 'Check events failed' }); }
 });
 
+// Stores a freshly generated trip and returns what the client gets back, including the
+// raw owner token: it is only ever returned here, and the client keeps it to edit later
+const saveGeneratedTrip = async (req: express.Request, prefs: any, generated: { plan: any; hotels: any[] }, id: string = crypto.randomUUID()) => {
+    const user = await getRequestUser(req);
+    const ownerToken = issueOwnerToken();
+    const newItinerary = new Itinerary({
+        id,
+        ownerTokenHash: ownerToken.hash,
+        userId: user?._id || null,
+        email: user?.email || null,
+        unlocked: false,
+        previewPolicy: choosePreviewPolicy(id),
+        prefs,
+        hotels: generated.hotels,
+        plan: withTravelLegs(generated.plan, prefs.pace),
+        images: {}
+    });
+    await recordRevision(newItinerary, 'generation', 'Itinerary generated');
+    await newItinerary.save();
+    return { ...toClientPayload(newItinerary, true), ownerToken: ownerToken.token };
+};
+
 app.post('/api/generate-trip', async (req, res) => {
+    const { value, errors } = validatePreferencesRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
     try {
-        const fullPlan = await aiService.generateItinerary(req.body.prefs);
-        if (!fullPlan) return res.status(500).json({ error: 'Generation failed' });
-
-        const id = crypto.randomUUID();
-        const newItinerary = new Itinerary({
-            id,
-            unlocked: false,
-            plan: fullPlan,
-            images: {}
-        });
-        await newItinerary.save();
-
-        res.json({ 
-            id, 
-            plan: maskPlan(fullPlan),
-            unlocked: false,
-            totalDays: fullPlan.days.length,
-            images: {}
-        });
+        const { prefs } = value!;
+        const { legs, error } = parseTripLegs(prefs);
+        const legError = error || (legs && await checkLegDestinations(legs));
+        if (legError) return res.status(400).json({ error: legError });
+
+        const generated = await generateTripPlan(prefs, legs || null);
+        if (!generated) return res.status(500).json({ error: 'Generation failed' });
+        res.json(await saveGeneratedTrip(req, prefs, generated));
     } catch (e) { 
         console.error(e);
         res.status(500).json({ error: 'Generation failed' }); 
     }
 });
 
+// Same as /generate-trip, but streams progress as server-sent events (see GenerationEvent in
+// types.ts) and ends with a "done" event carrying the itinerary, or an "error" event.
+// Invalid requests are still rejected with a plain 400 before the stream starts.
+app.post('/api/generate-trip/stream', async (req, res) => {
+    const { value, errors } = validatePreferencesRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
+    const { prefs } = value!;
+    const { legs, error } = parseTripLegs(prefs);
+    const legError = error || (legs && await checkLegDestinations(legs));
+    if (legError) return res.status(400).json({ error: legError });
+
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache');
+    res.setHeader('Connection', 'keep-alive');
+    res.flushHeaders();
+
+    // The id is picked up front so drafted days can be masked with the preview policy the
+    // saved trip will get; otherwise the stream would give away the paywalled days
+    const id = crypto.randomUUID();
+    const policy = parsePreviewPolicy(choosePreviewPolicy(id));
+
+    // Generation carries on if the client goes away, so the trip is still saved
+    const send = (event: GenerationEvent) => {
+        if (res.writableEnded) return;
+        if (event.phase === 'day') {
+            const { day, ...rest } = event;
+            const visible = day && previewDay(day, event.dayIndex, policy);
+            event = visible ? { ...rest, day: visible } : rest;
+        }
+        res.write(`data: ${JSON.stringify(event)}\n\n`);
+    };
+
+    try {
+        const generated = await generateTripPlan(prefs, legs || null, send);
+        if (!generated) {
+            send({ phase: 'error', error: 'Generation failed' });
+        } else {
+            send({ phase: 'saving' });
+            send({ phase: 'done', itinerary: await saveGeneratedTrip(req, prefs, generated, id) });
+        }
+    } catch (e) {
+        console.error("Streamed Generation Error:", e);
+        send({ phase: 'error', error: 'Generation failed' });
+    }
+    res.end();
+});
+
 app.post('/api/alternative-activity', async (req, res) => {
+    const { value, errors } = validateAlternativeRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
     try {
-        const { prefs, currentActivity, context, existingNames, customRequest } = req.body;
+        const { prefs, currentActivity, context, existingNames, customRequest } = value!;
         const result = await aiService.getAlternativeActivity(prefs, currentActivity, context, existingNames, customRequest);
         res.json(result);
     } catch (e) { res.status(500).json({ error: 'Alternative failed' }); }
 });
 
 app.post('/api/generate-image', async (req, res) => {
+    const { value, errors } = validateDayImageRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
     try {
-        const { dayTitle, area, destination, vibe } = req.body;
+        const { dayTitle, area, destination, vibe } = value!;
         const image = await aiService.generateDayCardImage(dayTitle, area, destination, vibe);
         res.json({ image });
     } catch (e) { res.status(500).json({ error: 'Image gen failed' }); }
 });
 
 // --- IMAGE SAVING ROUTE ---
-app.post('/api/save-image', async (req, res) => {
+app.post('/api/save-image', validBody(validateSaveImageRequest), requireOwner, async (req, res) => {
     try {
-        const { itineraryId, dayNumber, image } = req.body;
+        const { itineraryId, dayNumber, image } = res.locals.body;
         
         await Itinerary.findOneAndUpdate(
             { id: itineraryId },
@@ -153,9 +318,9 @@ app.post('/api/save-image', async (req, res) => {
 // --- EMAIL & STRIPE ROUTES ---
 
 // 1. Save Email & Send First "Preview" Email
-app.post('/api/save-email', async (req, res) => {
+app.post('/api/save-email', validBody(validateSaveEmailRequest), requireOwner, async (req, res) => {
     try {
-        const { email, itineraryId } = req.body;
+        const { email, itineraryId } = res.locals.body;
         
         const itinerary = await Itinerary.findOneAndUpdate(
             { id: itineraryId },
@@ -175,7 +340,7 @@ app.post('/api/save-email', async (req, res) => {
             `
             <div style="font-family: sans-serif; color: #334155;">
                 <h2>Your itinerary for ${destination} is ready.</h2>
-                <p>We've crafted a custom plan based on your preferences. You can view the first 2 days for free right now.</p>
+                <p>We've crafted a custom plan based on your preferences. You can view ${describePreviewPolicy(policyFor(itinerary))} for free right now.</p>
                 <a href="${shareUrl}" style="background-color: #0284c7; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">
                     View Itinerary
                 </a>
@@ -190,33 +355,195 @@ app.post('/api/save-email', async (req, res) => {
     }
 });
 
-app.post('/api/create-checkout-session', async (req, res) => {
+const sendUnlockedEmail = async (email: string, itineraryId: string, destination: string, sessionId: string, origin: string) => {
+    const shareUrl = `${origin}/?id=${itineraryId}`;
+
+    // SEND EMAIL 2: UNLOCKED
+    await sendEmail(
+        email,
+        `🔓 Full Itinerary Unlocked: ${destination}`,
+        `
+        <div style="font-family: sans-serif; color: #334155;">
+            <h1 style="color: #16a34a;">Payment Confirmed!</h1>
+            <h2>Your full itinerary for ${destination} is now available.</h2>
+            <p>You now have access to all days, hidden gems, and logistics details.</p>
+            <a href="${shareUrl}" style="background-color: #16a34a; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">
+                View Full Plan
+            </a>
+            <p style="margin-top:20px; font-size: 12px; color: #94a3b8;">Transaction ID: ${sessionId}</p>
+        </div>
+        `
+    );
+};
+
+// Unlocks an itinerary and sends the unlocked email. The email is claimed atomically,
+// so it goes out once even if the webhook and /api/verify-payment both get here.
+const unlockItinerary = async (itineraryId: string, transactionId: string, origin: string) => {
+    await Itinerary.updateOne({ id: itineraryId }, { $set: { unlocked: true } });
+
+    const claimed = await Itinerary.findOneAndUpdate(
+        { id: itineraryId, email: { $ne: null }, unlockEmailSentAt: null },
+        { $set: { unlockEmailSentAt: new Date() } },
+        { new: true }
+    );
+    if (claimed && claimed.email) {
+        await sendUnlockedEmail(claimed.email, itineraryId, claimed.plan.destination, transactionId, origin);
+    }
+};
+
+// Unlocks the itinerary referenced by a paid Checkout Session and records the payment.
+// Called by both the webhook and /api/verify-payment, so every step is idempotent:
+// a refunded session never re-unlocks, and a promo code is redeemed only when the payment is first recorded.
+const fulfillCheckoutSession = async (session: Stripe.Checkout.Session, origin: string) => {
+    const itineraryId = session.client_reference_id;
+    if (!itineraryId || session.payment_status !== 'paid') return false;
+
+    const itinerary = await Itinerary.findOne({ id: itineraryId });
+    if (!itinerary) return false;
+
+    const existing = await Payment.findOne({ sessionId: session.id });
+    if (existing?.refunded) return false;
+
+    const paymentIntentId = typeof session.payment_intent === 'string'
+        ? session.payment_intent
+        : session.payment_intent?.id || null;
+    const email = session.customer_details?.email || itinerary.email || null;
+    const promoCode = session.metadata?.promoCode || null;
+
+    // The webhook and /verify-payment can run this at the same moment; the upsert that loses
+    // the race trips the unique sessionId index, which only means the payment is already recorded
+    let recorded = false;
     try {
-        const { itineraryId } = req.body;
-        
+        const result = await Payment.updateOne(
+            { sessionId: session.id },
+            {
+                $setOnInsert: {
+                    itineraryId,
+                    sessionId: session.id,
+                    paymentIntentId,
+                    amount: session.amount_total || 0,
+                    currency: session.currency || 'usd',
+                    email,
+                    promoCode,
+                    status: 'paid'
+                }
+            },
+            { upsert: true }
+        );
+        recorded = result.upsertedCount > 0;
+    } catch (e: any) {
+        if (e?.code !== 11000) throw e;
+    }
+    // The customer has paid by now, so a code that ran out since checkout still unlocks
+    if (recorded && promoCode && !(await redeemPromoCode(promoCode, itineraryId, session.metadata?.promoEmail || null))) {
+        console.warn(`Promo code ${promoCode} was over its limits when session ${session.id} was paid`);
+    }
+
+    await unlockItinerary(itineraryId, session.id, origin);
+    return true;
+};
+
+// Marks the payment refunded and re-locks its itinerary when a charge is fully refunded
+const handleChargeRefunded = async (charge: Stripe.Charge) => {
+    if (!charge.refunded) return; // Partial refunds keep the itinerary unlocked
+
+    const paymentIntentId = typeof charge.payment_intent === 'string'
+        ? charge.payment_intent
+        : charge.payment_intent?.id;
+    if (!paymentIntentId) return;
+
+    const payment = await Payment.findOneAndUpdate(
+        { paymentIntentId },
+        { $set: { status: 'refunded', refunded: true, refundedAt: new Date() } },
+        { new: true }
+    );
+    if (!payment) return;
+
+    await Itinerary.updateOne({ id: payment.itineraryId }, { $set: { unlocked: false } });
+};
+
+app.post('/api/promo/validate', async (req, res) => {
+    const { value, errors } = validatePromoRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
+    try {
+        const { code, itineraryId } = value!;
+
         const itinerary = await Itinerary.findOne({ id: itineraryId });
         if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
 
+        const user = await getRequestUser(req);
+        const { quote, error } = await quotePromoCode(code, itinerary, user?.email);
+        if (error) return res.status(400).json({ valid: false, error });
+
+        res.json({ valid: true, ...quote });
+    } catch (e) {
+        console.error("Promo Validation Error:", e);
+        res.status(500).json({ error: 'Failed to validate code' });
+    }
+});
+
+app.post('/api/create-checkout-session', validBody(validateCheckoutRequest), requireOwner, async (req, res) => {
+    try {
+        const { itineraryId, promoCode } = res.locals.body;
+        const itinerary = res.locals.itinerary;
+        if (itinerary.unlocked) return res.json({ unlocked: true });
+
+        // Per-email promo limits go by the signed-in account, see promoCodes.ts
+        const promoEmail = (await getRequestUser(req))?.email || null;
+        let price = getItineraryPrice(itinerary);
+        let appliedCode: string | null = null;
+        if (promoCode) {
+            const { quote, error } = await quotePromoCode(promoCode, itinerary, promoEmail);
+            if (error) return res.status(400).json({ error });
+            price = quote!.price;
+            appliedCode = quote!.code;
+        }
+
+        const origin = req.headers.origin || 'http://localhost:3000';
+
+        // Free (fully discounted, or a free tier): unlock straight away, Stripe cannot charge zero.
+        // With a code, only once the redemption is recorded, in case the code ran out since it was quoted.
+        if (price.amount === 0) {
+            if (appliedCode && !(await redeemPromoCode(appliedCode, itineraryId, promoEmail))) {
+                return res.status(400).json({ error: 'This code has been fully redeemed' });
+            }
+            const reference = `promo_${crypto.randomUUID()}`;
+            await Payment.create({
+                itineraryId,
+                sessionId: reference,
+                amount: 0,
+                currency: price.currency,
+                email: itinerary.email || null,
+                promoCode: appliedCode,
+                status: 'paid'
+            });
+            await unlockItinerary(itineraryId, reference, origin);
+            return res.json({ unlocked: true });
+        }
+
         const session = await stripe.checkout.sessions.create({
             payment_method_types: ['card'],
             line_items: [
                 {
                     price_data: {
-                        currency: 'usd',
+                        currency: price.currency,
                         product_data: {
                             name: `Full Itinerary: ${itinerary.plan.destination}`,
-                            description: 'Unlock the complete day-by-day travel plan including hidden gems and logistics.',
+                            description: appliedCode
+                                ? `Unlock the complete day-by-day travel plan including hidden gems and logistics. Code ${appliedCode} applied.`
+                                : 'Unlock the complete day-by-day travel plan including hidden gems and logistics.',
                         },
-                        unit_amount: 500,
+                        unit_amount: price.amount,
                     },
                     quantity: 1,
                 },
             ],
             mode: 'payment',
-            success_url: `${req.headers.origin || 'http://localhost:3000'}/?id=${itineraryId}&success=true&session_id={CHECKOUT_SESSION_ID}`,
-            cancel_url: `${req.headers.origin || 'http://localhost:3000'}/?id=${itineraryId}&canceled=true`,
+            success_url: `${origin}/?id=${itineraryId}&success=true&session_id={CHECKOUT_SESSION_ID}`,
+            cancel_url: `${origin}/?id=${itineraryId}&canceled=true`,
             client_reference_id: itineraryId,
             customer_email: itinerary.email || undefined, // Pre-fill email in Stripe if we have it
+            metadata: appliedCode ? { promoCode: appliedCode, ...(promoEmail ? { promoEmail } : {}) } : undefined,
         });
 
         res.json({ url: session.url });
@@ -228,42 +555,15 @@ app.post('/api/create-checkout-session', async (req, res) => {
 
 // 2. Verify Payment & Send Second "Unlocked" Email
 app.post('/api/verify-payment', async (req, res) => {
+    const { value, errors } = validateVerifyPaymentRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
     try {
-        const { sessionId, itineraryId } = req.body;
+        const { sessionId, itineraryId } = value!;
         
         const session = await stripe.checkout.sessions.retrieve(sessionId);
         
         if (session.payment_status === 'paid' && session.client_reference_id === itineraryId) {
-            
-            // Unlock Database
-            const itinerary = await Itinerary.findOneAndUpdate(
-                { id: itineraryId },
-                { unlocked: true },
-                { new: true }
-            );
-
-            if (itinerary && itinerary.email) {
-                const shareUrl = `${req.headers.origin || 'http://localhost:3000'}/?id=${itineraryId}`;
-                const destination = itinerary.plan.destination;
-
-                // SEND EMAIL 2: UNLOCKED
-                await sendEmail(
-                    itinerary.email,
-                    `🔓 Full Itinerary Unlocked: ${destination}`,
-                    `
-                    <div style="font-family: sans-serif; color: #334155;">
-                        <h1 style="color: #16a34a;">Payment Confirmed!</h1>
-                        <h2>Your full itinerary for ${destination} is now available.</h2>
-                        <p>You now have access to all days, hidden gems, and logistics details.</p>
-                        <a href="${shareUrl}" style="background-color: #16a34a; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">
-                            View Full Plan
-                        </a>
-                        <p style="margin-top:20px; font-size: 12px; color: #94a3b8;">Transaction ID: ${sessionId}</p>
-                    </div>
-                    `
-                );
-            }
-
+            await fulfillCheckoutSession(session, req.headers.origin || APP_URL);
             res.json({ success: true });
         } else {
             res.status(400).json({ error: 'Payment invalid or not completed' });
@@ -274,6 +574,188 @@ app.post('/api/verify-payment', async (req, res) => {
     }
 });
 
+// 3. Stripe Webhook - unlocks even if the browser never returns to success_url.
+// Receives the raw body (see middleware above) so the signature can be verified.
+app.post('/api/webhook', express.raw({ type: 'application/json' }), async (req, res) => {
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
+    if (!webhookSecret) {
+        console.error("Webhook Error: STRIPE_WEBHOOK_SECRET is not set");
+        return res.status(500).json({ error: 'Webhook not configured' });
+    }
+
+    let event: Stripe.Event;
+    try {
+        event = stripe.webhooks.constructEvent(req.body, req.headers['stripe-signature'] as string, webhookSecret);
+    } catch (e: any) {
+        console.error("Webhook Signature Error:", e.message);
+        return res.status(400).json({ error: `Webhook Error: ${e.message}` });
+    }
+
+    try {
+        switch (event.type) {
+            case 'checkout.session.completed':
+                await fulfillCheckoutSession(event.data.object, APP_URL);
+                break;
+            case 'charge.refunded':
+                await handleChargeRefunded(event.data.object);
+                break;
+        }
+        res.json({ received: true });
+    } catch (e) {
+        // A 500 makes Stripe retry the delivery later
+        console.error("Webhook Handler Error:", e);
+        res.status(500).json({ error: 'Webhook handling failed' });
+    }
+});
+
+// --- AUTH ROUTES ---
+
+// Emails a one-time sign-in link. Always answers success so it can't be used to probe for accounts.
+app.post('/api/auth/request-link', async (req, res) => {
+    const { value, errors } = validateLoginLinkRequest(req.body);
+    if (errors) return rejectInvalid(res, errors);
+    try {
+        const { email } = value!;
+        const token = await issueLoginToken(email);
+        const loginUrl = `${req.headers.origin || APP_URL}/?login=${token}`;
+
+        await sendEmail(
+            email,
+            '🔑 Your Trip Daddy sign-in link',
+            `
+            <div style="font-family: sans-serif; color: #334155;">
+                <h2>Sign in to Trip Daddy AI</h2>
+                <p>Click the button below to see all your trips. This link expires in 15 minutes and can only be used once.</p>
+                <a href="${loginUrl}" style="background-color: #0284c7; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">
+                    Sign In
+                </a>
+                <p style="margin-top:20px; font-size: 12px; color: #94a3b8;">If you didn't ask for this, you can ignore this email.</p>
+            </div>
+            `
+        );
+
+        res.json({ success: true });
+    } catch (e) {
+        console.error("Login Link Error:", e);
+        res.status(500).json({ error: 'Failed to send sign-in link' });
+    }
+});
+
+app.post('/api/auth/verify', async (req, res) => {
+    try {
+        const result = typeof req.body.token === 'string' ? await redeemLoginToken(req.body.token) : null;
+        if (!result) return res.status(401).json({ error: 'This sign-in link is invalid or has expired' });
+
+        res.json({ token: result.sessionToken, user: { email: result.user.email } });
+    } catch (e) {
+        console.error("Login Verify Error:", e);
+        res.status(500).json({ error: 'Sign-in failed' });
+    }
+});
+
+app.get('/api/auth/me', requireUser, (req, res) => {
+    res.json({ user: { email: res.locals.user.email } });
+});
+
+app.post('/api/auth/logout', async (req, res) => {
+    try {
+        await endSession(req);
+        res.json({ success: true });
+    } catch (e) {
+        res.status(500).json({ error: 'Sign-out failed' });
+    }
+});
+
+// Every itinerary the user generated, saved their email on, or paid for
+app.get('/api/me/trips', requireUser, async (req, res) => {
+    try {
+        const user = res.locals.user;
+        const purchasedIds: string[] = await Payment.distinct('itineraryId', { email: user.email, refunded: false });
+
+        const itineraries = await Itinerary.find(
+            { $or: [{ userId: user._id }, { email: user.email }, { id: { $in: purchasedIds } }] },
+            { id: 1, unlocked: 1, createdAt: 1, 'plan.destination': 1, 'plan.days.date': 1 }
+        )
+            .collation({ locale: 'en', strength: 2 }) // case-insensitive email match
+            .sort({ createdAt: -1 })
+            .lean();
+
+        res.json({
+            trips: itineraries.map((it: any) => {
+                const days: any[] = it.plan?.days || [];
+                return {
+                    id: it.id,
+                    destination: it.plan?.destination || 'Trip',
+                    startDate: days[0]?.date || null,
+                    endDate: days[days.length - 1]?.date || null,
+                    totalDays: days.length,
+                    unlocked: it.unlocked,
+                    purchased: purchasedIds.includes(it.id),
+                    createdAt: it.createdAt
+                };
+            })
+        });
+    } catch (e) {
+        console.error("My Trips Error:", e);
+        res.status(500).json({ error: 'Failed to fetch trips' });
+    }
+});
+
+// --- ADMIN ROUTES ---
+
+// Admin routes require the ADMIN_API_KEY in the `x-admin-key` header
+const requireAdmin: express.RequestHandler = (req, res, next) => {
+    const adminKey = process.env.ADMIN_API_KEY;
+    if (!adminKey || req.headers['x-admin-key'] !== adminKey) {
+        return res.status(401).json({ error: 'Unauthorized' });
+    }
+    next();
+};
+
+// Query payments: /api/admin/payments?from=2024-01-01&to=2024-02-01&email=...&itineraryId=...
+app.get('/api/admin/payments', requireAdmin, async (req, res) => {
+    try {
+        const { from, to, email, itineraryId } = req.query as Record<string, string | undefined>;
+        const filter: Record<string, any> = {};
+
+        if (from || to) {
+            filter.createdAt = {};
+            if (from) filter.createdAt.$gte = new Date(from);
+            if (to) filter.createdAt.$lt = new Date(to);
+            if (Object.values(filter.createdAt).some((d: any) => isNaN(d.getTime()))) {
+                return res.status(400).json({ error: 'Invalid date range' });
+            }
+        }
+        if (email) filter.email = email.toLowerCase();
+        if (itineraryId) filter.itineraryId = itineraryId;
+
+        const payments = await Payment.find(filter).sort({ createdAt: -1 }).limit(500).lean();
+
+        const totals: Record<string, number> = {};
+        payments.filter(p => !p.refunded).forEach(p => {
+            totals[p.currency] = (totals[p.currency] || 0) + p.amount;
+        });
+
+        res.json({ count: payments.length, totals, payments });
+    } catch (e) {
+        console.error("Admin Payments Error:", e);
+        res.status(500).json({ error: 'Failed to fetch payments' });
+    }
+});
+
+// Create a promo code: { code, discountType: 'percentage' | 'fixed', value, currency?, expiresAt?, maxRedemptions?, perEmailLimit?, destinations? }
+app.post('/api/admin/promo-codes', requireAdmin, validBody(validatePromoCodeRequest), async (req, res) => {
+    try {
+        const { code, discountType, value, currency, expiresAt, maxRedemptions, perEmailLimit, destinations } = res.locals.body;
+        const promo = await PromoCode.create({ code, discountType, value, currency, expiresAt, maxRedemptions, perEmailLimit, destinations });
+        res.json(promo);
+    } catch (e: any) {
+        if (e?.code === 11000) return res.status(409).json({ error: 'Code already exists' });
+        console.error("Create Promo Error:", e);
+        res.status(500).json({ error: 'Failed to create promo code' });
+    }
+});
+
 // --- DB ROUTES ---
 
 app.get('/api/itinerary/:id', async (req, res) => {
@@ -285,21 +767,466 @@ app.get('/api/itinerary/:id', async (req, res) => {
       return res.status(404).json({ error: 'Itinerary not found' });
     }
 
-    let returnedPlan = itinerary.plan;
-    if (!itinerary.unlocked && returnedPlan && Array.isArray(returnedPlan.days)) {
-        returnedPlan = maskPlan(returnedPlan);
+    if (await isItineraryOwner(itinerary, req)) return res.json(toClientPayload(itinerary, true));
+    res.json(toClientPayload(itinerary, false, !!(await findCollaborator(itinerary, req))));
+
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch itinerary' });
+  }
+});
+
+app.get('/api/itinerary/:id/price', async (req, res) => {
+  try {
+    const itinerary = await Itinerary.findOne({ id: req.params.id });
+    if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
+
+    res.json(getItineraryPrice(itinerary));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch price' });
+  }
+});
+
+// Calendar feed of the activities the caller can see; locked days are left out
+app.get('/api/itinerary/:id/calendar.ics', async (req, res) => {
+  try {
+    const itinerary = await Itinerary.findOne({ id: req.params.id });
+    if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
+
+    const ics = buildItineraryCalendar(visiblePlan(itinerary).plan, itinerary.id);
+    res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="trip-${itinerary.id}.ics"`);
+    res.send(ics);
+  } catch (error) {
+    console.error("Calendar Export Error:", error);
+    res.status(500).json({ error: 'Failed to export calendar' });
+  }
+});
+
+// Map exports of each day's route (GeoJSON, KML, GPX), limited to the days the caller can see
+const geoExportHandler = (format: GeoFormat): express.RequestHandler => async (req, res) => {
+  try {
+    const itinerary = await Itinerary.findOne({ id: req.params.id });
+    if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
+
+    res.setHeader('Content-Type', `${GEO_CONTENT_TYPES[format]}; charset=utf-8`);
+    res.setHeader('Content-Disposition', `attachment; filename="trip-${itinerary.id}.${format}"`);
+    res.send(renderGeoExport(visiblePlan(itinerary).plan, format));
+  } catch (error) {
+    console.error("Route Export Error:", error);
+    res.status(500).json({ error: 'Failed to export route' });
+  }
+};
+
+app.get('/api/itinerary/:id/route.geojson', geoExportHandler('geojson'));
+app.get('/api/itinerary/:id/route.kml', geoExportHandler('kml'));
+app.get('/api/itinerary/:id/route.gpx', geoExportHandler('gpx'));
+
+// Printable copy of the full plan, only once the itinerary is unlocked
+app.get('/api/itinerary/:id/itinerary.pdf', async (req, res) => {
+  try {
+    const itinerary = await Itinerary.findOne({ id: req.params.id });
+    if (!itinerary) return res.status(404).json({ error: 'Itinerary not found' });
+    if (!itinerary.unlocked) return res.status(402).json({ error: 'Unlock the full itinerary to download it as a PDF' });
+
+    const images = itinerary.images instanceof Map ? Object.fromEntries(itinerary.images) : (itinerary.images || {});
+    const pdf = await renderItineraryPdf(itinerary.plan, images);
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="trip-${itinerary.id}.pdf"`);
+    res.send(pdf);
+  } catch (error) {
+    console.error("PDF Export Error:", error);
+    res.status(500).json({ error: 'Failed to export PDF' });
+  }
+});
+
+// Replace, delete, insert or reorder a single activity in the stored plan
+app.patch('/api/itinerary/:id/activities', requireOwner, async (req, res) => {
+  try {
+    const edit = parseActivityEdit(req.body);
+    if (!edit) return res.status(400).json({ error: 'Invalid activity edit' });
+    if ('activity' in edit) {
+        const { errors } = validateActivity(edit.activity);
+        if (errors) return rejectInvalid(res, errors);
+    }
+
+    const itinerary = res.locals.itinerary;
+
+    if (!canEditPeriod(itinerary, edit.dayNumber, edit.period)) {
+        return res.status(402).json({ error: 'This part of the itinerary is locked. Unlock the full itinerary to edit it.' });
+    }
+
+    const result = applyActivityEdit(itinerary.plan, edit);
+    if (result.error) return res.status(400).json({ error: result.error });
+
+    await ensureRevisionBaseline(itinerary);
+    // Feedback on a replaced or removed activity is kept (tallies only cover activities in the plan),
+    // so it comes back with the activity on undo
+    const summary = describeActivityEdit(itinerary.plan, edit);
+    itinerary.plan = withTravelLegs(result.plan, itinerary.prefs?.pace);
+    itinerary.markModified('plan');
+    await recordRevision(itinerary, EDIT_REASONS[edit.op], summary);
+    await itinerary.save();
+
+    res.json(toClientPayload(itinerary, true));
+  } catch (error) {
+    console.error("Update Itinerary Error:", error);
+    res.status(500).json({ error: 'Failed to update itinerary' });
+  }
+});
+
+// Re-runs the route optimizer on the stored plan; { allowDayMoves: true } also lets activities swap days
+app.post('/api/itinerary/:id/optimize', requireOwner, async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
+    if (!itinerary.unlocked) {
+        return res.status(402).json({ error: 'Unlock the full itinerary to optimise its route.' });
     }
 
+    const { plan, report } = optimizeRoute(itinerary.plan, { allowDayMoves: req.body?.allowDayMoves === true });
+    if (report.totalAfterKm < report.totalBeforeKm) {
+        await ensureRevisionBaseline(itinerary);
+        // Group feedback is keyed by day, so it follows activities swapped onto another one
+        if (report.movedBetweenDays > 0) moveActivityFeedback(itinerary, itinerary.plan, plan);
+        itinerary.plan = withTravelLegs(plan, itinerary.prefs?.pace);
+        itinerary.markModified('plan');
+        await recordRevision(itinerary, 'optimize', `Route optimised (${report.totalBeforeKm} km → ${report.totalAfterKm} km)`);
+        await itinerary.save();
+    }
+
+    res.json({ ...toClientPayload(itinerary, true), report });
+  } catch (error) {
+    console.error("Optimize Route Error:", error);
+    res.status(500).json({ error: 'Failed to optimise route' });
+  }
+});
+
+// --- REVISION ROUTES ---
+
+// Owner and collaborators only, with summaries masked while the trip is locked
+app.get('/api/itinerary/:id/revisions', requireMember, async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
+
     res.json({
-      id: itinerary.id,
-      unlocked: itinerary.unlocked,
-      plan: returnedPlan,
-      totalDays: itinerary.plan?.days?.length || 0,
-      images: itinerary.images || {}
+      ...getHistoryState(itinerary),
+      revisions: (await listRevisions(itinerary)).map((r: any) => ({
+          number: r.number,
+          reason: r.reason,
+          summary: visibleSummary(r, itinerary.unlocked),
+          createdAt: r.createdAt
+      }))
     });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch revisions' });
+  }
+});
+
+// Compare two revisions: /revisions/diff?from=1&to=3. Owner and collaborators only, like the list.
+app.get('/api/itinerary/:id/revisions/diff', requireMember, async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
 
+    const pair = await findRevisionPair(itinerary, Number(req.query.from), Number(req.query.to));
+    if (!pair) return res.status(404).json({ error: 'Revision not found' });
+    const { from, to } = pair;
+
+    // Diff what the caller is allowed to see, so locked content never leaks through a diff
+    const mask = (plan: any) => itinerary.unlocked ? plan : applyPreviewPolicy(plan, policyFor(itinerary)).plan;
+    const changes = diffPlans(mask(from.plan), mask(to.plan));
+    res.json({ from: from.number, to: to.number, changes });
   } catch (error) {
-    res.status(500).json({ error: 'Failed to fetch itinerary' });
+    res.status(500).json({ error: 'Failed to diff revisions' });
+  }
+});
+
+app.post('/api/itinerary/:id/revisions/:number/restore', requireOwner, async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
+
+    const before = itinerary.plan;
+    if (!(await restoreRevision(itinerary, Number(req.params.number)))) {
+        return res.status(404).json({ error: 'Revision not found' });
+    }
+    moveActivityFeedback(itinerary, before, itinerary.plan);
+    itinerary.markModified('plan');
+    await itinerary.save();
+
+    res.json(toClientPayload(itinerary, true));
+  } catch (error) {
+    console.error("Restore Revision Error:", error);
+    res.status(500).json({ error: 'Failed to restore revision' });
+  }
+});
+
+// Shared handler for undo (-1) and redo (+1)
+const stepRevisionHandler = (direction: -1 | 1): express.RequestHandler => async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
+
+    const before = itinerary.plan;
+    if (!(await stepRevision(itinerary, direction))) {
+        return res.status(409).json({ error: direction === -1 ? 'Nothing to undo' : 'Nothing to redo' });
+    }
+    // Group feedback follows activities that an optimisation had moved to another day
+    moveActivityFeedback(itinerary, before, itinerary.plan);
+    itinerary.markModified('plan');
+    await itinerary.save();
+
+    res.json(toClientPayload(itinerary, true));
+  } catch (error) {
+    console.error("Undo/Redo Error:", error);
+    res.status(500).json({ error: 'Failed to change revision' });
+  }
+};
+
+app.post('/api/itinerary/:id/undo', requireOwner, stepRevisionHandler(-1));
+app.post('/api/itinerary/:id/redo', requireOwner, stepRevisionHandler(1));
+
+// --- GROUP TRIP ROUTES ---
+
+app.get('/api/itinerary/:id/collaborators', requireOwner, (req, res) => {
+  res.json({ collaborators: listCollaborators(res.locals.itinerary) });
+});
+
+// Invite (or re-invite) a collaborator by email; they get a link that lets them vote
+app.post('/api/itinerary/:id/collaborators', requireOwner, async (req, res) => {
+  try {
+    const email = normalizeEmail(req.body?.email);
+    if (!email) return res.status(400).json({ error: 'A valid email is required' });
+
+    const itinerary = res.locals.itinerary;
+    const { token, error } = inviteCollaborator(itinerary, email);
+    if (error) return res.status(400).json({ error });
+    await itinerary.save();
+
+    const inviteUrl = `${req.headers.origin || APP_URL}/?id=${itinerary.id}&invite=${token}`;
+    const destination = itinerary.plan.destination;
+    await sendEmail(
+        email,
+        `🗳️ You're invited to help plan a trip to ${destination}`,
+        `
+        <div style="font-family: sans-serif; color: #334155;">
+            <h2>Help shape the trip to ${destination}.</h2>
+            <p>You've been invited to vote on the activities in this itinerary and suggest alternatives.</p>
+            <a href="${inviteUrl}" style="background-color: #0284c7; color: white; padding: 12px 24px; border-radius: 8px; text-decoration: none; font-weight: bold; display: inline-block;">
+                Open the Trip
+            </a>
+        </div>
+        `
+    );
+
+    res.json({ collaborators: listCollaborators(itinerary) });
+  } catch (error) {
+    console.error("Invite Collaborator Error:", error);
+    res.status(500).json({ error: 'Failed to invite collaborator' });
+  }
+});
+
+app.delete('/api/itinerary/:id/collaborators/:email', requireOwner, async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
+    if (!removeCollaborator(itinerary, req.params.email.toLowerCase())) {
+        return res.status(404).json({ error: 'Collaborator not found' });
+    }
+    await itinerary.save();
+
+    res.json({ collaborators: listCollaborators(itinerary) });
+  } catch (error) {
+    console.error("Remove Collaborator Error:", error);
+    res.status(500).json({ error: 'Failed to remove collaborator' });
+  }
+});
+
+// Vote tallies and proposals for every activity the caller can see
+app.get('/api/itinerary/:id/feedback', requireMember, (req, res) => {
+  const itinerary = res.locals.itinerary;
+  res.json({ feedback: tallyFeedback(itinerary, visiblePlan(itinerary).plan, res.locals.voter) });
+});
+
+// Body: { dayNumber, period, activityName, value: 1 | -1 | 0 }
+app.put('/api/itinerary/:id/votes', validBody(validateVoteRequest), requireMember, async (req, res) => {
+  try {
+    const { value, ...ref } = res.locals.body;
+
+    const itinerary = res.locals.itinerary;
+    const { plan } = visiblePlan(itinerary);
+    if (!hasActivity(plan, ref)) return res.status(404).json({ error: 'Activity not found' });
+
+    castVote(itinerary, res.locals.voter, ref, value);
+    await itinerary.save();
+
+    res.json({ feedback: tallyFeedback(itinerary, plan, res.locals.voter) });
+  } catch (error) {
+    console.error("Vote Error:", error);
+    res.status(500).json({ error: 'Failed to save vote' });
+  }
+});
+
+// Body: { dayNumber, period, activityName, suggestion }
+app.post('/api/itinerary/:id/proposals', validBody(validateProposalRequest), requireMember, async (req, res) => {
+  try {
+    const { suggestion, ...ref } = res.locals.body;
+
+    const itinerary = res.locals.itinerary;
+    const { plan } = visiblePlan(itinerary);
+    if (!hasActivity(plan, ref)) return res.status(404).json({ error: 'Activity not found' });
+
+    addProposal(itinerary, res.locals.voter, ref, suggestion);
+    await itinerary.save();
+
+    res.json({ feedback: tallyFeedback(itinerary, plan, res.locals.voter) });
+  } catch (error) {
+    console.error("Proposal Error:", error);
+    res.status(500).json({ error: 'Failed to save proposal' });
+  }
+});
+
+// --- GROUP QUESTION ROUTES ---
+// Before generation, the organiser shares the follow-up question deck so every traveller can swipe it
+
+// Body: { destination, questions: SmartQuestion[] }. The owner token is returned once and needed to merge.
+app.post('/api/question-decks', async (req, res) => {
+  const { value, errors } = validateQuestionDeckRequest(req.body);
+  if (errors) return rejectInvalid(res, errors);
+  try {
+    const { destination, questions } = value!;
+    const ownerToken = issueOwnerToken();
+    const deck = await QuestionDeck.create({
+        id: crypto.randomUUID(),
+        ownerTokenHash: ownerToken.hash,
+        destination,
+        questions,
+        expiresAt: new Date(Date.now() + DECK_TTL_MS)
+    });
+
+    res.json({ id: deck.id, ownerToken: ownerToken.token });
+  } catch (error) {
+    console.error("Create Question Deck Error:", error);
+    res.status(500).json({ error: 'Failed to share questions' });
+  }
+});
+
+app.get('/api/question-decks/:id', async (req, res) => {
+  try {
+    const deck = await QuestionDeck.findOne({ id: req.params.id });
+    if (!deck) return res.status(404).json({ error: 'These questions are no longer available' });
+
+    res.json({ id: deck.id, destination: deck.destination, questions: deck.questions, responseCount: deck.responses.length });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch questions' });
+  }
+});
+
+// Body: { name, answers: { [questionId]: boolean }, responseId?, responseToken? }.
+// The first submit returns a response id and token; sending them back replaces those swipes.
+app.post('/api/question-decks/:id/responses', async (req, res) => {
+  try {
+    const deck = await QuestionDeck.findOne({ id: req.params.id });
+    if (!deck) return res.status(404).json({ error: 'These questions are no longer available' });
+
+    const { value, errors } = validateDeckResponseRequest(req.body, deck.questions.map((q: any) => q.id));
+    if (errors) return rejectInvalid(res, errors);
+    const { name, answers, responseId, responseToken } = value!;
+    const nameTaken = deck.responses.some((r: any) => r.id !== responseId && r.name.toLowerCase() === name.toLowerCase());
+    if (nameTaken) return res.status(409).json({ error: `Someone in this group already answered as ${name}. Please use another name.` });
+
+    if (responseId !== undefined) {
+        const existing = deck.responses.find((r: any) => r.id === responseId);
+        if (!existing) return res.status(404).json({ error: 'Those answers are no longer in this group' });
+        if (!responseToken || !existing.tokenHash || hashToken(responseToken) !== existing.tokenHash) {
+            return res.status(403).json({ error: 'Only whoever sent these answers can change them' });
+        }
+        existing.name = name;
+        existing.answers = answers;
+        existing.submittedAt = new Date();
+        await deck.save();
+        return res.json({ success: true, responseCount: deck.responses.length });
+    }
+
+    if (deck.responses.length >= MAX_DECK_RESPONSES) return res.status(400).json({ error: 'This group is full' });
+
+    const token = issueOwnerToken();
+    const id = crypto.randomUUID();
+    deck.responses.push({ id, name, tokenHash: token.hash, answers, submittedAt: new Date() });
+    await deck.save();
+
+    res.json({ success: true, responseCount: deck.responses.length, responseId: id, responseToken: token.token });
+  } catch (error) {
+    console.error("Submit Deck Response Error:", error);
+    res.status(500).json({ error: 'Failed to save answers' });
+  }
+});
+
+// Organiser only. Body: { strategy: 'majority' | 'veto' | 'weighted', weights?: { [responseId]: number } }
+app.post('/api/question-decks/:id/merge', validBody(validateDeckMergeRequest), async (req, res) => {
+  try {
+    const deck = await QuestionDeck.findOne({ id: req.params.id });
+    if (!deck) return res.status(404).json({ error: 'These questions are no longer available' });
+
+    const ownerToken = req.headers[OWNER_TOKEN_HEADER];
+    if (typeof ownerToken !== 'string' || hashToken(ownerToken) !== deck.ownerTokenHash) {
+        return res.status(403).json({ error: 'Only the organiser can merge the answers' });
+    }
+
+    const { strategy, weights } = res.locals.body;
+
+    const responses = deck.responses.map((r: any) => ({ id: r.id, name: r.name, answers: r.answers || {} }));
+    res.json(mergeDeckResponses(deck.questions, responses, strategy, weights));
+  } catch (error) {
+    console.error("Merge Deck Error:", error);
+    res.status(500).json({ error: 'Failed to merge answers' });
+  }
+});
+
+// --- SHARE LINK ROUTES ---
+
+app.get('/api/itinerary/:id/share-links', requireOwner, (req, res) => {
+  res.json({ links: listShareLinks(res.locals.itinerary) });
+});
+
+// Body: { expiresInDays?: number } - omit for a link that never expires
+app.post('/api/itinerary/:id/share-links', requireOwner, async (req, res) => {
+  try {
+    const { days, error } = parseExpiresInDays(req.body?.expiresInDays);
+    if (error) return res.status(400).json({ error });
+
+    const itinerary = res.locals.itinerary;
+    const link = addShareLink(itinerary, days ?? null);
+    await itinerary.save();
+
+    res.json({ token: link.token, expiresAt: link.expiresAt, createdAt: link.createdAt });
+  } catch (error) {
+    console.error("Create Share Link Error:", error);
+    res.status(500).json({ error: 'Failed to create share link' });
+  }
+});
+
+app.delete('/api/itinerary/:id/share-links/:token', requireOwner, async (req, res) => {
+  try {
+    const itinerary = res.locals.itinerary;
+    if (!revokeShareLink(itinerary, req.params.token)) {
+        return res.status(404).json({ error: 'Share link not found' });
+    }
+    await itinerary.save();
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Revoke Share Link Error:", error);
+    res.status(500).json({ error: 'Failed to revoke share link' });
+  }
+});
+
+// Read-only view behind a share link. The itinerary id is left out so a revoked
+// link can't be swapped for the permanent /?id= URL.
+app.get('/api/shared/:token', async (req, res) => {
+  try {
+    const shared = await findSharedItinerary(req.params.token);
+    if (!shared) return res.status(404).json({ error: 'This share link is invalid, expired or has been revoked' });
+
+    const { id, ...payload } = toClientPayload(shared.itinerary, false);
+    res.json({ ...payload, expiresAt: shared.link.expiresAt });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch shared itinerary' });
   }
 });
 
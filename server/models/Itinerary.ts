@@ -1,6 +1,77 @@
 
 import mongoose from 'mongoose';
 
+// One hotel booking; it runs from its check-in date until the next stay's (see services/hotels)
+const HotelStaySchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true
+  },
+  startDate: {
+    type: String,
+    default: ''
+  },
+  latitude: Number,
+  longitude: Number
+}, { _id: false });
+
+// A view-only link handed to friends; the owner can let it expire or revoke it
+const ShareLinkSchema = new mongoose.Schema({
+  token: {
+    type: String,
+    required: true
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  revokedAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Someone the owner invited to vote on activities; identified by their invite token or account email
+const CollaboratorSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    lowercase: true,
+    trim: true
+  },
+  tokenHash: {
+    type: String,
+    required: true
+  },
+  invitedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// Activities are referenced by day, period and name, the same way revision diffs match them
+const VoteSchema = new mongoose.Schema({
+  dayNumber: { type: Number, required: true },
+  period: { type: String, required: true },
+  activityName: { type: String, required: true },
+  voter: { type: String, required: true }, // collaborator email, or 'owner'
+  value: { type: Number, required: true }, // 1 or -1
+  updatedAt: { type: Date, default: Date.now }
+}, { _id: false });
+
+const ProposalSchema = new mongoose.Schema({
+  dayNumber: { type: Number, required: true },
+  period: { type: String, required: true },
+  activityName: { type: String, required: true },
+  voter: { type: String, required: true },
+  suggestion: { type: String, required: true },
+  createdAt: { type: Date, default: Date.now }
+}, { _id: false });
+
 const ItinerarySchema = new mongoose.Schema({
   id: { 
     type: String, 
@@ -8,6 +79,18 @@ const ItinerarySchema = new mongoose.Schema({
     unique: true,
     index: true 
   },
+  // SHA-256 of the owner token returned once by /api/generate-trip; required for writes
+  ownerTokenHash: {
+    type: String,
+    default: null
+  },
+  // Account that generated the itinerary, when signed in
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null,
+    index: true
+  },
   email: {
     type: String,
     required: false,
@@ -18,6 +101,26 @@ const ItinerarySchema = new mongoose.Schema({
     default: false,
     required: true
   },
+  // Set once the "unlocked" email has gone out, so it is never sent twice
+  unlockEmailSentAt: {
+    type: Date,
+    default: null
+  },
+  // Free-preview policy spec chosen at generation, e.g. "days:2" (see services/previewPolicy)
+  previewPolicy: {
+    type: String,
+    default: null
+  },
+  // The preferences the plan was generated from (used for pricing)
+  prefs: {
+    type: mongoose.Schema.Types.Mixed,
+    default: null
+  },
+  // Where the traveller stays, geocoded once at generation
+  hotels: {
+    type: [HotelStaySchema],
+    default: []
+  },
   // We store the exact JSON from the Gemini API here using Mixed type for flexibility
   plan: { 
     type: mongoose.Schema.Types.Mixed, 
@@ -29,10 +132,39 @@ const ItinerarySchema = new mongoose.Schema({
     of: String,
     default: {}
   },
+  // Revision log for undo/redo: the numbers of this itinerary's kept revisions (see models/Revision), oldest first.
+  // `currentRevision` is the number of the revision `plan` matches.
+  revisionNumbers: {
+    type: [Number],
+    default: []
+  },
+  currentRevision: {
+    type: Number,
+    default: 0
+  },
+  shareLinks: {
+    type: [ShareLinkSchema],
+    default: []
+  },
+  // Group trips: invited collaborators and their feedback on activities
+  collaborators: {
+    type: [CollaboratorSchema],
+    default: []
+  },
+  votes: {
+    type: [VoteSchema],
+    default: []
+  },
+  proposals: {
+    type: [ProposalSchema],
+    default: []
+  },
   createdAt: { 
     type: Date, 
     default: Date.now 
   }
 });
 
+ItinerarySchema.index({ 'shareLinks.token': 1 });
+
 export const Itinerary = mongoose.model('Itinerary', ItinerarySchema);
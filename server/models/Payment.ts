@@ -0,0 +1,54 @@
+import mongoose from 'mongoose';
+
+// One record per Stripe Checkout Session, kept for revenue reconciliation and support
+const PaymentSchema = new mongoose.Schema({
+  itineraryId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  paymentIntentId: {
+    type: String,
+    default: null,
+    index: true
+  },
+  // Smallest currency unit, as reported by Stripe (e.g. cents)
+  amount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    required: true
+  },
+  email: {
+    type: String,
+    default: null,
+    lowercase: true,
+    index: true
+  },
+  promoCode: {
+    type: String,
+    default: null
+  },
+  // 'paid' | 'refunded'
+  status: {
+    type: String,
+    default: 'paid'
+  },
+  refunded: {
+    type: Boolean,
+    default: false
+  },
+  refundedAt: {
+    type: Date,
+    default: null
+  }
+}, { timestamps: true });
+
+export const Payment = mongoose.model('Payment', PaymentSchema);
@@ -0,0 +1,75 @@
+import mongoose from 'mongoose';
+
+const RedemptionSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    default: null,
+    lowercase: true
+  },
+  itineraryId: {
+    type: String,
+    required: true
+  },
+  redeemedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const PromoCodeSchema = new mongoose.Schema({
+  // Stored upper-case; lookups upper-case the input too
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  // 'percentage' (value = 0-100) | 'fixed' (value in the smallest currency unit)
+  discountType: {
+    type: String,
+    enum: ['percentage', 'fixed'],
+    required: true
+  },
+  value: {
+    type: Number,
+    required: true
+  },
+  // Fixed discounts only apply to prices in this currency
+  currency: {
+    type: String,
+    default: 'usd',
+    lowercase: true
+  },
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  maxRedemptions: {
+    type: Number,
+    default: null
+  },
+  perEmailLimit: {
+    type: Number,
+    default: null
+  },
+  // Case-insensitive substrings of the destination; empty = valid everywhere
+  destinations: {
+    type: [String],
+    default: []
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  redemptions: {
+    type: [RedemptionSchema],
+    default: []
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export const PromoCode = mongoose.model('PromoCode', PromoCodeSchema);
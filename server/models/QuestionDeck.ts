@@ -0,0 +1,68 @@
+import mongoose from 'mongoose';
+
+// One traveller's swipes on a shared question deck
+const DeckResponseSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    required: true
+  },
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  // SHA-256 of the token handed back on the first submit; needed to change these answers
+  tokenHash: {
+    type: String,
+    default: null
+  },
+  // questionId -> true (swiped right) / false (swiped left)
+  answers: {
+    type: mongoose.Schema.Types.Mixed,
+    default: {}
+  },
+  submittedAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+// The follow-up question deck for a group trip, shared with every traveller before generation
+const QuestionDeckSchema = new mongoose.Schema({
+  id: {
+    type: String,
+    required: true,
+    unique: true,
+    index: true
+  },
+  // SHA-256 of the organiser's token; needed to merge the answers
+  ownerTokenHash: {
+    type: String,
+    required: true
+  },
+  destination: {
+    type: String,
+    default: ''
+  },
+  questions: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  responses: {
+    type: [DeckResponseSchema],
+    default: []
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Decks are only needed until the trip is generated
+QuestionDeckSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+export const QuestionDeck = mongoose.model('QuestionDeck', QuestionDeckSchema);
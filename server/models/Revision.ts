@@ -0,0 +1,36 @@
+import mongoose from 'mongoose';
+
+// One snapshot of an itinerary's `plan`, written every time the plan changes.
+// Kept in a collection of its own so a long edit history never counts towards the itinerary document's size.
+const RevisionSchema = new mongoose.Schema({
+  itineraryId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  number: {
+    type: Number,
+    required: true
+  },
+  // 'generation' | 'regenerate' | 'delete' | 'insert' | 'reorder' | 'optimize' | 'restore'
+  reason: {
+    type: String,
+    required: true
+  },
+  summary: {
+    type: String,
+    default: ''
+  },
+  plan: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+RevisionSchema.index({ itineraryId: 1, number: 1 }, { unique: true });
+
+export const Revision = mongoose.model('Revision', RevisionSchema);
@@ -0,0 +1,31 @@
+import mongoose from 'mongoose';
+
+const UserSchema = new mongoose.Schema({
+  email: {
+    type: String,
+    required: true,
+    unique: true,
+    lowercase: true,
+    trim: true
+  },
+  // SHA-256 of the pending magic-link token; the raw token only ever exists in the email
+  loginTokenHash: {
+    type: String,
+    default: null,
+    index: true
+  },
+  loginTokenExpiresAt: {
+    type: Date,
+    default: null
+  },
+  lastLoginAt: {
+    type: Date,
+    default: null
+  },
+  createdAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+export const User = mongoose.model('User', UserSchema);
@@ -0,0 +1,54 @@
+// Sends a locally signed Stripe webhook to the running server, no Stripe account needed.
+// Usage: npx tsx server/scripts/sendTestWebhook.ts <itineraryId> [checkout.session.completed|charge.refunded]
+import Stripe from 'stripe';
+import dotenv from 'dotenv';
+
+dotenv.config();
+
+const stripe = new Stripe(process.env.STRIPE_SECRET_KEY || 'sk_test_placeholder', {
+    apiVersion: '2023-10-16',
+});
+
+const [itineraryId, type = 'checkout.session.completed'] = process.argv.slice(2);
+const secret = process.env.STRIPE_WEBHOOK_SECRET;
+const endpoint = `http://localhost:${process.env.PORT || 3001}/api/webhook`;
+
+const buildObject = () => {
+    if (type === 'charge.refunded') {
+        return { id: 'ch_test_local', object: 'charge', refunded: true, payment_intent: 'pi_test_local' };
+    }
+    return {
+        id: 'cs_test_local',
+        object: 'checkout.session',
+        client_reference_id: itineraryId,
+        payment_status: 'paid',
+        payment_intent: 'pi_test_local',
+        amount_total: 500,
+        currency: 'usd',
+        created: Math.floor(Date.now() / 1000)
+    };
+};
+
+const main = async () => {
+    if (!itineraryId || !secret) {
+        console.error("Usage: STRIPE_WEBHOOK_SECRET=whsec_... npx tsx server/scripts/sendTestWebhook.ts <itineraryId> [eventType]");
+        process.exit(1);
+    }
+
+    const payload = JSON.stringify({
+        id: `evt_test_${Date.now()}`,
+        object: 'event',
+        type,
+        data: { object: buildObject() }
+    });
+    const signature = stripe.webhooks.generateTestHeaderString({ payload, secret });
+
+    const res = await fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Stripe-Signature': signature },
+        body: payload
+    });
+    console.log(res.status, await res.text());
+};
+
+main();
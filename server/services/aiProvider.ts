@@ -0,0 +1,71 @@
+// The model backend behind aiService. AI_PROVIDER selects it: "gemini" (the default) or
+// "mock", an offline provider that answers from fixtures with no network or API key, for
+// development, demos and end-to-end tests.
+
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+
+// What a request is for. Gemini only sees the prompt; the mock answers by task.
+export type AiTask =
+  | 'validate-destination'
+  | 'geocode'
+  | 'questions'
+  | 'draft-itinerary'
+  | 'enrich-itinerary'
+  | 'transfer'
+  | 'alternative'
+  | 'day-image';
+
+export type GroundingTool = 'search' | 'maps';
+
+export interface TextRequest {
+  task: AiTask;
+  prompt: string;
+  json?: boolean; // ask for a JSON-only response
+  input?: Record<string, any>; // the values the prompt was built from
+  // Called with the response so far as it streams in, ending with the full text
+  onText?: (textSoFar: string) => void;
+}
+
+export interface GroundedRequest extends TextRequest {
+  tool: GroundingTool;
+}
+
+export interface ImageRequest {
+  task: AiTask;
+  prompt: string;
+  aspectRatio?: string; // e.g. "16:9"
+  input?: Record<string, any>;
+}
+
+export interface AiProvider {
+  name: string;
+  generateText(request: TextRequest): Promise<string>;
+  // Text grounded in live Google Search or Maps results
+  generateGrounded(request: GroundedRequest): Promise<string>;
+  // Resolves to a data URL, or null when no image came back
+  generateImage(request: ImageRequest): Promise<string | null>;
+}
+
+export const createAiProvider = (name = process.env.AI_PROVIDER || 'gemini'): AiProvider => {
+  switch (name) {
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider();
+    default:
+      console.warn(`Unknown AI_PROVIDER "${name}", using gemini`);
+      return createGeminiProvider();
+  }
+};
+
+let provider: AiProvider | null = null;
+
+// Chosen on first use, so .env has been loaded by then
+export const getAiProvider = (): AiProvider => {
+  if (!provider) {
+    provider = createAiProvider();
+    console.log(`AI provider: ${provider.name}`);
+  }
+  return provider;
+};
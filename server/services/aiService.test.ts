@@ -0,0 +1,38 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { generateItinerary } from './aiService';
+
+const generateGrounded = vi.fn();
+vi.mock('./aiProvider', () => ({ getAiProvider: () => ({ generateGrounded }) }));
+
+const prefs: any = {
+  destination: 'Lisbon',
+  startDate: '2026-05-01',
+  endDate: '2026-05-02',
+  tripType: 'Couple',
+  budget: 'Medium',
+  vibe: 'Both',
+  pace: 'Balanced',
+  interests: [],
+  demographics: {},
+  fixedPlans: [],
+  mustVisit: '',
+  followUpAnswers: {}
+};
+
+describe('generateItinerary', () => {
+  beforeEach(() => {
+    generateGrounded.mockReset();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => vi.restoreAllMocks());
+
+  it('fails instead of keeping a draft that never passes the schema', async () => {
+    // One day for a two-day trip, every time
+    generateGrounded.mockResolvedValue(JSON.stringify({ destination: 'Lisbon', days: [{ dayNumber: 1, morning: [{ name: 'Belém Tower' }] }] }));
+
+    expect(await generateItinerary(prefs)).toBeNull();
+    expect(generateGrounded.mock.calls.length).toBeGreaterThan(1);
+    expect(generateGrounded.mock.calls[1][0].prompt).toContain('expected 2 days but got 1');
+  });
+});
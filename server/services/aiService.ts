@@ -1,30 +1,15 @@
 
-import { GoogleGenAI } from "@google/genai";
 import dotenv from 'dotenv';
+import { optimizeRoute } from './routeOptimizer';
+import { HotelStay, assignHotels } from './hotels';
+import { SchemaIssue, daysInRange, describeIssues, repairActivity, repairItinerary, repairQuestions } from './itinerarySchema';
+import { Activity, ActivityContext, GenerationEvent, UserPreferences } from '../../types';
+import { getAiProvider } from './aiProvider';
+import { PromptScope, buildAlternativePrompt, buildItineraryPrompt, formatDateForPrompt, rejectedFollowUps } from './promptBuilder';
+import { checkPreferences, describePreferenceReport, enforcePreferences, isPreferenceReportClean } from './preferenceCheck';
 
 dotenv.config();
 
-// We redefine minimal types here to avoid complex monorepo setup issues in this environment
-interface UserPreferences {
-  destination: string;
-  startDate: string;
-  endDate: string;
-  hotelLocation: string;
-  tripType: string;
-  budget: string;
-  vibe: string;
-  pace: string;
-  interests: string[];
-  demographics: any;
-  fixedPlans: any[];
-  mustVisit: string;
-  followUpAnswers: Record<string, boolean>;
-}
-
-const getApiKey = (): string => {
-  return process.env.API_KEY || "";
-};
-
 // Helper to extract JSON
 function extractJSON(text: string): any {
   try {
@@ -53,34 +38,34 @@ function extractJSON(text: string): any {
   }
 }
 
-function formatDateForPrompt(isoDate: string): string {
-  if (!isoDate) return '';
-  const [year, month, day] = isoDate.split('-');
-  return `${day}/${month}/${year}`;
-}
-
 export const validateDestination = async (destination: string) => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const model = "gemini-2.5-flash";
   const prompt = `Analyze destination: "${destination}". Return JSON: { "isValid": boolean, "formattedName": string | null }. If valid, provide "City, Country".`;
   
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: { responseMimeType: "application/json" }
-    });
-    return extractJSON(response.text || "{}");
+    const text = await getAiProvider().generateText({ task: 'validate-destination', prompt, json: true, input: { destination } });
+    return extractJSON(text || "{}");
   } catch (error) {
     console.error("Validation error", error);
     return { isValid: true, formattedName: destination };
   }
 };
 
+// Coordinates for a hotel or area name, looked up with Google Maps grounding
+export const geocodePlace = async (place: string, destination: string): Promise<{ latitude: number, longitude: number } | null> => {
+  const prompt = `Find "${place}" in ${destination}. Return JSON only: { "latitude": number, "longitude": number }. Use null for both if it can't be found.`;
+
+  try {
+    const text = await getAiProvider().generateGrounded({ task: 'geocode', tool: 'maps', prompt, input: { place, destination } });
+    const result = extractJSON(text || "{}");
+    const { latitude, longitude } = result || {};
+    return typeof latitude === 'number' && typeof longitude === 'number' ? { latitude, longitude } : null;
+  } catch (error) {
+    console.error("Geocode error", error);
+    return null;
+  }
+};
+
 export const checkEventsAndGetQuestions = async (prefs: UserPreferences) => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const model = "gemini-2.5-flash";
-  
   const startDate = formatDateForPrompt(prefs.startDate);
   const endDate = formatDateForPrompt(prefs.endDate);
   const start = new Date(prefs.startDate);
@@ -97,26 +82,20 @@ export const checkEventsAndGetQuestions = async (prefs: UserPreferences) => {
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: { tools: [{ googleSearch: {} }] }
+    const text = await getAiProvider().generateGrounded({
+      task: 'questions', tool: 'search', prompt, input: { prefs, count: targetNumQuestions }
     });
-    const res = extractJSON(response.text || "[]");
-    return Array.isArray(res) ? res.slice(0, targetNumQuestions) : [];
+    const { value } = repairQuestions(extractJSON(text || "[]"));
+    return value ? value.slice(0, targetNumQuestions) : [];
   } catch (error) {
     return [];
   }
 };
 
-const optimizeItineraryRoute = async (initialItinerary: any, prefs: UserPreferences) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    const model = "gemini-2.5-flash";
-
-    const rejectedActivities = Object.entries(prefs.followUpAnswers)
-        .filter(([_, liked]) => !liked)
-        .map(([id]) => id.replace(/_/g, ' '))
-        .join(", ");
+// Fills in coordinates and tightens up names and prices. Visiting order is left to
+// the local route optimizer, which runs on the coordinates this pass returns.
+const enrichItinerary = async (initialItinerary: any, prefs: UserPreferences, scope: PromptScope) => {
+    const rejectedActivities = rejectedFollowUps(prefs).join(", ");
 
     const prompt = `
     Act as a Master Travel Logistician. Review itinerary for ${prefs.destination}.
@@ -124,120 +103,161 @@ const optimizeItineraryRoute = async (initialItinerary: any, prefs: UserPreferen
     CONSTRAINTS: Remove rejected items: ${rejectedActivities}.
     MISSION: 
     1. Add "latitude" and "longitude" to every activity.
-    2. Cluster activities geographically (no zig-zag).
-    3. Ensure SPECIFIC NAMES for places.
-    4. Ensure Price vs Admission logic is correct.
-    Return OPTIMIZED JSON only.
+    2. Ensure SPECIFIC NAMES for places.
+    3. Ensure Price vs Admission logic is correct.
+    Keep every day, period and activity order as it is, including must-visit places and fixed plans.
+    Return the UPDATED JSON only.
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model,
-            contents: prompt,
-            config: { 
-                tools: [{ googleMaps: {} }],
-                responseMimeType: "application/json" 
-            }
+        const text = await getAiProvider().generateGrounded({
+            task: 'enrich-itinerary', tool: 'maps', json: true, prompt, input: { itinerary: initialItinerary, prefs }
         });
-        const optimized = extractJSON(response.text || "{}");
-        return (optimized && optimized.days) ? optimized : initialItinerary;
+        // A pass that breaks the plan (drops days, empties a day, loses a must-visit) is discarded for the draft
+        const { value, issues } = repairItinerary(extractJSON(text || "{}"), prefs);
+        if (!value || issues.length > 0 || !isPreferenceReportClean(checkPreferences(value, prefs, scope))) return initialItinerary;
+        return value;
     } catch (e) {
         return initialItinerary;
     }
 };
 
-export const generateItinerary = async (prefs: UserPreferences) => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const model = "gemini-2.5-flash";
-  
-  const startDate = formatDateForPrompt(prefs.startDate);
-  const endDate = formatDateForPrompt(prefs.endDate);
-  
-  const rejectedItems = Object.entries(prefs.followUpAnswers)
-    .filter(([_, liked]) => !liked)
-    .map(([id]) => id.replace(/_/g, ' '))
-    .join(", ");
+const MAX_GENERATION_ATTEMPTS = 2;
 
-  const prompt = `
-    Create JSON itinerary for ${prefs.destination}, ${startDate} to ${endDate}.
-    Who: ${prefs.tripType}. Budget: ${prefs.budget}. Vibe: ${prefs.vibe}.
-    User Banned: [ ${rejectedItems} ].
-    Interests: ${prefs.interests.join(', ')}.
-    Include Fixed Plans: ${JSON.stringify(prefs.fixedPlans)}.
-    
-    Structure:
-    {
-      "destination": "${prefs.destination}",
-      "days": [{
-          "dayNumber": 1, "date": "DD/MM/YYYY", "areaFocus": "...", "title": "...", "vibe": "...", "vibeIcons": ["x"],
-          "highlightEvent": { "name": "...", "description": "...", "mapsQuery": "..." },
-          "morning": [{ "name": "...", "description": "...", "emoji": "x", "category": "...", "type": "...", "mapsQuery": "...", "priceLevel": "$$", "admissionFee": "$20", "rating": 4.5, "openingHours": "..." }],
-          "afternoon": [], "evening": []
-      }]
+// The day objects that have fully arrived in a streaming `{ "days": [...] }` response
+const draftedDaysSoFar = (text: string): any[] => {
+  const key = text.indexOf('"days"');
+  const open = key === -1 ? -1 : text.indexOf('[', key);
+  if (open === -1) return [];
+
+  const days: any[] = [];
+  let depth = 0;
+  let start = -1;
+  let inString = false;
+  for (let i = open + 1; i < text.length; i++) {
+    const c = text[i];
+    if (inString) {
+      if (c === '\\') i++;
+      else if (c === '"') inString = false;
+    } else if (c === '"') {
+      inString = true;
+    } else if (c === '{' || c === '[') {
+      if (depth++ === 0 && c === '{') start = i;
+    } else if (c === '}' || c === ']') {
+      if (depth === 0) break; // end of the days array
+      if (--depth === 0 && start !== -1) {
+        try { days.push(JSON.parse(text.slice(start, i + 1))); } catch (e) { /* not a day object */ }
+        start = -1;
+      }
     }
-  `;
+  }
+  return days;
+};
+
+export interface GenerateOptions {
+  scope?: PromptScope; // 'leg' for one city of a multi-city trip: must-visits in other cities aren't required of it
+  onProgress?: (event: GenerationEvent) => void; // phases, and each day as soon as it is drafted
+}
+
+// `hotels` are the located stays (see services/hotels); each day starts and ends at its stay
+export const generateItinerary = async (prefs: UserPreferences, hotels: HotelStay[] = [], { scope = 'trip', onProgress }: GenerateOptions = {}) => {
+  const prompt = buildItineraryPrompt(prefs, hotels, scope);
+  const totalDays = daysInRange(prefs) || 0;
+
+  // Days are repaired together so they get their real numbers and dates, then sent once each
+  let sentDays = 0;
+  const onText = onProgress && ((textSoFar: string) => {
+    const { value } = repairItinerary({ days: draftedDaysSoFar(textSoFar) }, prefs);
+    (value?.days || []).slice(sentDays).forEach((day: any, i: number) =>
+      onProgress({ phase: 'day', dayIndex: sentDays + i, totalDays, day }));
+    sentDays = Math.max(sentDays, value?.days.length || 0);
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: { tools: [{ googleMaps: {} }] }
-    });
+    // Each response is checked against the itinerary schema. What can't be repaired is
+    // sent back with the next attempt; if none pass, generation fails rather than storing
+    // a plan the schema rejects.
+    let draft: any = null;
+    let issues: SchemaIssue[] = [];
+    let feedback = '';
+    for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+      onProgress?.({ phase: 'drafting', city: prefs.destination });
+      sentDays = 0;
+      const text = await getAiProvider().generateGrounded({
+        task: 'draft-itinerary', tool: 'maps', prompt: prompt + feedback, input: { prefs, hotels }, onText
+      });
+
+      const repaired = repairItinerary(extractJSON(text || "{}"), prefs);
+      if (repaired.repairs.length > 0) console.warn(`Repaired itinerary (attempt ${attempt}):`, repaired.repairs.join('; '));
+      issues = repaired.issues;
+      if (repaired.value && issues.length === 0) {
+        draft = repaired.value;
+        break;
+      }
 
-    const draft = extractJSON(response.text || "{}");
-    if (draft && Array.isArray(draft.days)) {
-        return await optimizeItineraryRoute(draft, prefs);
+      console.warn(`Invalid itinerary (attempt ${attempt}):`, describeIssues(issues));
+      feedback = `\n    Your previous answer was rejected: ${describeIssues(issues)}.\n    Return the complete corrected JSON with exactly one entry in "days" per date.\n`;
     }
-    return null;
+
+    if (!draft) {
+      console.error(`No valid itinerary after ${MAX_GENERATION_ATTEMPTS} attempts:`, describeIssues(issues));
+      return null;
+    }
+
+    const { plan: checked, report } = enforcePreferences(draft, prefs, scope);
+    if (!isPreferenceReportClean(report)) console.warn("Repaired plan against preferences:", describePreferenceReport(report));
+
+    onProgress?.({ phase: 'locating' });
+    const enriched = await enrichItinerary(checked, prefs, scope);
+    onProgress?.({ phase: 'optimizing' });
+    return optimizeRoute(assignHotels(enriched, hotels)).plan;
   } catch (e) {
     console.error("Generate Itinerary Error", e);
     return null;
   }
 };
 
-export const getAlternativeActivity = async (prefs: UserPreferences, currentActivity: any, context: any, existingNames: string[], customRequest: string) => {
-  const ai = new GoogleGenAI({ apiKey: getApiKey() });
-  const model = "gemini-2.5-flash";
-
+// How to get between two cities of a multi-city trip on the given (YYYY-MM-DD) day
+export const planTransfer = async (from: string, to: string, date: string, prefs: UserPreferences) => {
   const prompt = `
-    Suggest ALTERNATIVE activity for: "${currentActivity.name}" in ${prefs.destination}.
-    Context: ${context.timeOfDay}, ${context.area}. Custom Request: ${customRequest}.
-    Constraint: Real place, specific name, open now.
-    Return JSON (Activity Object).
+    Travellers (${prefs.tripType}, budget ${prefs.budget}) move from ${from} to ${to} on ${formatDateForPrompt(date)}.
+    Recommend the best way to travel. Return JSON only:
+    { "mode": "flight" | "train" | "bus" | "car" | "ferry", "duration": "e.g. 2h 30m", "description": "one or two sentences", "tips": ["up to 3 practical tips"] }
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: prompt,
-      config: { tools: [{ googleSearch: {} }] }
+    const text = await getAiProvider().generateGrounded({ task: 'transfer', tool: 'search', prompt, input: { from, to, date } });
+    const result = extractJSON(text || "{}");
+    return result && typeof result.description === 'string' ? result : null;
+  } catch (error) {
+    console.error("Transfer planning error", error);
+    return null;
+  }
+};
+
+export const getAlternativeActivity = async (prefs: UserPreferences, currentActivity: Activity, context: ActivityContext, existingNames: string[], customRequest: string) => {
+  const prompt = buildAlternativePrompt(prefs, currentActivity, context, existingNames, customRequest);
+
+  try {
+    const text = await getAiProvider().generateGrounded({
+      task: 'alternative', tool: 'search', prompt, input: { prefs, currentActivity, context, existingNames, customRequest }
     });
-    return extractJSON(response.text || "null");
+    return repairActivity(extractJSON(text || "null"), 'activity', prefs.destination);
   } catch (e) {
     return null;
   }
 };
 
 export const generateDayCardImage = async (dayTitle: string, area: string, destination: string, vibe: string) => {
-    const ai = new GoogleGenAI({ apiKey: getApiKey() });
-    const model = 'gemini-3-pro-image-preview';
-    
     const prompt = `
       Travel illustration for ${destination}, ${area}. Mood: ${vibe}, ${dayTitle}.
       Style: Flat vector art, pastel colors. NO TEXT. 16:9.
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model,
-            contents: prompt,
-            config: { imageConfig: { aspectRatio: "16:9", imageSize: "1K" } }
+        return await getAiProvider().generateImage({
+            task: 'day-image', prompt, aspectRatio: "16:9", input: { dayTitle, area, destination, vibe }
         });
-        
-        for (const part of response.candidates?.[0]?.content?.parts || []) {
-            if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
-        }
-        return null;
     } catch (e) {
         return null;
     }
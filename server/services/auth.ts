@@ -0,0 +1,119 @@
+// Passwordless login: magic-link tokens and bearer session tokens.
+
+import crypto from 'crypto';
+import express from 'express';
+import { Session } from '../models/Session';
+import { User } from '../models/User';
+
+export const LOGIN_LINK_TTL_MS = 15 * 60 * 1000;
+export const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const createToken = () => crypto.randomBytes(32).toString('hex');
+
+export const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Issues a fresh magic-link token for the user (replacing any pending one) and returns the raw token
+export const issueLoginToken = async (email: string) => {
+  const token = createToken();
+  await User.findOneAndUpdate(
+    { email: email.trim().toLowerCase() },
+    { $set: { loginTokenHash: hashToken(token), loginTokenExpiresAt: new Date(Date.now() + LOGIN_LINK_TTL_MS) } },
+    { upsert: true, setDefaultsOnInsert: true }
+  );
+  return token;
+};
+
+// Exchanges a magic-link token for a session; the link works only once
+export const redeemLoginToken = async (token: string) => {
+  const user = await User.findOneAndUpdate(
+    { loginTokenHash: hashToken(token), loginTokenExpiresAt: { $gt: new Date() } },
+    { $set: { loginTokenHash: null, loginTokenExpiresAt: null, lastLoginAt: new Date() } },
+    { new: true }
+  );
+  if (!user) return null;
+
+  const sessionToken = createToken();
+  await Session.create({
+    tokenHash: hashToken(sessionToken),
+    userId: user._id,
+    expiresAt: new Date(Date.now() + SESSION_TTL_MS)
+  });
+  return { sessionToken, user };
+};
+
+const bearerToken = (req: express.Request) => {
+  const header = req.headers.authorization || '';
+  return header.startsWith('Bearer ') ? header.slice(7).trim() : null;
+};
+
+// Resolves the signed-in user from `Authorization: Bearer <session token>`, or null
+export const getRequestUser = async (req: express.Request) => {
+  const token = bearerToken(req);
+  if (!token) return null;
+
+  const session = await Session.findOne({ tokenHash: hashToken(token), expiresAt: { $gt: new Date() } });
+  if (!session) return null;
+  return User.findById(session.userId);
+};
+
+export const endSession = async (req: express.Request) => {
+  const token = bearerToken(req);
+  if (token) await Session.deleteOne({ tokenHash: hashToken(token) });
+};
+
+// Route guard: puts the user on res.locals.user or answers 401
+export const requireUser: express.RequestHandler = async (req, res, next) => {
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return res.status(401).json({ error: 'Please sign in' });
+    res.locals.user = user;
+    next();
+  } catch (e) {
+    res.status(500).json({ error: 'Authentication failed' });
+  }
+};
+
+// --- Itinerary ownership ---
+
+// Header carrying the per-itinerary owner token handed out by /api/generate-trip
+export const OWNER_TOKEN_HEADER = 'x-owner-token';
+
+export const issueOwnerToken = () => {
+  const token = createToken();
+  return { token, hash: hashToken(token) };
+};
+
+// Owners are whoever holds the owner token, or the signed-in account that generated the trip.
+// Trips generated while signed out fall back to the account matching their saved email.
+export const isItineraryOwner = async (itinerary: any, req: express.Request) => {
+  const ownerToken = req.headers[OWNER_TOKEN_HEADER];
+  if (typeof ownerToken === 'string' && itinerary.ownerTokenHash && hashToken(ownerToken) === itinerary.ownerTokenHash) {
+    return true;
+  }
+
+  const user = await getRequestUser(req);
+  if (!user) return false;
+  if (itinerary.userId) return String(itinerary.userId) === String(user._id);
+  return !!itinerary.email && itinerary.email.toLowerCase() === user.email;
+};
+
+// --- Collaborators ---
+
+// Header carrying the invite token from a collaborator's email
+export const COLLABORATOR_TOKEN_HEADER = 'x-collaborator-token';
+
+// The collaborator entry matching the request's invite token, or the signed-in account's email
+export const findCollaborator = async (itinerary: any, req: express.Request) => {
+  const collaborators: any[] = itinerary.collaborators || [];
+  if (collaborators.length === 0) return null;
+
+  const inviteToken = req.headers[COLLABORATOR_TOKEN_HEADER];
+  if (typeof inviteToken === 'string') {
+    const tokenHash = hashToken(inviteToken);
+    const match = collaborators.find(c => c.tokenHash === tokenHash);
+    if (match) return match;
+  }
+
+  const user = await getRequestUser(req);
+  return user ? collaborators.find(c => c.email === user.email) || null : null;
+};
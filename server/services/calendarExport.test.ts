@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildItineraryCalendar, parseDurationMinutes, safeUrl } from './calendarExport';
+
+describe('parseDurationMinutes', () => {
+  it.each([
+    ['2 hours', 120],
+    ['1.5 hrs', 90],
+    ['45 min', 45],
+    ['90 minutes', 90],
+    ['1 hour 30 minutes', 90],
+    ['1h 30min', 90],
+    ['2h30m', 120],
+    ['2 hrs 15 mins', 135]
+  ])('reads "%s" as %i minutes', (duration, minutes) => {
+    expect(parseDurationMinutes(duration)).toBe(minutes);
+  });
+
+  it.each([
+    ['2-3 hours', 180],
+    ['2 to 3 hours', 180],
+    ['1–2h', 120],
+    ['45-60 min', 60]
+  ])('reads the range "%s" as its upper end, %i minutes', (duration, minutes) => {
+    expect(parseDurationMinutes(duration)).toBe(minutes);
+  });
+
+  it('handles whole and half days', () => {
+    expect(parseDurationMinutes('Full day')).toBe(480);
+    expect(parseDurationMinutes('Half-day tour')).toBe(240);
+  });
+
+  it('falls back to 90 minutes when there is nothing to read', () => {
+    expect(parseDurationMinutes('')).toBe(90);
+    expect(parseDurationMinutes('A while')).toBe(90);
+    expect(parseDurationMinutes('3 stops')).toBe(90);
+  });
+});
+
+describe('buildItineraryCalendar', () => {
+  const plan = (activity: any) => ({
+    destination: 'Lisbon',
+    days: [{ dayNumber: 1, date: '01/05/2026', morning: [activity], afternoon: [], evening: [] }]
+  });
+  const build = (activity: any) => buildItineraryCalendar(plan(activity), 'trip-1', new Date('2026-01-01T00:00:00Z'));
+
+  it('ends an event after its mixed-unit duration', () => {
+    const ics = build({ name: 'Castle', duration: '1 hour 30 minutes' });
+    expect(ics).toContain('DTSTART:20260501T090000');
+    expect(ics).toContain('DTEND:20260501T103000');
+  });
+
+  it('keeps a website with line breaks on one escaped line', () => {
+    const ics = build({ name: 'Castle', website: 'https://a.com/x\r\nBEGIN:VEVENT\r\nSUMMARY:evil' });
+    const lines = ics.split('\r\n');
+    expect(lines.filter(line => line === 'BEGIN:VEVENT')).toHaveLength(1);
+    expect(lines).not.toContain('SUMMARY:evil');
+  });
+
+  it('leaves out websites that are not http(s)', () => {
+    expect(build({ name: 'Castle', website: 'javascript:alert(1)' })).not.toContain('URL:');
+  });
+});
+
+describe('safeUrl', () => {
+  it('keeps http(s) URLs and drops every other scheme', () => {
+    expect(safeUrl('https://example.com/tickets')).toBe('https://example.com/tickets');
+    expect(safeUrl(' http://example.com ')).toBe('http://example.com/');
+    expect(safeUrl('javascript:alert(1)')).toBeNull();
+    expect(safeUrl('file:///etc/passwd')).toBeNull();
+    expect(safeUrl('not a url')).toBeNull();
+    expect(safeUrl(undefined)).toBeNull();
+  });
+});
@@ -0,0 +1,153 @@
+// iCalendar (RFC 5545) export of an itinerary plan.
+// Times are written as floating local times (no time zone), so an activity at 09:00
+// shows at 09:00 in the destination whatever zone the traveller's calendar is in.
+
+import { ACTIVITY_PERIODS, ActivityPeriod } from '../../types';
+
+// Minutes after midnight. Also used by the route optimizer to check opening hours.
+export const PERIOD_WINDOWS: Record<ActivityPeriod, { start: number; end: number }> = {
+  morning: { start: 9 * 60, end: 12 * 60 },
+  afternoon: { start: 13 * 60, end: 17 * 60 + 30 },
+  evening: { start: 18 * 60 + 30, end: 22 * 60 }
+};
+
+const DEFAULT_DURATION_MINUTES = 90;
+const GAP_MINUTES = 15;
+
+// A number or a range ("2-3", "2 to 3") followed by an hours or minutes unit; ranges count as their upper end
+const HOURS_PATTERN = /(\d+(?:\.\d+)?)(?:\s*(?:-|–|to)\s*(\d+(?:\.\d+)?))?\s*h(?:ours?|rs?)?(?![a-z])/;
+const MINUTES_PATTERN = /(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*min/;
+
+const upperEnd = (match: RegExpMatchArray | null) => (match ? parseFloat(match[2] ?? match[1]) : 0);
+
+// Best-effort read of the model's free-text durations: "2 hours", "1.5 hrs", "45 min", "1 hour 30 minutes",
+// "1h 30min", "2-3 hours", "Half day". Hours and minutes are read separately and added up.
+export const parseDurationMinutes = (duration?: string): number => {
+  const text = (duration || '').toLowerCase();
+  if (text.includes('full day') || text.includes('all day')) return 8 * 60;
+  if (text.includes('half day') || text.includes('half-day')) return 4 * 60;
+
+  const minutes = Math.round(upperEnd(text.match(HOURS_PATTERN)) * 60 + upperEnd(text.match(MINUTES_PATTERN)));
+  return minutes > 0 ? minutes : DEFAULT_DURATION_MINUTES;
+};
+
+// DayPlan dates are DD/MM/YYYY; ISO dates are accepted too
+export const parseDayDate = (date?: string): { year: number; month: number; day: number } | null => {
+  const dmy = (date || '').match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (dmy) return { year: +dmy[3], month: +dmy[2], day: +dmy[1] };
+  const iso = (date || '').match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return { year: +iso[1], month: +iso[2], day: +iso[3] };
+  return null;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+const formatDate = (d: { year: number; month: number; day: number }) => `${d.year}${pad(d.month)}${pad(d.day)}`;
+
+// Floating date-time; minutes past 24:00 roll over into the next day
+const formatDateTime = (d: { year: number; month: number; day: number }, minutes: number) => {
+  const date = new Date(Date.UTC(d.year, d.month - 1, d.day, 0, minutes));
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}00`;
+};
+
+const formatStamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r\n|\r|\n/g, '\\n');
+
+// Websites can be edited by the trip's owner, so only a well-formed http(s) URL makes it into an export
+// (the PDF export links them too)
+export const safeUrl = (value: any): string | null => {
+  if (typeof value !== 'string') return null;
+  try {
+    const url = new URL(value.replace(/[\r\n]/g, '').trim());
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.href : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space
+const foldLine = (line: string) => {
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    const limit = parts.length === 0 ? 75 : 74;
+    if (Buffer.byteLength(current + char) > limit) {
+      parts.push(current);
+      current = char;
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+};
+
+const activityEvent = (activity: any, uid: string, start: string, end: string, stamp: string) => {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${start}`,
+    `DTEND:${end}`,
+    `SUMMARY:${escapeText(`${activity.emoji ? `${activity.emoji} ` : ''}${activity.name}`)}`
+  ];
+  const details = [activity.description, activity.openingHours && `Hours: ${activity.openingHours}`, activity.admissionFee && `Tickets: ${activity.admissionFee}`]
+    .filter(Boolean).join('\n');
+  if (details) lines.push(`DESCRIPTION:${escapeText(details)}`);
+  if (activity.mapsQuery) lines.push(`LOCATION:${escapeText(activity.mapsQuery)}`);
+  if (typeof activity.latitude === 'number' && typeof activity.longitude === 'number') {
+    lines.push(`GEO:${activity.latitude};${activity.longitude}`);
+  }
+  const website = safeUrl(activity.website);
+  if (website) lines.push(`URL:${escapeText(website)}`);
+  lines.push('END:VEVENT');
+  return lines;
+};
+
+// Builds the .ics file for a plan. Pass the plan the caller may see (locked days already removed).
+export const buildItineraryCalendar = (plan: any, itineraryId: string, now = new Date()): string => {
+  const stamp = formatStamp(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Trip Daddy//Itinerary//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(`Trip to ${plan?.destination || 'your destination'}`)}`
+  ];
+
+  (plan?.days || []).forEach((day: any) => {
+    const date = parseDayDate(day.date);
+    if (!date) return;
+
+    ACTIVITY_PERIODS.forEach(period => {
+      let cursor = PERIOD_WINDOWS[period].start;
+      (day[period] || []).forEach((activity: any, index: number) => {
+        const duration = parseDurationMinutes(activity.duration);
+        const uid = `${itineraryId}-d${day.dayNumber}-${period}-${index}@tripdaddy`;
+        lines.push(...activityEvent(activity, uid, formatDateTime(date, cursor), formatDateTime(date, cursor + duration), stamp));
+        cursor += duration + GAP_MINUTES;
+      });
+    });
+
+    // The day's special event has no set time, so it becomes an all-day entry
+    if (day.highlightEvent?.name) {
+      const next = formatDateTime(date, 24 * 60).slice(0, 8);
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${itineraryId}-d${day.dayNumber}-event@tripdaddy`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART;VALUE=DATE:${formatDate(date)}`,
+        `DTEND;VALUE=DATE:${next}`,
+        `SUMMARY:${escapeText(`✨ ${day.highlightEvent.name}`)}`,
+        ...(day.highlightEvent.description ? [`DESCRIPTION:${escapeText(day.highlightEvent.description)}`] : []),
+        ...(day.highlightEvent.mapsQuery ? [`LOCATION:${escapeText(day.highlightEvent.mapsQuery)}`] : []),
+        'END:VEVENT'
+      );
+    }
+  });
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,71 @@
+// Google Gemini implementation of AiProvider. Models can be overridden with
+// GEMINI_TEXT_MODEL and GEMINI_IMAGE_MODEL.
+
+import { GenerateContentParameters, GoogleGenAI } from "@google/genai";
+import { AiProvider, GroundingTool } from './aiProvider';
+
+export const DEFAULT_TEXT_MODEL = "gemini-2.5-flash";
+export const DEFAULT_IMAGE_MODEL = "gemini-3-pro-image-preview";
+
+const GROUNDING_TOOLS: Record<GroundingTool, any> = {
+  search: { googleSearch: {} },
+  maps: { googleMaps: {} }
+};
+
+export const createGeminiProvider = (): AiProvider => {
+  let client: GoogleGenAI | null = null;
+  const ai = () => {
+    if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY || "" });
+    return client;
+  };
+  const textModel = () => process.env.GEMINI_TEXT_MODEL || DEFAULT_TEXT_MODEL;
+
+  // Streams when the caller wants partial text, otherwise waits for the whole response
+  const complete = async (params: GenerateContentParameters, onText?: (textSoFar: string) => void) => {
+    if (!onText) {
+      const response = await ai().models.generateContent(params);
+      return response.text || "";
+    }
+    let text = "";
+    for await (const chunk of await ai().models.generateContentStream(params)) {
+      text += chunk.text || "";
+      onText(text);
+    }
+    return text;
+  };
+
+  return {
+    name: 'gemini',
+
+    generateText({ prompt, json, onText }) {
+      return complete({
+        model: textModel(),
+        contents: prompt,
+        config: json ? { responseMimeType: "application/json" } : {}
+      }, onText);
+    },
+
+    generateGrounded({ prompt, tool, json, onText }) {
+      return complete({
+        model: textModel(),
+        contents: prompt,
+        config: {
+          tools: [GROUNDING_TOOLS[tool]],
+          ...(json ? { responseMimeType: "application/json" } : {})
+        }
+      }, onText);
+    },
+
+    async generateImage({ prompt, aspectRatio = "16:9" }) {
+      const response = await ai().models.generateContent({
+        model: process.env.GEMINI_IMAGE_MODEL || DEFAULT_IMAGE_MODEL,
+        contents: prompt,
+        config: { imageConfig: { aspectRatio, imageSize: "1K" } }
+      });
+      for (const part of response.candidates?.[0]?.content?.parts || []) {
+        if (part.inlineData) return `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}`;
+      }
+      return null;
+    }
+  };
+};
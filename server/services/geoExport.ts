@@ -0,0 +1,140 @@
+// GeoJSON, KML and GPX exports of an itinerary's activities.
+// Each day becomes one group of waypoints, in the order the day is meant to be walked:
+// morning, afternoon, then evening. Activities without coordinates are skipped.
+
+import { ACTIVITY_PERIODS, ActivityPeriod } from '../../types';
+
+export type GeoFormat = 'geojson' | 'kml' | 'gpx';
+
+export const GEO_CONTENT_TYPES: Record<GeoFormat, string> = {
+  geojson: 'application/geo+json',
+  kml: 'application/vnd.google-earth.kml+xml',
+  gpx: 'application/gpx+xml'
+};
+
+export interface Waypoint {
+  order: number; // 1-based position within the day
+  period: ActivityPeriod;
+  name: string;
+  description: string;
+  latitude: number;
+  longitude: number;
+}
+
+export interface DayRoute {
+  dayNumber: number;
+  date: string;
+  title: string;
+  waypoints: Waypoint[];
+}
+
+const isCoordinate = (lat: any, lng: any) =>
+  typeof lat === 'number' && typeof lng === 'number' &&
+  Math.abs(lat) <= 90 && Math.abs(lng) <= 180 && !(lat === 0 && lng === 0);
+
+export const collectDayRoutes = (plan: any): DayRoute[] =>
+  (plan?.days || []).map((day: any) => {
+    const waypoints: Waypoint[] = [];
+    ACTIVITY_PERIODS.forEach(period => {
+      (day[period] || []).forEach((activity: any) => {
+        if (!isCoordinate(activity.latitude, activity.longitude)) return;
+        waypoints.push({
+          order: waypoints.length + 1,
+          period,
+          name: activity.name || '',
+          description: activity.description || '',
+          latitude: activity.latitude,
+          longitude: activity.longitude
+        });
+      });
+    });
+    return { dayNumber: day.dayNumber, date: day.date || '', title: day.title || '', waypoints };
+  });
+
+const dayLabel = (day: DayRoute) => `Day ${day.dayNumber}${day.title ? `: ${day.title}` : ''}`;
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+export const toGeoJSON = (plan: any): string => {
+  const features: any[] = [];
+  collectDayRoutes(plan).forEach(day => {
+    day.waypoints.forEach(point => {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [point.longitude, point.latitude] },
+        properties: { name: point.name, description: point.description, dayNumber: day.dayNumber, date: day.date, period: point.period, order: point.order }
+      });
+    });
+    if (day.waypoints.length > 1) {
+      features.push({
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates: day.waypoints.map(p => [p.longitude, p.latitude]) },
+        properties: { name: dayLabel(day), dayNumber: day.dayNumber, date: day.date }
+      });
+    }
+  });
+  return JSON.stringify({ type: 'FeatureCollection', name: plan?.destination || 'Itinerary', features }, null, 2);
+};
+
+export const toKML = (plan: any): string => {
+  const folders = collectDayRoutes(plan).filter(day => day.waypoints.length > 0).map(day => {
+    const placemarks = day.waypoints.map(point => `
+      <Placemark>
+        <name>${escapeXml(`${point.order}. ${point.name}`)}</name>
+        <description>${escapeXml(point.description)}</description>
+        <ExtendedData><Data name="period"><value>${point.period}</value></Data></ExtendedData>
+        <Point><coordinates>${point.longitude},${point.latitude}</coordinates></Point>
+      </Placemark>`).join('');
+    const line = day.waypoints.length > 1 ? `
+      <Placemark>
+        <name>${escapeXml(`${dayLabel(day)} route`)}</name>
+        <LineString><tessellate>1</tessellate><coordinates>${day.waypoints.map(p => `${p.longitude},${p.latitude}`).join(' ')}</coordinates></LineString>
+      </Placemark>` : '';
+    return `
+    <Folder>
+      <name>${escapeXml(dayLabel(day))}</name>${day.date ? `
+      <description>${escapeXml(day.date)}</description>` : ''}${placemarks}${line}
+    </Folder>`;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2">
+  <Document>
+    <name>${escapeXml(plan?.destination || 'Itinerary')}</name>${folders}
+  </Document>
+</kml>
+`;
+};
+
+// Waypoints for the pins, plus one route per day so apps keep the visiting order
+export const toGPX = (plan: any): string => {
+  const days = collectDayRoutes(plan).filter(day => day.waypoints.length > 0);
+  const point = (tag: string, day: DayRoute, p: Waypoint) => `
+  <${tag} lat="${p.latitude}" lon="${p.longitude}">
+    <name>${escapeXml(p.name)}</name>
+    <desc>${escapeXml(p.description)}</desc>
+    <type>${escapeXml(`Day ${day.dayNumber} ${p.period}`)}</type>
+  </${tag}>`;
+
+  const waypoints = days.map(day => day.waypoints.map(p => point('wpt', day, p)).join('')).join('');
+  const routes = days.map(day => `
+  <rte>
+    <name>${escapeXml(dayLabel(day))}</name>
+    <number>${day.dayNumber}</number>${day.waypoints.map(p => point('rtept', day, p).replace(/\n/g, '\n  ')).join('')}
+  </rte>`).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<gpx version="1.1" creator="Trip Daddy" xmlns="http://www.topografix.com/GPX/1/1">
+  <metadata><name>${escapeXml(plan?.destination || 'Itinerary')}</name></metadata>${waypoints}${routes}
+</gpx>
+`;
+};
+
+export const renderGeoExport = (plan: any, format: GeoFormat): string => {
+  switch (format) {
+    case 'geojson': return toGeoJSON(plan);
+    case 'kml': return toKML(plan);
+    case 'gpx': return toGPX(plan);
+  }
+};
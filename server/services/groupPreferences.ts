@@ -0,0 +1,90 @@
+// Merges every traveller's swipes on a shared question deck into the single
+// `followUpAnswers` map that generation expects.
+//
+// Strategies:
+//   "majority" - yes when more travellers said yes than no (ties are a no)
+//   "veto"     - yes only when nobody said no
+//   "weighted" - like majority, but each traveller's vote counts by their weight (default 1)
+
+import { MergeStrategy } from '../../types';
+import { MAX_WEIGHT } from '../../validation';
+
+export const DECK_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface DeckResponse {
+  id: string;
+  name: string;
+  answers: Record<string, boolean>;
+}
+
+export interface Disagreement {
+  questionId: string;
+  title: string;
+  emoji?: string;
+  yes: string[]; // traveller names
+  no: string[];
+  result: boolean;
+}
+
+export interface DeckMerge {
+  strategy: MergeStrategy;
+  answers: Record<string, boolean>;
+  responses: { id: string; name: string; weight: number }[];
+  disagreements: Disagreement[];
+}
+
+const weightOf = (weights: Record<string, number>, id: string) => {
+  const weight = Number(weights[id]);
+  return Number.isFinite(weight) && weight >= 0 ? Math.min(weight, MAX_WEIGHT) : 1;
+};
+
+export const mergeDeckResponses = (
+  questions: any[],
+  responses: DeckResponse[],
+  strategy: MergeStrategy,
+  weights: Record<string, number> = {}
+): DeckMerge => {
+  const answers: Record<string, boolean> = {};
+  const disagreements: Disagreement[] = [];
+
+  questions.forEach(q => {
+    const voters = responses.filter(r => typeof r.answers[q.id] === 'boolean');
+    if (voters.length === 0) return;
+
+    const yes = voters.filter(r => r.answers[q.id]);
+    const no = voters.filter(r => !r.answers[q.id]);
+
+    let result: boolean;
+    switch (strategy) {
+      case 'veto':
+        result = no.length === 0;
+        break;
+      case 'weighted': {
+        const sum = (list: DeckResponse[]) => list.reduce((total, r) => total + weightOf(weights, r.id), 0);
+        result = sum(yes) > sum(no);
+        break;
+      }
+      default:
+        result = yes.length > no.length;
+    }
+    answers[q.id] = result;
+
+    if (yes.length > 0 && no.length > 0) {
+      disagreements.push({
+        questionId: q.id,
+        title: q.title,
+        emoji: q.emoji,
+        yes: yes.map(r => r.name),
+        no: no.map(r => r.name),
+        result
+      });
+    }
+  });
+
+  return {
+    strategy,
+    answers,
+    responses: responses.map(r => ({ id: r.id, name: r.name, weight: strategy === 'weighted' ? weightOf(weights, r.id) : 1 })),
+    disagreements
+  };
+};
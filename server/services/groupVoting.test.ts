@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { moveActivityFeedback, tallyFeedback } from './groupVoting';
+
+describe('moveActivityFeedback', () => {
+  it('re-keys votes and proposals for activities that moved to another day', () => {
+    const far = { name: 'Far' };
+    const stray = { name: 'Stray' };
+    const stays = { name: 'Stays' };
+    const before = { days: [{ dayNumber: 1, morning: [far, stays] }, { dayNumber: 2, morning: [stray] }] };
+    // A copy, as after an undo: activities are matched by name
+    const after = JSON.parse(JSON.stringify({ days: [{ dayNumber: 1, morning: [stray, stays] }, { dayNumber: 2, morning: [far] }] }));
+    const itinerary = {
+      votes: [
+        { dayNumber: 1, period: 'morning', activityName: 'Far', voter: 'a', value: -1 },
+        { dayNumber: 1, period: 'morning', activityName: 'Stays', voter: 'a', value: 1 }
+      ],
+      proposals: [{ dayNumber: 2, period: 'morning', activityName: 'Stray', voter: 'b', suggestion: 'x' }]
+    };
+
+    moveActivityFeedback(itinerary, before, after);
+
+    const tally = tallyFeedback(itinerary, after, 'a');
+    expect(tally.map(f => [f.dayNumber, f.activityName])).toEqual([[1, 'Stray'], [1, 'Stays'], [2, 'Far']]);
+    expect(tally.find(f => f.activityName === 'Far')?.net).toBe(-1);
+  });
+
+  it('leaves feedback alone when the name is on several days', () => {
+    const before = { days: [{ dayNumber: 1, morning: [{ name: 'Market' }] }, { dayNumber: 2, morning: [] }] };
+    const after = { days: [{ dayNumber: 1, morning: [] }, { dayNumber: 2, morning: [{ name: 'Market' }] }, { dayNumber: 3, morning: [{ name: 'Market' }] }] };
+    const itinerary = { votes: [{ dayNumber: 1, period: 'morning', activityName: 'Market', voter: 'a', value: 1 }], proposals: [] };
+
+    moveActivityFeedback(itinerary, before, after);
+    expect(itinerary.votes[0].dayNumber).toBe(1);
+  });
+});
@@ -0,0 +1,127 @@
+// Group trips: collaborators invited by the owner vote activities up or down and
+// suggest replacements. Feedback is keyed by day, period and activity name; it is kept
+// when the activity is replaced or removed, so an undo brings it back.
+
+import { ACTIVITY_PERIODS } from '../../types';
+import { ActivityRef } from '../../validation';
+import { createToken, hashToken } from './auth';
+
+export const MAX_COLLABORATORS = 20;
+
+// Voter name used for the owner's own votes
+export const OWNER_VOTER = 'owner';
+
+export interface ActivityFeedback extends ActivityRef {
+  up: number;
+  down: number;
+  net: number;
+  myVote: number; // 1, -1 or 0 for the requesting voter
+  proposals: { voter: string; suggestion: string; createdAt: Date }[];
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export const normalizeEmail = (email: any) =>
+  typeof email === 'string' && EMAIL_PATTERN.test(email.trim()) ? email.trim().toLowerCase() : null;
+
+export const listCollaborators = (itinerary: any) =>
+  (itinerary.collaborators || []).map((c: any) => ({ email: c.email, invitedAt: c.invitedAt }));
+
+// Adds (or re-invites) a collaborator and returns their raw invite token.
+// Re-inviting issues a new token, so an old invite email stops working.
+export const inviteCollaborator = (itinerary: any, email: string): { token?: string; error?: string } => {
+  const token = createToken();
+  const hash = hashToken(token);
+  const existing = itinerary.collaborators.find((c: any) => c.email === email);
+  if (existing) {
+    existing.tokenHash = hash;
+    existing.invitedAt = new Date();
+    return { token };
+  }
+  if (itinerary.collaborators.length >= MAX_COLLABORATORS) {
+    return { error: `A trip can have at most ${MAX_COLLABORATORS} collaborators` };
+  }
+  itinerary.collaborators.push({ email, tokenHash: hash, invitedAt: new Date() });
+  return { token };
+};
+
+// Removes a collaborator along with their votes and proposals
+export const removeCollaborator = (itinerary: any, email: string) => {
+  const before = itinerary.collaborators.length;
+  itinerary.collaborators = itinerary.collaborators.filter((c: any) => c.email !== email);
+  itinerary.votes = itinerary.votes.filter((v: any) => v.voter !== email);
+  itinerary.proposals = itinerary.proposals.filter((p: any) => p.voter !== email);
+  return itinerary.collaborators.length !== before;
+};
+
+// Whether the plan (as the voter can see it) contains the referenced activity
+export const hasActivity = (plan: any, ref: ActivityRef) => {
+  const day = (plan?.days || []).find((d: any) => d.dayNumber === ref.dayNumber);
+  return (day?.[ref.period] || []).some((a: any) => a.name === ref.activityName);
+};
+
+const sameActivity = (entry: any, ref: ActivityRef) =>
+  entry.dayNumber === ref.dayNumber && entry.period === ref.period && entry.activityName === ref.activityName;
+
+// Records a voter's thumbs up (1) or down (-1); 0 withdraws their vote
+export const castVote = (itinerary: any, voter: string, ref: ActivityRef, value: number) => {
+  itinerary.votes = itinerary.votes.filter((v: any) => !(v.voter === voter && sameActivity(v, ref)));
+  if (value !== 0) itinerary.votes.push({ ...ref, voter, value, updatedAt: new Date() });
+};
+
+export const addProposal = (itinerary: any, voter: string, ref: ActivityRef, suggestion: string) => {
+  itinerary.proposals.push({ ...ref, voter, suggestion, createdAt: new Date() });
+};
+
+// Days of `plan` that have an activity with this name in this period
+const daysWith = (plan: any, period: string, name: string): number[] =>
+  (plan?.days || []).filter((day: any) => (day[period] || []).some((a: any) => a.name === name)).map((day: any) => day.dayNumber);
+
+// Re-keys votes and proposals for activities that now sit on another day: after the route optimiser
+// swapped them between days, or an undo swapped them back. Activities are matched by period and name,
+// and only when the name is on exactly one day of the new plan.
+export const moveActivityFeedback = (itinerary: any, before: any, after: any) => {
+  const moves: { ref: ActivityRef; dayNumber: number }[] = [];
+  (before?.days || []).forEach((day: any) => ACTIVITY_PERIODS.forEach(period => (day[period] || []).forEach((activity: any) => {
+    const days = daysWith(after, period, activity.name);
+    if (days.length === 1 && days[0] !== day.dayNumber) {
+      moves.push({ ref: { dayNumber: day.dayNumber, period, activityName: activity.name }, dayNumber: days[0] });
+    }
+  })));
+  if (moves.length === 0) return;
+
+  [...(itinerary.votes || []), ...(itinerary.proposals || [])].forEach((entry: any) => {
+    const move = moves.find(m => sameActivity(entry, m.ref));
+    if (move) entry.dayNumber = move.dayNumber;
+  });
+};
+
+// Per-activity tallies for every activity in `plan` that has feedback.
+// Pass the plan the voter is allowed to see so locked activities never show up.
+export const tallyFeedback = (itinerary: any, plan: any, voter: string): ActivityFeedback[] => {
+  const feedback: ActivityFeedback[] = [];
+
+  (plan?.days || []).forEach((day: any) => {
+    ACTIVITY_PERIODS.forEach(period => {
+      (day[period] || []).forEach((activity: any) => {
+        const ref: ActivityRef = { dayNumber: day.dayNumber, period, activityName: activity.name };
+        const votes = (itinerary.votes || []).filter((v: any) => sameActivity(v, ref));
+        const proposals = (itinerary.proposals || []).filter((p: any) => sameActivity(p, ref));
+        if (votes.length === 0 && proposals.length === 0) return;
+
+        const up = votes.filter((v: any) => v.value > 0).length;
+        const down = votes.filter((v: any) => v.value < 0).length;
+        feedback.push({
+          ...ref,
+          up,
+          down,
+          net: up - down,
+          myVote: votes.find((v: any) => v.voter === voter)?.value || 0,
+          proposals: proposals.map((p: any) => ({ voter: p.voter, suggestion: p.suggestion, createdAt: p.createdAt }))
+        });
+      });
+    });
+  });
+
+  return feedback;
+};
@@ -0,0 +1,78 @@
+// Where the traveller sleeps each night. The hotel from the first step covers the trip from
+// its start date; `prefs.hotelStays` adds later check-ins for multi-stay trips. Each stay is
+// geocoded once at generation and stored on the itinerary, and every day of the plan gets
+// a copy of its stay as `day.hotel`, which routing treats as the day's start and end point.
+
+import { parseDayDate } from './calendarExport';
+import { GeoPoint, hasCoordinates } from './routeOptimizer';
+
+export interface HotelStay {
+  name: string;
+  startDate: string; // YYYY-MM-DD check-in; the stay lasts until the next check-in
+  latitude?: number;
+  longitude?: number;
+}
+
+export const MAX_HOTEL_STAYS = 10;
+
+const isIsoDate = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+// Stays from the trip preferences, ordered by check-in
+export const hotelStaysFromPrefs = (prefs: any): HotelStay[] => {
+  const stays: HotelStay[] = [];
+  const base = typeof prefs?.hotelLocation === 'string' ? prefs.hotelLocation.trim() : '';
+  if (base) stays.push({ name: base, startDate: isIsoDate(prefs.startDate) ? prefs.startDate : '' });
+
+  (Array.isArray(prefs?.hotelStays) ? prefs.hotelStays : []).slice(0, MAX_HOTEL_STAYS).forEach((stay: any) => {
+    const name = typeof stay?.name === 'string' ? stay.name.trim() : '';
+    if (name && isIsoDate(stay.startDate)) stays.push({ name, startDate: stay.startDate });
+  });
+
+  return stays.sort((a, b) => a.startDate.localeCompare(b.startDate));
+};
+
+// Geocodes each distinct hotel name once; stays that can't be found keep just their name
+export const locateHotels = async (
+  stays: HotelStay[],
+  geocode: (name: string) => Promise<GeoPoint | null>
+): Promise<HotelStay[]> => {
+  const found: Record<string, GeoPoint | null> = {};
+  for (const stay of stays) {
+    if (!(stay.name in found)) found[stay.name] = await geocode(stay.name);
+  }
+  return stays.map(stay => {
+    const point = found[stay.name];
+    return hasCoordinates(point) ? { ...stay, latitude: point.latitude, longitude: point.longitude } : stay;
+  });
+};
+
+// The stay covering a YYYY-MM-DD night: the latest check-in on or before it, else the first stay
+export const hotelForDate = (hotels: HotelStay[], isoDate: string): HotelStay | null => {
+  if (hotels.length === 0) return null;
+  const current = [...hotels].reverse().find(stay => stay.startDate && stay.startDate <= isoDate);
+  return current || hotels[0];
+};
+
+const toIsoDate = (date?: string) => {
+  const parsed = parseDayDate(date);
+  if (!parsed) return '';
+  return `${parsed.year}-${String(parsed.month).padStart(2, '0')}-${String(parsed.day).padStart(2, '0')}`;
+};
+
+// Returns a copy of the plan with each day's `hotel` set from the stays
+export const assignHotels = (plan: any, hotels: HotelStay[]): any => {
+  if (!plan || !Array.isArray(plan.days) || hotels.length === 0) return plan;
+  return {
+    ...plan,
+    days: plan.days.map((day: any) => {
+      const stay = hotelForDate(hotels, toIsoDate(day.date));
+      if (!stay) return day;
+      const hotel: any = { name: stay.name };
+      if (hasCoordinates(stay)) {
+        hotel.latitude = stay.latitude;
+        hotel.longitude = stay.longitude;
+      }
+      return { ...day, hotel };
+    })
+  };
+};
@@ -0,0 +1,104 @@
+// Pure helpers for mutating a stored itinerary plan.
+// Routes load the plan, apply an edit here, and persist the returned copy.
+
+import { ACTIVITY_PERIODS, ActivityPeriod } from '../../types';
+
+export type ActivityEdit =
+  | { op: 'replace'; dayNumber: number; period: ActivityPeriod; index: number; activity: any }
+  | { op: 'delete'; dayNumber: number; period: ActivityPeriod; index: number }
+  | { op: 'insert'; dayNumber: number; period: ActivityPeriod; index?: number; activity: any }
+  | { op: 'reorder'; dayNumber: number; period: ActivityPeriod; fromIndex: number; toIndex: number };
+
+// Exactly one of `plan` or `error` is set
+export interface EditResult {
+  plan?: any;
+  error?: string;
+}
+
+const isIndex = (value: any): value is number => Number.isInteger(value) && value >= 0;
+
+const isActivity = (value: any) =>
+  !!value && typeof value === 'object' && typeof value.name === 'string' && value.name.trim().length > 0;
+
+// Checks the shape of an incoming edit before it touches the plan.
+export const parseActivityEdit = (body: any): ActivityEdit | null => {
+  if (!body || typeof body !== 'object') return null;
+  const { op, dayNumber, period } = body;
+  if (!Number.isInteger(dayNumber) || !ACTIVITY_PERIODS.includes(period)) return null;
+
+  switch (op) {
+    case 'replace':
+      if (!isIndex(body.index) || !isActivity(body.activity)) return null;
+      return { op, dayNumber, period, index: body.index, activity: body.activity };
+    case 'delete':
+      if (!isIndex(body.index)) return null;
+      return { op, dayNumber, period, index: body.index };
+    case 'insert':
+      if (body.index !== undefined && !isIndex(body.index)) return null;
+      if (!isActivity(body.activity)) return null;
+      return { op, dayNumber, period, index: body.index, activity: body.activity };
+    case 'reorder':
+      if (!isIndex(body.fromIndex) || !isIndex(body.toIndex)) return null;
+      return { op, dayNumber, period, fromIndex: body.fromIndex, toIndex: body.toIndex };
+    default:
+      return null;
+  }
+};
+
+// Applies a single edit and returns a new plan; the input plan is never mutated.
+export const applyActivityEdit = (plan: any, edit: ActivityEdit): EditResult => {
+  if (!plan || !Array.isArray(plan.days)) return { error: 'Itinerary has no days' };
+
+  const dayIndex = plan.days.findIndex((d: any) => d.dayNumber === edit.dayNumber);
+  if (dayIndex === -1) return { error: `Day ${edit.dayNumber} not found` };
+
+  const day = plan.days[dayIndex];
+  const list: any[] = Array.isArray(day[edit.period]) ? [...day[edit.period]] : [];
+
+  switch (edit.op) {
+    case 'replace':
+      if (edit.index >= list.length) return { error: 'Activity index out of range' };
+      list[edit.index] = edit.activity;
+      break;
+    case 'delete':
+      if (edit.index >= list.length) return { error: 'Activity index out of range' };
+      list.splice(edit.index, 1);
+      break;
+    case 'insert': {
+      const at = edit.index === undefined ? list.length : edit.index;
+      if (at > list.length) return { error: 'Activity index out of range' };
+      list.splice(at, 0, edit.activity);
+      break;
+    }
+    case 'reorder': {
+      if (edit.fromIndex >= list.length || edit.toIndex >= list.length) {
+        return { error: 'Activity index out of range' };
+      }
+      const [moved] = list.splice(edit.fromIndex, 1);
+      list.splice(edit.toIndex, 0, moved);
+      break;
+    }
+  }
+
+  const days = [...plan.days];
+  days[dayIndex] = { ...day, [edit.period]: list };
+  return { plan: { ...plan, days } };
+};
+
+// Human-readable summary of an edit, computed against the plan before it was applied
+export const describeActivityEdit = (plan: any, edit: ActivityEdit): string => {
+  const day = (plan?.days || []).find((d: any) => d.dayNumber === edit.dayNumber);
+  const list: any[] = day?.[edit.period] || [];
+  const where = `Day ${edit.dayNumber} ${edit.period}`;
+
+  switch (edit.op) {
+    case 'replace':
+      return `Replaced "${list[edit.index]?.name}" with "${edit.activity.name}" (${where})`;
+    case 'delete':
+      return `Removed "${list[edit.index]?.name}" (${where})`;
+    case 'insert':
+      return `Added "${edit.activity.name}" (${where})`;
+    case 'reorder':
+      return `Moved "${list[edit.fromIndex]?.name}" to position ${edit.toIndex + 1} (${where})`;
+  }
+};
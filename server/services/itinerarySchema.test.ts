@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { daysInRange, repairActivity, repairItinerary, repairQuestions } from './itinerarySchema';
+
+const range = { destination: 'Lisbon', startDate: '2026-05-01', endDate: '2026-05-02' };
+const day = (dayNumber: any, morning: any[] = [{ name: 'Belém Tower' }]) => ({ dayNumber, title: 'Day', morning });
+
+describe('daysInRange', () => {
+  it('counts both ends of the range', () => {
+    expect(daysInRange(range)).toBe(2);
+    expect(daysInRange({ startDate: '2026-05-02', endDate: '2026-05-01' })).toBeNull();
+    expect(daysInRange({})).toBeNull();
+  });
+});
+
+describe('repairActivity', () => {
+  it('coerces numbers and fills in defaults', () => {
+    const activity = repairActivity({ name: ' Fado night ', type: 'concert', rating: '4.65/5', latitude: '38.71', longitude: -9.14, priceLevel: '€€' }, 'a', 'Lisbon');
+    expect(activity).toMatchObject({
+      name: 'Fado night',
+      type: 'event',
+      rating: 4.7,
+      latitude: 38.71,
+      priceLevel: '$$',
+      mapsQuery: 'Fado night, Lisbon',
+      emoji: '📍',
+      description: ''
+    });
+  });
+
+  it('drops activities without a name and out-of-range values', () => {
+    expect(repairActivity({ description: 'No name' }, 'a')).toBeNull();
+    const activity = repairActivity({ name: 'Castle', rating: 9, latitude: 120, longitude: 0 }, 'a');
+    expect(activity).not.toHaveProperty('rating');
+    expect(activity).not.toHaveProperty('latitude');
+  });
+});
+
+describe('repairItinerary', () => {
+  it('renumbers and dates days from the requested range, and defaults empty periods', () => {
+    const { value, repairs, issues } = repairItinerary({ days: [day('1'), day(7)] }, range);
+    expect(issues).toEqual([]);
+    expect(value.days.map((d: any) => [d.dayNumber, d.date])).toEqual([[1, '01/05/2026'], [2, '02/05/2026']]);
+    expect(value.days[0].afternoon).toEqual([]);
+    expect(repairs).toContain('days[1].dayNumber: 7 renumbered to 2');
+  });
+
+  it('trims extra days', () => {
+    const { value, issues } = repairItinerary({ days: [day(1), day(2), day(3)] }, range);
+    expect(issues).toEqual([]);
+    expect(value.days).toHaveLength(2);
+  });
+
+  it('reports what it cannot repair', () => {
+    expect(repairItinerary({ days: [day(1)] }, range).issues).toEqual([{ path: 'days', message: 'expected 2 days but got 1' }]);
+    expect(repairItinerary({ days: [day(1), day(2, [])] }, range).issues).toEqual([{ path: 'days[1]', message: 'has no activities' }]);
+    expect(repairItinerary({ plan: [] }, range).value).toBeNull();
+  });
+});
+
+describe('repairQuestions', () => {
+  it('derives missing ids and drops duplicates and untitled questions', () => {
+    const { value } = repairQuestions([{ title: 'Wine Tasting' }, { id: 'wine_tasting', title: 'Again' }, { id: 'x' }]);
+    expect(value).toEqual([{ id: 'wine_tasting', title: 'Wine Tasting', emoji: '✨', description: '' }]);
+  });
+});
@@ -0,0 +1,268 @@
+// Runtime schema for what the model returns, mirroring Itinerary / DayPlan / Activity and
+// SmartQuestion in types.ts. The repair functions fix what they safely can (coercing
+// numbers, defaulting empty periods, renumbering days and dating them from the requested
+// range) and report what they can't, so callers can store a clean plan or ask the model again.
+
+import { ACTIVITY_PERIODS, ACTIVITY_TYPES } from '../../types';
+
+export const PRICE_LEVELS = ['$', '$$', '$$$', '$$$$', 'Free'];
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+// `value` is null only when nothing usable could be recovered
+export interface RepairResult<T> {
+  value: T | null;
+  repairs: string[];
+  issues: SchemaIssue[];
+}
+
+// The trip the itinerary was requested for; dates are YYYY-MM-DD
+export interface ItineraryRange {
+  destination?: string;
+  startDate?: string;
+  endDate?: string;
+}
+
+const TEXT_FIELDS = ['description', 'duration', 'emoji', 'mapsQuery', 'category', 'openingHours', 'admissionFee', 'website', 'placeId'];
+const FLAG_FIELDS = ['isLocalRecommendation', 'isMichelin', 'isPopular', 'isFixedPlan'];
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const toText = (value: any): string | undefined => {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return undefined;
+};
+
+// 4.5, "4.5" and "4.5/5" all read as 4.5
+const toNumber = (value: any): number | undefined => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+  const match = typeof value === 'string' ? value.match(/-?\d+(\.\d+)?/) : null;
+  return match ? parseFloat(match[0]) : undefined;
+};
+
+const toStringList = (value: any): string[] =>
+  Array.isArray(value) ? value.map(toText).filter((v): v is string => !!v) : [];
+
+const guessActivityType = (activity: any) => {
+  const text = `${activity.type || ''} ${activity.category || ''}`.toLowerCase();
+  if (/restaurant|food|dining|cafe|café|bar|eat|brunch|lunch|dinner/.test(text)) return 'restaurant';
+  if (/event|festival|concert|show|match|market/.test(text)) return 'event';
+  if (/local|hidden|gem/.test(text)) return 'local-gem';
+  return 'attraction';
+};
+
+// "€€" or "££" read as "$$"; anything else unrecognisable is dropped
+const toPriceLevel = (value: any): string | undefined => {
+  const text = toText(value);
+  if (!text) return undefined;
+  if (PRICE_LEVELS.includes(text)) return text;
+  if (/^free$/i.test(text)) return 'Free';
+  const symbols = text.match(/[$€£¥₩₹]/g);
+  return symbols && symbols.length <= 4 ? '$'.repeat(symbols.length) : undefined;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// YYYY-MM-DD plus `days`, as the DD/MM/YYYY a DayPlan uses
+const dayDateFrom = (isoStart: string, days: number) => {
+  const [year, month, day] = isoStart.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + days));
+  return `${pad(date.getUTCDate())}/${pad(date.getUTCMonth() + 1)}/${date.getUTCFullYear()}`;
+};
+
+// Days from startDate to endDate inclusive, or null without a valid range
+export const daysInRange = (range: ItineraryRange) => {
+  const isIso = (v?: string) => !!v && /^\d{4}-\d{2}-\d{2}$/.test(v);
+  if (!isIso(range.startDate) || !isIso(range.endDate)) return null;
+  const ms = Date.parse(`${range.endDate}T00:00:00Z`) - Date.parse(`${range.startDate}T00:00:00Z`);
+  return ms >= 0 ? Math.round(ms / 86400000) + 1 : null;
+};
+
+export const repairActivity = (value: any, path: string, destination = '', repairs: string[] = []): any | null => {
+  if (!isObject(value)) {
+    repairs.push(`${path}: dropped, not an object`);
+    return null;
+  }
+  const name = toText(value.name);
+  if (!name) {
+    repairs.push(`${path}: dropped, no name`);
+    return null;
+  }
+
+  const activity: any = { ...value, name };
+
+  TEXT_FIELDS.forEach(field => {
+    if (!(field in value)) return;
+    const text = toText(value[field]);
+    if (text === undefined) {
+      delete activity[field];
+      repairs.push(`${path}.${field}: removed, not text`);
+    } else {
+      activity[field] = text;
+    }
+  });
+  if (activity.description === undefined) activity.description = '';
+  if (activity.duration === undefined) activity.duration = '';
+  if (!activity.emoji) activity.emoji = '📍';
+  if (!activity.mapsQuery) {
+    activity.mapsQuery = destination ? `${name}, ${destination}` : name;
+    repairs.push(`${path}.mapsQuery: defaulted`);
+  }
+
+  if (!ACTIVITY_TYPES.includes(activity.type)) {
+    activity.type = guessActivityType(value);
+    repairs.push(`${path}.type: "${value.type ?? ''}" replaced with "${activity.type}"`);
+  }
+
+  if ('rating' in value) {
+    const rating = toNumber(value.rating);
+    if (rating === undefined || rating < 0 || rating > 5) {
+      delete activity.rating;
+      repairs.push(`${path}.rating: removed, not a 0-5 number`);
+    } else {
+      activity.rating = Math.round(rating * 10) / 10;
+    }
+  }
+
+  if ('priceLevel' in value) {
+    const level = toPriceLevel(value.priceLevel);
+    if (level === undefined) delete activity.priceLevel; else activity.priceLevel = level;
+    if (level !== value.priceLevel) repairs.push(`${path}.priceLevel: normalised`);
+  }
+
+  if ('latitude' in value || 'longitude' in value) {
+    const latitude = toNumber(value.latitude);
+    const longitude = toNumber(value.longitude);
+    if (latitude === undefined || longitude === undefined || Math.abs(latitude) > 90 || Math.abs(longitude) > 180) {
+      delete activity.latitude;
+      delete activity.longitude;
+      repairs.push(`${path}: removed invalid coordinates`);
+    } else {
+      activity.latitude = latitude;
+      activity.longitude = longitude;
+    }
+  }
+
+  FLAG_FIELDS.forEach(field => {
+    if (field in value && typeof value[field] !== 'boolean') activity[field] = value[field] === 'true' || value[field] === 1;
+  });
+
+  return activity;
+};
+
+const repairDay = (value: any, path: string, destination: string, repairs: string[]): any | null => {
+  if (!isObject(value)) {
+    repairs.push(`${path}: dropped, not an object`);
+    return null;
+  }
+
+  const day: any = {
+    ...value,
+    title: toText(value.title) || '',
+    areaFocus: toText(value.areaFocus) || '',
+    vibe: toText(value.vibe) || '',
+    vibeIcons: toStringList(value.vibeIcons),
+    colors: toStringList(value.colors)
+  };
+
+  ACTIVITY_PERIODS.forEach(period => {
+    if (!Array.isArray(value[period])) {
+      if (value[period] !== undefined) repairs.push(`${path}.${period}: replaced with an empty list`);
+      day[period] = [];
+      return;
+    }
+    day[period] = value[period]
+      .map((activity: any, i: number) => repairActivity(activity, `${path}.${period}[${i}]`, destination, repairs))
+      .filter(Boolean);
+  });
+
+  if ('highlightEvent' in value) {
+    const name = isObject(value.highlightEvent) ? toText(value.highlightEvent.name) : undefined;
+    if (!name) {
+      delete day.highlightEvent;
+      if (value.highlightEvent) repairs.push(`${path}.highlightEvent: removed, no name`);
+    } else {
+      day.highlightEvent = {
+        name,
+        description: toText(value.highlightEvent.description) || '',
+        mapsQuery: toText(value.highlightEvent.mapsQuery) || (destination ? `${name}, ${destination}` : name)
+      };
+    }
+  }
+
+  return day;
+};
+
+export const repairItinerary = (value: any, range: ItineraryRange = {}): RepairResult<any> => {
+  const repairs: string[] = [];
+  const issues: SchemaIssue[] = [];
+
+  if (!isObject(value) || !Array.isArray(value.days)) {
+    return { value: null, repairs, issues: [{ path: 'days', message: 'expected an object with a "days" array' }] };
+  }
+
+  const destination = toText(value.destination) || range.destination || '';
+  let days = value.days
+    .map((day: any, i: number) => repairDay(day, `days[${i}]`, destination, repairs))
+    .filter(Boolean);
+
+  const expected = daysInRange(range);
+  if (expected !== null && days.length > expected) {
+    repairs.push(`days: trimmed ${days.length} days to the ${expected} requested`);
+    days = days.slice(0, expected);
+  }
+  if (expected !== null && days.length < expected) {
+    issues.push({ path: 'days', message: `expected ${expected} days but got ${days.length}` });
+  }
+  if (days.length === 0) issues.push({ path: 'days', message: 'no usable days' });
+
+  days = days.map((day: any, i: number) => {
+    const fixed = { ...day, dayNumber: i + 1 };
+    if (day.dayNumber !== i + 1) repairs.push(`days[${i}].dayNumber: ${JSON.stringify(day.dayNumber)} renumbered to ${i + 1}`);
+    if (range.startDate && expected !== null) {
+      fixed.date = dayDateFrom(range.startDate, i);
+      if (day.date !== fixed.date) repairs.push(`days[${i}].date: set to ${fixed.date}`);
+    } else {
+      fixed.date = toText(day.date) || '';
+    }
+    if (ACTIVITY_PERIODS.every(period => fixed[period].length === 0)) {
+      issues.push({ path: `days[${i}]`, message: 'has no activities' });
+    }
+    return fixed;
+  });
+
+  return { value: { ...value, destination, days }, repairs, issues };
+};
+
+// Smart questions need an id and a title; the id is derived from the title when missing
+export const repairQuestions = (value: any): RepairResult<any[]> => {
+  const repairs: string[] = [];
+  if (!Array.isArray(value)) {
+    return { value: null, repairs, issues: [{ path: '', message: 'expected an array of questions' }] };
+  }
+
+  const seen = new Set<string>();
+  const questions = value.flatMap((q: any, i: number) => {
+    const title = isObject(q) ? toText(q.title) : undefined;
+    if (!title) {
+      repairs.push(`[${i}]: dropped, no title`);
+      return [];
+    }
+    const id = toText(q.id) || title.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+    if (seen.has(id)) {
+      repairs.push(`[${i}]: dropped, duplicate id "${id}"`);
+      return [];
+    }
+    seen.add(id);
+    return [{ id, title, emoji: toText(q.emoji) || '✨', description: toText(q.description) || '' }];
+  });
+
+  return { value: questions, repairs, issues: [] };
+};
+
+export const describeIssues = (issues: SchemaIssue[]) =>
+  issues.map(issue => `${issue.path ? `${issue.path}: ` : ''}${issue.message}`).join('; ');
@@ -0,0 +1,82 @@
+// Canned answers for the mock AI provider. Places are generic enough to read naturally in any
+// destination; the mock gives each one stable coordinates around the destination's centre.
+
+export interface MockPlace {
+  name: string;
+  description: string;
+  emoji: string;
+  category: string;
+  duration: string;
+  priceLevel: string;
+  admissionFee?: string;
+  rating: number;
+  openingHours: string;
+}
+
+// Centres for a few common destinations; anything else gets a stable made-up centre
+export const MOCK_CITY_CENTRES: Record<string, { latitude: number; longitude: number }> = {
+  paris: { latitude: 48.8566, longitude: 2.3522 },
+  london: { latitude: 51.5074, longitude: -0.1278 },
+  rome: { latitude: 41.9028, longitude: 12.4964 },
+  barcelona: { latitude: 41.3874, longitude: 2.1686 },
+  tokyo: { latitude: 35.6762, longitude: 139.6503 },
+  kyoto: { latitude: 35.0116, longitude: 135.7681 },
+  'new york': { latitude: 40.7128, longitude: -74.006 },
+  lisbon: { latitude: 38.7223, longitude: -9.1393 }
+};
+
+export const MOCK_ATTRACTIONS: MockPlace[] = [
+  { name: 'Old Town Walking Tour', description: 'Cobbled lanes, hidden courtyards and the story of the city.', emoji: '🚶', category: 'Culture', duration: '2h', priceLevel: '$', admissionFee: 'Approx $15', rating: 4.7, openingHours: '09:00-17:00' },
+  { name: 'National History Museum', description: 'The city from its founding to today, in twelve galleries.', emoji: '🏛️', category: 'Museum', duration: '2h 30m', priceLevel: '$$', admissionFee: 'Approx $20', rating: 4.6, openingHours: '10:00-18:00' },
+  { name: 'Cathedral Rooftop Climb', description: 'Two hundred steps to the best view over the rooftops.', emoji: '⛪', category: 'Viewpoint', duration: '1h 30m', priceLevel: '$', admissionFee: 'Approx $10', rating: 4.8, openingHours: '09:00-17:30' },
+  { name: 'Botanical Gardens', description: 'Glasshouses, a rose garden and shady benches by the pond.', emoji: '🌿', category: 'Nature', duration: '1h 30m', priceLevel: 'Free', rating: 4.5, openingHours: '08:00-19:00' },
+  { name: 'Modern Art Gallery', description: 'A compact collection with a rotating local artists wing.', emoji: '🎨', category: 'Art', duration: '2h', priceLevel: '$$', admissionFee: 'Approx $18', rating: 4.4, openingHours: '10:00-18:00' },
+  { name: 'Riverside Promenade', description: 'A flat, easy stroll past bridges, boats and street musicians.', emoji: '🌉', category: 'Outdoors', duration: '1h', priceLevel: 'Free', rating: 4.6, openingHours: 'Open 24 hours' },
+  { name: 'Castle Hill', description: 'Ramparts, a small armoury and sunset over the old town.', emoji: '🏰', category: 'History', duration: '2h', priceLevel: '$$', admissionFee: 'Approx $16', rating: 4.7, openingHours: '09:00-18:00' },
+  { name: 'Central Market Hall', description: 'Three floors of produce, spices and snack counters.', emoji: '🧺', category: 'Shopping', duration: '1h 30m', priceLevel: '$', rating: 4.5, openingHours: '07:00-18:00' },
+  { name: 'City Panorama Tower', description: 'Fast lift, open-air deck and a 360° view.', emoji: '🗼', category: 'Viewpoint', duration: '1h', priceLevel: '$$', admissionFee: 'Approx $22', rating: 4.3, openingHours: '09:00-22:00' },
+  { name: 'Harbour Boat Cruise', description: 'An hour on the water with commentary on the old docks.', emoji: '⛴️', category: 'Tour', duration: '1h', priceLevel: '$$', admissionFee: 'Approx $25', rating: 4.5, openingHours: '10:00-18:00' },
+  { name: 'Street Art Trail', description: 'Self-guided murals across the former warehouse district.', emoji: '🖌️', category: 'Culture', duration: '1h 30m', priceLevel: 'Free', rating: 4.4, openingHours: 'Open 24 hours' },
+  { name: 'Science Discovery Centre', description: 'Hands-on exhibits, a planetarium and a kids zone.', emoji: '🔭', category: 'Museum', duration: '2h 30m', priceLevel: '$$', admissionFee: 'Approx $20', rating: 4.6, openingHours: '10:00-17:00' }
+];
+
+export const MOCK_LOCAL_GEMS: MockPlace[] = [
+  { name: 'Corner Bakery on the Square', description: 'Locals queue here for the morning pastries.', emoji: '🥐', category: 'Bakery', duration: '45m', priceLevel: '$', rating: 4.8, openingHours: '07:00-14:00' },
+  { name: 'Vintage Book Arcade', description: 'A covered passage of secondhand book stalls.', emoji: '📚', category: 'Shopping', duration: '1h', priceLevel: 'Free', rating: 4.6, openingHours: '10:00-19:00' },
+  { name: 'Hilltop Monastery Garden', description: 'A quiet walled garden with a view few visitors find.', emoji: '🕊️', category: 'Hidden gem', duration: '1h', priceLevel: 'Free', rating: 4.7, openingHours: '09:00-17:00' },
+  { name: 'Artisan Ceramics Studio', description: 'Watch the potters at work and try the wheel.', emoji: '🏺', category: 'Workshop', duration: '1h 30m', priceLevel: '$$', admissionFee: 'Approx $30', rating: 4.9, openingHours: '10:00-18:00' },
+  { name: 'Canal-side Coffee Roastery', description: 'Single-origin pours on a sunny terrace.', emoji: '☕', category: 'Cafe', duration: '45m', priceLevel: '$', rating: 4.7, openingHours: '08:00-18:00' },
+  { name: 'Neighbourhood Flea Market', description: 'Weekend stalls of furniture, records and curios.', emoji: '🛍️', category: 'Market', duration: '1h 30m', priceLevel: 'Free', rating: 4.5, openingHours: '08:00-16:00' },
+  { name: 'Secret Rooftop Garden', description: 'An urban farm above a car park, open to visitors.', emoji: '🌻', category: 'Hidden gem', duration: '45m', priceLevel: 'Free', rating: 4.6, openingHours: '10:00-19:00' },
+  { name: 'Chocolate Workshop', description: 'A small family chocolatier with tastings.', emoji: '🍫', category: 'Food tour', duration: '1h', priceLevel: '$$', admissionFee: 'Approx $20', rating: 4.8, openingHours: '10:00-18:00' }
+];
+
+export const MOCK_RESTAURANTS: MockPlace[] = [
+  { name: 'The Family Trattoria', description: 'Handmade pasta and a short, honest wine list.', emoji: '🍝', category: 'Dinner', duration: '1h 30m', priceLevel: '$$', rating: 4.6, openingHours: '18:00-23:00' },
+  { name: 'Harbour Fish House', description: 'Catch of the day, grilled whole, by the water.', emoji: '🐟', category: 'Dinner', duration: '1h 30m', priceLevel: '$$$', rating: 4.7, openingHours: '18:00-23:30' },
+  { name: 'Night Market Food Stalls', description: 'Graze your way through a dozen local specialities.', emoji: '🍢', category: 'Street food', duration: '1h 30m', priceLevel: '$', rating: 4.5, openingHours: '17:00-23:00' },
+  { name: 'Garden Bistro', description: 'Seasonal plates under fairy lights.', emoji: '🥗', category: 'Dinner', duration: '1h 30m', priceLevel: '$$', rating: 4.4, openingHours: '18:00-22:30' },
+  { name: 'Chef’s Counter', description: 'A tasting menu at a twelve-seat bar.', emoji: '🍽️', category: 'Fine dining', duration: '2h 30m', priceLevel: '$$$$', rating: 4.9, openingHours: '19:00-23:00' },
+  { name: 'Old Tavern Grill', description: 'Slow-roasted meats and live folk music on Fridays.', emoji: '🍖', category: 'Dinner', duration: '1h 30m', priceLevel: '$$', rating: 4.5, openingHours: '17:30-23:00' },
+  { name: 'Rooftop Tapas Bar', description: 'Small plates and cocktails over the skyline.', emoji: '🍸', category: 'Bar', duration: '1h 30m', priceLevel: '$$$', rating: 4.6, openingHours: '18:00-01:00' },
+  { name: 'Noodle House', description: 'Steaming bowls, quick service, always busy.', emoji: '🍜', category: 'Casual', duration: '1h', priceLevel: '$', rating: 4.4, openingHours: '11:00-22:00' }
+];
+
+export const MOCK_QUESTIONS = [
+  { id: 'wine_tasting', emoji: '🍷', title: 'Wine Tasting', description: 'Would you like a half-day tasting at a nearby vineyard?' },
+  { id: 'cooking_class', emoji: '👩‍🍳', title: 'Cooking Class', description: 'Learn to cook a local dish with a home chef?' },
+  { id: 'sunrise_hike', emoji: '🌄', title: 'Sunrise Hike', description: 'Up early for a sunrise walk to a lookout?' },
+  { id: 'live_music', emoji: '🎷', title: 'Live Music Night', description: 'Catch a jazz or folk set at a local club?' },
+  { id: 'bike_tour', emoji: '🚲', title: 'Bike Tour', description: 'See the city from two wheels with a guide?' },
+  { id: 'spa_afternoon', emoji: '🧖', title: 'Spa Afternoon', description: 'A slow afternoon at a thermal bath or spa?' },
+  { id: 'food_market_tour', emoji: '🧀', title: 'Food Market Tour', description: 'Taste your way through the central market with a guide?' },
+  { id: 'day_trip', emoji: '🚆', title: 'Day Trip', description: 'Spend a day in a nearby town or on the coast?' },
+  { id: 'night_photography', emoji: '📸', title: 'Night Photography', description: 'A guided photo walk through the lit-up old town?' },
+  { id: 'football_match', emoji: '⚽', title: 'Football Match', description: 'Join the locals for a home game if one is on?' }
+];
+
+export const MOCK_TRANSFER = {
+  mode: 'train',
+  duration: '2h 30m',
+  tips: ['Book seats a few days ahead for the best fares.', 'Trains leave from the central station.', 'Leave luggage at the hotel and travel light.']
+};
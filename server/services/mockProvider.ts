@@ -0,0 +1,171 @@
+// Offline AiProvider (AI_PROVIDER=mock). It ignores the prompt and answers each task from the
+// fixtures and the request's `input`, so the same trip always gets the same plan, coordinates
+// and images, with no network or API key.
+
+import { AiProvider, AiTask, TextRequest } from './aiProvider';
+import {
+  MOCK_ATTRACTIONS, MOCK_CITY_CENTRES, MOCK_LOCAL_GEMS, MOCK_QUESTIONS, MOCK_RESTAURANTS, MOCK_TRANSFER, MockPlace
+} from './mockFixtures';
+
+// FNV-1a, so every string maps to the same number on every run
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+// A stable value in [-1, 1) for a string
+const spread = (text: string) => (hash(text) % 2000) / 1000 - 1;
+
+const cityCentre = (destination: string) => {
+  const key = Object.keys(MOCK_CITY_CENTRES).find(city => destination.toLowerCase().includes(city));
+  if (key) return MOCK_CITY_CENTRES[key];
+  return { latitude: 45 + spread(`${destination}:lat`) * 10, longitude: 10 + spread(`${destination}:lng`) * 20 };
+};
+
+// Within roughly 3km of the centre
+const placePoint = (destination: string, place: string) => {
+  const centre = cityCentre(destination);
+  return {
+    latitude: Math.round((centre.latitude + spread(`${place}:lat`) * 0.03) * 1e6) / 1e6,
+    longitude: Math.round((centre.longitude + spread(`${place}:lng`) * 0.04) * 1e6) / 1e6
+  };
+};
+
+// Cycles through a fixture list; later rounds get a numeral so names stay unique
+const pick = (places: MockPlace[], index: number) => {
+  const place = places[index % places.length];
+  const round = Math.floor(index / places.length);
+  return round === 0 ? place : { ...place, name: `${place.name} ${round + 1}` };
+};
+
+const toActivity = (place: MockPlace, type: string, destination: string) => ({
+  ...place,
+  type,
+  mapsQuery: `${place.name}, ${destination}`,
+  isLocalRecommendation: type === 'local-gem',
+  ...placePoint(destination, place.name)
+});
+
+const tripDates = (startDate: string, endDate: string) => {
+  const dates: string[] = [];
+  const end = Date.parse(`${endDate}T00:00:00Z`);
+  for (let t = Date.parse(`${startDate}T00:00:00Z`); !isNaN(t) && t <= end && dates.length < 60; t += 86400000) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  return dates;
+};
+
+const draftItinerary = (prefs: any) => {
+  const destination = prefs?.destination || 'Your destination';
+  const days = tripDates(prefs?.startDate, prefs?.endDate).map((isoDate, d) => {
+    const fixed = (prefs?.fixedPlans || [])
+      .filter((plan: any) => plan.date === isoDate)
+      .map((plan: any) => ({
+        name: plan.description,
+        description: 'Your own plan for the day.',
+        emoji: '📌',
+        duration: '2h',
+        type: 'user-plan',
+        isFixedPlan: true,
+        mapsQuery: `${plan.description}, ${destination}`
+      }));
+    const lead = pick(MOCK_ATTRACTIONS, 2 * d);
+    return {
+      dayNumber: d + 1,
+      date: isoDate.split('-').reverse().join('/'),
+      areaFocus: `${lead.category} quarter`,
+      title: `${lead.name} and around`,
+      vibe: 'Easy-going exploring with a good dinner to finish.',
+      vibeIcons: [lead.emoji, '🍽️'],
+      colors: [],
+      morning: [toActivity(pick(MOCK_LOCAL_GEMS, d), 'local-gem', destination), toActivity(lead, 'attraction', destination)],
+      afternoon: [...fixed, toActivity(pick(MOCK_ATTRACTIONS, 2 * d + 1), 'attraction', destination)],
+      evening: [toActivity(pick(MOCK_RESTAURANTS, d), 'restaurant', destination)]
+    };
+  });
+  return { destination, days };
+};
+
+// Same kind of place as the one being replaced, skipping names already in the plan
+const alternativeActivity = (input: any) => {
+  const destination = input?.prefs?.destination || 'Your destination';
+  const current = input?.currentActivity || {};
+  const taken = new Set([current.name, ...(input?.existingNames || [])]);
+  const [places, type] = current.type === 'restaurant'
+    ? [MOCK_RESTAURANTS, 'restaurant']
+    : current.type === 'local-gem' ? [MOCK_LOCAL_GEMS, 'local-gem'] : [MOCK_ATTRACTIONS, 'attraction'];
+
+  const start = hash(`${current.name}:${input?.customRequest || ''}`) % places.length;
+  for (let i = 0; i < places.length * 3; i++) {
+    const place = pick(places, start + i);
+    if (!taken.has(place.name)) return toActivity(place, type, destination);
+  }
+  return null;
+};
+
+const respond = (task: AiTask, input: any = {}): any => {
+  switch (task) {
+    case 'validate-destination':
+      return { isValid: true, formattedName: String(input.destination || '').trim().replace(/\b\w/g, c => c.toUpperCase()) };
+    case 'geocode':
+      return placePoint(input.destination || '', input.place || '');
+    case 'questions':
+      return MOCK_QUESTIONS.slice(0, input.count || MOCK_QUESTIONS.length);
+    case 'draft-itinerary':
+      return draftItinerary(input.prefs);
+    case 'enrich-itinerary':
+      return input.itinerary; // the draft already has coordinates
+    case 'transfer':
+      return { ...MOCK_TRANSFER, description: `Take the train from ${input.from} to ${input.to}.` };
+    case 'alternative':
+      return alternativeActivity(input);
+    default:
+      return null;
+  }
+};
+
+// A 16:9 gradient with the day's title, coloured by the title
+const dayCardSvg = (input: any) => {
+  const title = String(input?.dayTitle || 'Your day').replace(/[<>&"]/g, '');
+  const hue = hash(title) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1600" height="900" viewBox="0 0 1600 900">`
+    + `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,80%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,65%)"/></linearGradient></defs>`
+    + `<rect width="1600" height="900" fill="url(#g)"/><circle cx="1250" cy="250" r="140" fill="rgba(255,255,255,0.5)"/>`
+    + `<text x="100" y="800" font-family="sans-serif" font-size="64" fill="white">${title}</text></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+const STREAM_CHUNKS = 8;
+
+// MOCK_AI_DELAY_MS slows each answer (and each streamed chunk) down, to show loading states in demos
+const delay = () => {
+  const ms = Number(process.env.MOCK_AI_DELAY_MS) || 0;
+  return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+};
+
+const answer = async ({ task, input, onText }: TextRequest) => {
+  const text = JSON.stringify(respond(task, input));
+  if (!onText) {
+    await delay();
+    return text;
+  }
+  for (let i = 1; i <= STREAM_CHUNKS; i++) {
+    await delay();
+    onText(text.slice(0, Math.ceil((text.length * i) / STREAM_CHUNKS)));
+  }
+  return text;
+};
+
+export const createMockProvider = (): AiProvider => ({
+  name: 'mock',
+  generateText: answer,
+  generateGrounded: answer,
+  async generateImage({ input }) {
+    await delay();
+    return dayCardSvg(input);
+  }
+});
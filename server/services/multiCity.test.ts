@@ -0,0 +1,37 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import * as aiService from './aiService';
+import { checkLegDestinations, parseTripLegs } from './multiCity';
+
+vi.mock('./aiService', () => ({ validateDestination: vi.fn() }));
+
+const legs = [
+  { destination: 'Lisbon', startDate: '2026-05-01', endDate: '2026-05-03' },
+  { destination: 'Porto', startDate: '2026-05-04', endDate: '2026-05-06' }
+];
+
+describe('parseTripLegs', () => {
+  it('treats fewer than two legs as a single-city trip', () => {
+    expect(parseTripLegs({ legs: [legs[0]] })).toEqual({ legs: null });
+  });
+
+  it('rejects legs that overlap', () => {
+    const overlapping = [legs[0], { ...legs[1], startDate: '2026-05-03' }];
+    expect(parseTripLegs({ legs: overlapping }).error).toBe('City 2 starts before city 1 ends');
+  });
+});
+
+describe('checkLegDestinations', () => {
+  const validateDestination = vi.mocked(aiService.validateDestination);
+  beforeEach(() => validateDestination.mockReset());
+
+  it('passes when every city is found', async () => {
+    validateDestination.mockResolvedValue({ isValid: true, formattedName: 'Somewhere' });
+    expect(await checkLegDestinations(legs)).toBeNull();
+    expect(validateDestination.mock.calls.map(call => call[0])).toEqual(['Lisbon', 'Porto']);
+  });
+
+  it('names the first city that is not found', async () => {
+    validateDestination.mockImplementation(async destination => ({ isValid: destination !== 'Porto', formattedName: null }));
+    expect(await checkLegDestinations(legs)).toContain('city 2 ("Porto")');
+  });
+});
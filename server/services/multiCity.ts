@@ -0,0 +1,195 @@
+// Trip generation, including multi-city trips.
+// A multi-city trip lists its cities in `prefs.legs`, each with its own dates and hotel.
+// Every leg is generated as its own itinerary; from the second leg on, the leg's first
+// date becomes a transfer day with travel logistics instead of sightseeing. The legs are
+// then joined into one plan with continuous day numbers, and each day records its
+// `legIndex` and `city` so the timeline can show leg headers.
+
+import * as aiService from './aiService';
+import { HotelStay, assignHotels, hotelStaysFromPrefs, locateHotels } from './hotels';
+import { ACTIVITY_PERIODS, GenerationEvent } from '../../types';
+import { daysInRange } from './itinerarySchema';
+import { describePreferenceReport, enforcePreferences, isPreferenceReportClean } from './preferenceCheck';
+
+export interface TripLeg {
+  destination: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string;
+  hotelLocation?: string;
+}
+
+export interface TransferInfo {
+  from: string;
+  to: string;
+  mode: string;
+  duration: string;
+  description: string;
+  tips: string[];
+}
+
+export const MAX_TRIP_LEGS = 6;
+
+const isIsoDate = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value);
+
+const addDays = (isoDate: string, days: number) => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+// DayPlan dates are DD/MM/YYYY
+const toDayDate = (isoDate: string) => isoDate.split('-').reverse().join('/');
+
+// `legs` is null for a single-city trip. Legs must be in date order and may not overlap.
+export const parseTripLegs = (prefs: any): { legs?: TripLeg[] | null; error?: string } => {
+  const raw = prefs?.legs;
+  if (!Array.isArray(raw) || raw.length < 2) return { legs: null };
+  if (raw.length > MAX_TRIP_LEGS) return { error: `A trip can have at most ${MAX_TRIP_LEGS} cities` };
+
+  const legs: TripLeg[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    const leg = raw[i];
+    const destination = typeof leg?.destination === 'string' ? leg.destination.trim() : '';
+    if (!destination) return { error: `City ${i + 1} has no destination` };
+    if (!isIsoDate(leg.startDate) || !isIsoDate(leg.endDate) || leg.endDate < leg.startDate) {
+      return { error: `City ${i + 1} has invalid dates` };
+    }
+    if (i > 0 && leg.startDate <= legs[i - 1].endDate) {
+      return { error: `City ${i + 1} starts before city ${i} ends` };
+    }
+    legs.push({
+      destination,
+      startDate: leg.startDate,
+      endDate: leg.endDate,
+      hotelLocation: typeof leg.hotelLocation === 'string' ? leg.hotelLocation.trim() : ''
+    });
+  }
+  return { legs };
+};
+
+// The client looks every city up with validateDestination before it sends the legs; this repeats
+// the lookup so a hand-made request can't plan a leg in a place that doesn't exist.
+// Resolves to an error message for the first city that isn't found, or null.
+export const checkLegDestinations = async (legs: TripLeg[]): Promise<string | null> => {
+  const results = await Promise.all(legs.map(leg => aiService.validateDestination(leg.destination)));
+  const index = results.findIndex(result => !result?.isValid);
+  return index === -1 ? null : `We couldn't find city ${index + 1} ("${legs[index].destination}"). Please check the spelling or try a specific city/country.`;
+};
+
+const TRANSFER_ICONS: Record<string, string> = {
+  flight: '✈️',
+  train: '🚆',
+  bus: '🚌',
+  car: '🚗',
+  ferry: '⛴️'
+};
+
+const buildTransferDay = (from: TripLeg, to: TripLeg, logistics: any, legIndex: number) => {
+  const transfer: TransferInfo = {
+    from: from.destination,
+    to: to.destination,
+    mode: typeof logistics?.mode === 'string' ? logistics.mode : '',
+    duration: typeof logistics?.duration === 'string' ? logistics.duration : '',
+    description: logistics?.description || `Travel from ${from.destination} to ${to.destination}.`,
+    tips: Array.isArray(logistics?.tips) ? logistics.tips.filter((t: any) => typeof t === 'string').slice(0, 3) : []
+  };
+  return {
+    dayNumber: 0,
+    date: toDayDate(to.startDate),
+    areaFocus: to.destination,
+    title: `Travel day: ${from.destination} → ${to.destination}`,
+    vibe: transfer.description,
+    vibeIcons: [TRANSFER_ICONS[transfer.mode] || '🧳'],
+    colors: [],
+    morning: [],
+    afternoon: [],
+    evening: [],
+    transfer,
+    legIndex,
+    city: to.destination
+  };
+};
+
+type ProgressListener = (event: GenerationEvent) => void;
+
+// Single-city trips: the hotels from the preferences, then one generation pass
+const generateSingleCity = async (prefs: any, onProgress?: ProgressListener): Promise<{ plan: any; hotels: HotelStay[] } | null> => {
+  const hotels = await locateHotels(hotelStaysFromPrefs(prefs), name => aiService.geocodePlace(name, prefs?.destination || ''));
+  const plan = await aiService.generateItinerary(prefs, hotels, { onProgress });
+  return plan ? { plan, hotels } : null;
+};
+
+const generateMultiCity = async (prefs: any, legs: TripLeg[], onProgress?: ProgressListener): Promise<{ plan: any; hotels: HotelStay[] } | null> => {
+  const days: any[] = [];
+  const allHotels: HotelStay[] = [];
+  const totalDays = legs.reduce((sum, leg) => sum + (daysInRange(leg) || 0), 0);
+
+  // Day events from a leg are renumbered to their place in the whole trip
+  const sendDay = (day: any, dayIndex: number) =>
+    onProgress?.({ phase: 'day', dayIndex, totalDays, day: { ...day, dayNumber: dayIndex + 1 } });
+
+  for (let i = 0; i < legs.length; i++) {
+    const leg = legs[i];
+    const hotels = await locateHotels(
+      hotelStaysFromPrefs({ hotelLocation: leg.hotelLocation, startDate: leg.startDate }),
+      name => aiService.geocodePlace(name, leg.destination)
+    );
+    allHotels.push(...hotels);
+
+    let planStart = leg.startDate;
+    if (i > 0) {
+      const logistics = await aiService.planTransfer(legs[i - 1].destination, leg.destination, leg.startDate, prefs);
+      days.push(...assignHotels({ days: [buildTransferDay(legs[i - 1], leg, logistics, i)] }, hotels).days);
+      sendDay(days[days.length - 1], days.length - 1);
+      planStart = addDays(leg.startDate, 1);
+    }
+    if (planStart > leg.endDate) continue;
+
+    const legPrefs = {
+      ...prefs,
+      destination: leg.destination,
+      startDate: planStart,
+      endDate: leg.endDate,
+      hotelLocation: leg.hotelLocation || '',
+      hotelStays: [],
+      legs: undefined,
+      fixedPlans: (prefs.fixedPlans || []).filter((p: any) => p.date >= planStart && p.date <= leg.endDate)
+    };
+    const offset = days.length;
+    const legPlan = await aiService.generateItinerary(legPrefs, hotels, {
+      scope: 'leg',
+      onProgress: onProgress && (event => event.phase === 'day'
+        ? sendDay({ ...event.day, legIndex: i, city: leg.destination }, offset + event.dayIndex)
+        : onProgress(event))
+    });
+    if (!legPlan) return null;
+    days.push(...legPlan.days.map((day: any) => ({ ...day, legIndex: i, city: leg.destination })));
+  }
+
+  const joined = {
+    destination: legs.map(leg => leg.destination).join(' → '),
+    legs: legs.map(leg => ({ destination: leg.destination, startDate: leg.startDate, endDate: leg.endDate, hotelLocation: leg.hotelLocation })),
+    days: days.map((day, index) => ({ ...day, dayNumber: index + 1 }))
+  };
+
+  // Legs only take the must-visits in their own city, so anything no leg picked up is added
+  // to the joined plan here and located in the city of the day it landed on
+  const { plan, report } = enforcePreferences(joined, prefs);
+  if (!isPreferenceReportClean(report)) {
+    console.warn("Repaired multi-city plan against preferences:", describePreferenceReport(report));
+    await Promise.all(plan.days.flatMap((day: any) => ACTIVITY_PERIODS.flatMap(period => (day[period] || [])
+      .filter((activity: any) => typeof activity.latitude !== 'number' && report.missingMustVisits.includes(activity.name))
+      .map(async (activity: any) => {
+        const point = await aiService.geocodePlace(activity.name, day.city || prefs.destination);
+        if (point) Object.assign(activity, point);
+      }))));
+  }
+
+  return { plan, hotels: allHotels };
+};
+
+export const generateTripPlan = (
+  prefs: any,
+  legs: TripLeg[] | null,
+  onProgress?: ProgressListener
+): Promise<{ plan: any; hotels: HotelStay[] } | null> =>
+  legs ? generateMultiCity(prefs, legs, onProgress) : generateSingleCity(prefs, onProgress);
@@ -0,0 +1,128 @@
+// Printable PDF of an unlocked itinerary.
+// Everything comes from the stored document (day images are the saved base64 data URLs),
+// so rendering never touches the network.
+
+import PDFDocument from 'pdfkit';
+import { ACTIVITY_PERIODS } from '../../types';
+import { safeUrl } from './calendarExport';
+
+const PAGE_MARGIN = 50;
+const IMAGE_HEIGHT = 200;
+
+const COLORS = {
+  text: '#0f172a',
+  muted: '#64748b',
+  accent: '#0284c7',
+  event: '#4f46e5',
+  rule: '#e2e8f0'
+};
+
+const PERIOD_LABELS: Record<string, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening'
+};
+
+// The built-in PDF fonts only cover Latin-1 (plus a few typographic marks), so emoji and other
+// scripts are dropped rather than printed as garbage.
+const printable = (value: any) =>
+  String(value ?? '').replace(/[^\x20-\x7E\xA0-\xFF\n‘’“”–—…€•]/g, '').replace(/\s{2,}/g, ' ').trim();
+
+// Decodes a stored "data:image/...;base64," image; PDFKit only embeds PNG and JPEG
+const imageBuffer = (dataUrl?: string) => {
+  const match = (dataUrl || '').match(/^data:image\/(png|jpe?g);base64,(.+)$/);
+  return match ? Buffer.from(match[2], 'base64') : null;
+};
+
+const activityMeta = (activity: any) => [
+  activity.duration && `Duration: ${activity.duration}`,
+  activity.openingHours && `Hours: ${activity.openingHours}`,
+  activity.admissionFee && `Tickets: ${activity.admissionFee}`,
+  typeof activity.rating === 'number' && `Rating: ${activity.rating}/5`,
+  activity.priceLevel && `Price: ${activity.priceLevel}`
+].filter(Boolean).map(printable).join('  •  ');
+
+const renderDay = (doc: PDFKit.PDFDocument, day: any, image: Buffer | null) => {
+  const width = doc.page.width - PAGE_MARGIN * 2;
+
+  if (image) {
+    try {
+      doc.image(image, PAGE_MARGIN, doc.y, { fit: [width, IMAGE_HEIGHT], align: 'center', valign: 'center' });
+      doc.y += IMAGE_HEIGHT + 16;
+    } catch (e) {
+      console.warn(`Skipping unreadable image for day ${day.dayNumber}`);
+    }
+  }
+
+  doc.font('Helvetica').fontSize(10).fillColor(COLORS.accent)
+    .text(printable(`DAY ${day.dayNumber}${day.date ? `  •  ${day.date}` : ''}`).toUpperCase());
+  doc.font('Helvetica-Bold').fontSize(20).fillColor(COLORS.text).text(printable(day.title));
+  if (day.areaFocus) doc.font('Helvetica').fontSize(11).fillColor(COLORS.muted).text(`Area: ${printable(day.areaFocus)}`);
+  if (day.vibe) doc.font('Helvetica-Oblique').fontSize(11).fillColor(COLORS.muted).text(printable(day.vibe));
+
+  if (day.transfer) {
+    const { mode, duration, tips } = day.transfer;
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.event).text('TRAVEL');
+    if (mode || duration) doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text).text(printable([mode, duration].filter(Boolean).join('  •  ')));
+    (tips || []).forEach((tip: string) => doc.font('Helvetica').fontSize(10).fillColor(COLORS.text).text(`•  ${printable(tip)}`));
+  }
+
+  ACTIVITY_PERIODS.forEach(period => {
+    const activities: any[] = day[period] || [];
+    if (activities.length === 0) return;
+
+    doc.moveDown(0.8);
+    doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.accent).text(PERIOD_LABELS[period].toUpperCase());
+    doc.moveTo(PAGE_MARGIN, doc.y + 2).lineTo(PAGE_MARGIN + width, doc.y + 2).strokeColor(COLORS.rule).stroke();
+    doc.moveDown(0.4);
+
+    activities.forEach(activity => {
+      doc.font('Helvetica-Bold').fontSize(12).fillColor(COLORS.text).text(printable(activity.name));
+      if (activity.description) doc.font('Helvetica').fontSize(10).fillColor(COLORS.text).text(printable(activity.description));
+      const meta = activityMeta(activity);
+      if (meta) doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(meta);
+      if (activity.mapsQuery) doc.font('Helvetica').fontSize(9).fillColor(COLORS.muted).text(`Find it: ${printable(activity.mapsQuery)}`);
+      const website = safeUrl(activity.website);
+      if (website) doc.font('Helvetica').fontSize(9).fillColor(COLORS.accent).text(printable(website), { link: website });
+      doc.moveDown(0.6);
+    });
+  });
+
+  if (day.highlightEvent?.name) {
+    doc.moveDown(0.4);
+    doc.font('Helvetica-Bold').fontSize(10).fillColor(COLORS.event).text('SPECIAL EVENT');
+    doc.font('Helvetica-Bold').fontSize(14).fillColor(COLORS.text).text(printable(day.highlightEvent.name));
+    if (day.highlightEvent.description) {
+      doc.font('Helvetica').fontSize(10).fillColor(COLORS.text).text(printable(day.highlightEvent.description));
+    }
+  }
+};
+
+// Renders the full plan, one page (or more) per day after a cover page
+export const renderItineraryPdf = (plan: any, images: Record<string, string> = {}): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, info: { Title: printable(`Trip to ${plan?.destination || ''}`) } });
+    const chunks: Buffer[] = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    const days: any[] = plan?.days || [];
+    doc.moveDown(8);
+    doc.font('Helvetica').fontSize(14).fillColor(COLORS.accent).text('YOUR ITINERARY', { align: 'center' });
+    doc.font('Helvetica-Bold').fontSize(32).fillColor(COLORS.text).text(printable(plan?.destination), { align: 'center' });
+    if (days.length > 0) {
+      const range = days[0].date && days[days.length - 1].date ? `${days[0].date} – ${days[days.length - 1].date}  •  ` : '';
+      doc.moveDown(0.5);
+      doc.font('Helvetica').fontSize(12).fillColor(COLORS.muted)
+        .text(`${range}${days.length} ${days.length === 1 ? 'day' : 'days'}`, { align: 'center' });
+    }
+
+    days.forEach(day => {
+      doc.addPage();
+      renderDay(doc, day, imageBuffer(images[String(day.dayNumber)]));
+    });
+
+    doc.end();
+  });
@@ -0,0 +1,144 @@
+// Checks a generated plan against the preferences it was asked for: every must-visit and
+// fixed plan present, and no place twice. `enforcePreferences` repairs what it can by
+// dropping repeats and adding back what went missing; must-visits it adds have no
+// coordinates yet, so the enrichment pass (or multiCity, for a joined plan) can locate them.
+
+import { ACTIVITY_PERIODS, FixedPlan, UserPreferences } from '../../types';
+import { parseDayDate } from './calendarExport';
+import { parseMustVisits, PromptScope } from './promptBuilder';
+
+export interface PreferenceReport {
+  missingMustVisits: string[];
+  missingFixedPlans: FixedPlan[];
+  duplicates: string[]; // names that appeared more than once
+}
+
+// Lowercase words without accents or punctuation
+const normalise = (text: string) =>
+  (text || '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Words that don't tell one place from another, so a name made only of them
+// ("Museum", "The Old Town") has to match exactly
+const FILLER_WORDS = new Set([
+  'the', 'a', 'an', 'of', 'at', 'in', 'on', 'and', 'to', 'de', 'du', 'des', 'la', 'le', 'les', 'el', 'il', 'di', 'del',
+  'museum', 'gallery', 'park', 'garden', 'gardens', 'palace', 'castle', 'church', 'cathedral', 'temple', 'tower',
+  'market', 'square', 'bridge', 'beach', 'old', 'town', 'city', 'centre', 'center', 'restaurant', 'cafe', 'bar', 'tour'
+]);
+
+const distinctiveWords = (words: string[]) => words.filter(word => !FILLER_WORDS.has(word));
+
+// Whole names after normalising, or every distinctive word of one found in the other:
+// "Louvre" matches "The Louvre Museum", but "Museum" doesn't match "Natural History Museum"
+const sameName = (a: string, b: string) => {
+  const x = normalise(a);
+  const y = normalise(b);
+  if (!x || !y) return false;
+  if (x === y) return true;
+  const xWords = x.split(' ');
+  const yWords = y.split(' ');
+  const within = (words: string[], other: string[]) => words.length > 0 && words.every(word => other.includes(word));
+  return within(distinctiveWords(xWords), yWords) || within(distinctiveWords(yWords), xWords);
+};
+
+const mentions = (activity: any, text: string) => sameName(activity?.name, text);
+
+const isoDateOf = (day: any) => {
+  const parsed = parseDayDate(day?.date);
+  return parsed ? `${parsed.year}-${String(parsed.month).padStart(2, '0')}-${String(parsed.day).padStart(2, '0')}` : '';
+};
+
+const activitiesOf = (day: any): any[] => ACTIVITY_PERIODS.flatMap(period => day?.[period] || []);
+
+export const checkPreferences = (plan: any, prefs: UserPreferences, scope: PromptScope = 'trip'): PreferenceReport => {
+  const days: any[] = Array.isArray(plan?.days) ? plan.days : [];
+  const all = days.flatMap(activitiesOf);
+
+  const missingMustVisits = scope === 'trip'
+    ? parseMustVisits(prefs.mustVisit).filter(place => !all.some(activity => mentions(activity, place)))
+    : [];
+
+  const missingFixedPlans = (prefs.fixedPlans || []).filter(plan => {
+    const day = days.find(d => isoDateOf(d) === plan.date);
+    return !!day && !activitiesOf(day).some(activity => mentions(activity, plan.description));
+  });
+
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  all.forEach(activity => {
+    const key = normalise(activity?.name);
+    if (seen.has(key)) duplicates.add(activity.name);
+    seen.add(key);
+  });
+
+  return { missingMustVisits, missingFixedPlans, duplicates: [...duplicates] };
+};
+
+export const isPreferenceReportClean = (report: PreferenceReport) =>
+  report.missingMustVisits.length === 0 && report.missingFixedPlans.length === 0 && report.duplicates.length === 0;
+
+export const describePreferenceReport = (report: PreferenceReport) => [
+  report.missingMustVisits.length ? `missing must-visits: ${report.missingMustVisits.join(', ')}` : '',
+  report.missingFixedPlans.length ? `missing fixed plans: ${report.missingFixedPlans.map(p => `${p.description} (${p.date})`).join(', ')}` : '',
+  report.duplicates.length ? `repeated: ${report.duplicates.join(', ')}` : ''
+].filter(Boolean).join('; ');
+
+// Travel days between the cities of a multi-city trip have no sightseeing to add to
+const canTakeActivities = (day: any) => !day.transfer;
+
+// The period of a day with the fewest activities, preferring daytime
+const lightestPeriod = (day: any) =>
+  (['morning', 'afternoon'] as const).reduce((best, period) =>
+    (day[period] || []).length < (day[best] || []).length ? period : best, 'morning' as 'morning' | 'afternoon');
+
+// Returns a repaired copy of the plan and the report from before the repair
+export const enforcePreferences = (plan: any, prefs: UserPreferences, scope: PromptScope = 'trip'): { plan: any; report: PreferenceReport } => {
+  const report = checkPreferences(plan, prefs, scope);
+  if (!plan || !Array.isArray(plan.days) || isPreferenceReportClean(report)) return { plan, report };
+
+  const seen = new Set<string>();
+  const days = plan.days.map((day: any) => {
+    const updated: any = { ...day };
+    ACTIVITY_PERIODS.forEach(period => {
+      updated[period] = (day[period] || []).filter((activity: any) => {
+        const key = normalise(activity?.name);
+        if (seen.has(key) && !activity.isFixedPlan) return false;
+        seen.add(key);
+        return true;
+      });
+    });
+    return updated;
+  });
+
+  report.missingFixedPlans.forEach(fixed => {
+    const day = days.find((d: any) => isoDateOf(d) === fixed.date);
+    if (!day) return;
+    const period = lightestPeriod(day);
+    day[period] = [...day[period], {
+      name: fixed.description,
+      description: 'Your own plan for the day.',
+      duration: '',
+      emoji: '📌',
+      type: 'user-plan',
+      isFixedPlan: true,
+      mapsQuery: `${fixed.description}, ${prefs.destination}`
+    }];
+  });
+
+  // Spread missing must-visits over the lightest days
+  const candidates = days.filter(canTakeActivities);
+  report.missingMustVisits.forEach(place => {
+    const day = candidates.reduce((best: any, d: any) => (activitiesOf(d).length < activitiesOf(best).length ? d : best), candidates[0]);
+    if (!day) return;
+    const period = lightestPeriod(day);
+    day[period] = [...day[period], {
+      name: place,
+      description: 'On your must-visit list.',
+      duration: '',
+      emoji: '⭐',
+      type: 'attraction',
+      mapsQuery: `${place}, ${day.city || prefs.destination}`
+    }];
+  });
+
+  return { plan: { ...plan, days }, report };
+};
@@ -0,0 +1,139 @@
+// Free-preview policies for locked itineraries. The server is the single source of
+// truth: it masks the plan and tells the client what it hid, so the client only
+// renders placeholders and never re-implements the rule.
+//
+// Policy specs (PREVIEW_POLICY env, or one per bucket in PREVIEW_POLICY_BUCKETS):
+//   "days:2"   - the first N days in full, the rest removed
+//   "mornings" - every day, mornings only
+//   "teaser"   - every activity name, with descriptions, maps and coordinates removed
+
+import { ACTIVITY_PERIODS, ActivityPeriod } from '../../types';
+
+export type PreviewPolicy =
+  | { kind: 'days'; days: number }
+  | { kind: 'mornings' }
+  | { kind: 'teaser' };
+
+export interface PreviewInfo {
+  policy: string;
+  hiddenDays: number;
+  lockedPeriods: ActivityPeriod[];
+  // dayNumber -> period -> how many activities were removed from that period
+  lockedActivityCounts: Record<number, Partial<Record<ActivityPeriod, number>>>;
+  redactedFields: string[];
+}
+
+const DEFAULT_POLICY: PreviewPolicy = { kind: 'days', days: 2 };
+
+const TEASER_REDACTED_FIELDS = ['description', 'mapsQuery', 'latitude', 'longitude', 'placeId', 'website', 'openingHours', 'admissionFee', 'distanceFromHotelKm'];
+
+export const parsePreviewPolicy = (spec?: string | null): PreviewPolicy => {
+  const [kind, arg] = (spec || '').trim().toLowerCase().split(':');
+  if (kind === 'days') {
+    const days = parseInt(arg, 10);
+    return { kind: 'days', days: Number.isInteger(days) && days >= 0 ? days : DEFAULT_POLICY.days };
+  }
+  if (kind === 'mornings') return { kind: 'mornings' };
+  if (kind === 'teaser') return { kind: 'teaser' };
+  return DEFAULT_POLICY;
+};
+
+export const formatPreviewPolicy = (policy: PreviewPolicy) =>
+  policy.kind === 'days' ? `days:${policy.days}` : policy.kind;
+
+// Stable bucket for an id so a given link always gets the same preview
+const bucketFor = (id: string, buckets: number) => {
+  let hash = 0;
+  for (const char of id) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return hash % buckets;
+};
+
+// Picks the policy for a new itinerary from PREVIEW_POLICY_BUCKETS (A/B) or PREVIEW_POLICY
+export const choosePreviewPolicy = (itineraryId: string): string => {
+  const buckets = (process.env.PREVIEW_POLICY_BUCKETS || '').split(',').map(b => b.trim()).filter(Boolean);
+  const spec = buckets.length > 0 ? buckets[bucketFor(itineraryId, buckets.length)] : process.env.PREVIEW_POLICY;
+  return formatPreviewPolicy(parsePreviewPolicy(spec));
+};
+
+// Policy for a stored itinerary; itineraries created before policies existed get the current default
+export const policyFor = (itinerary: any): PreviewPolicy =>
+  parsePreviewPolicy(itinerary.previewPolicy || choosePreviewPolicy(itinerary.id));
+
+// Short phrase for emails, e.g. "the first 2 days"
+export const describePreviewPolicy = (policy: PreviewPolicy) => {
+  switch (policy.kind) {
+    case 'days': return policy.days === 1 ? 'the first day' : `the first ${policy.days} days`;
+    case 'mornings': return 'every morning of your trip';
+    case 'teaser': return 'a sneak peek of every day';
+  }
+};
+
+export const applyPreviewPolicy = (plan: any, policy: PreviewPolicy): { plan: any; preview: PreviewInfo } => {
+  const preview: PreviewInfo = {
+    policy: formatPreviewPolicy(policy),
+    hiddenDays: 0,
+    lockedPeriods: [],
+    lockedActivityCounts: {},
+    redactedFields: []
+  };
+  if (!plan || !Array.isArray(plan.days)) return { plan, preview };
+
+  switch (policy.kind) {
+    case 'days': {
+      preview.hiddenDays = Math.max(0, plan.days.length - policy.days);
+      return { plan: { ...plan, days: plan.days.slice(0, policy.days) }, preview };
+    }
+    case 'mornings': {
+      preview.lockedPeriods = ['afternoon', 'evening'];
+      const days = plan.days.map((day: any) => {
+        preview.lockedActivityCounts[day.dayNumber] = {
+          afternoon: (day.afternoon || []).length,
+          evening: (day.evening || []).length
+        };
+        const { highlightEvent, ...rest } = day;
+        const travelLegs = (day.travelLegs || []).filter((leg: any) => leg.from.period === 'morning' && leg.to.period === 'morning');
+        return { ...rest, afternoon: [], evening: [], travelLegs };
+      });
+      return { plan: { ...plan, days }, preview };
+    }
+    case 'teaser': {
+      preview.redactedFields = TEASER_REDACTED_FIELDS;
+      const days = plan.days.map((day: any) => {
+        const masked: any = { ...day };
+        ACTIVITY_PERIODS.forEach(period => {
+          masked[period] = (day[period] || []).map((activity: any) => {
+            const copy = { ...activity };
+            TEASER_REDACTED_FIELDS.forEach(field => delete copy[field]);
+            return copy;
+          });
+        });
+        if (day.highlightEvent) masked.highlightEvent = { name: day.highlightEvent.name };
+        // Legs are worked out from the coordinates the teaser hides
+        delete masked.travelLegs;
+        return masked;
+      });
+      return { plan: { ...plan, days }, preview };
+    }
+  }
+};
+
+// One day of a trip still being generated, masked as it will be once the plan is saved;
+// null when the policy hides the whole day
+export const previewDay = (day: any, dayIndex: number, policy: PreviewPolicy): any | null => {
+  if (policy.kind === 'days' && dayIndex >= policy.days) return null;
+  return applyPreviewPolicy({ days: [day] }, policy).plan.days[0] ?? null;
+};
+
+// Whether a locked itinerary's preview allows editing this day/period
+export const isPreviewEditable = (plan: any, policy: PreviewPolicy, dayNumber: number, period: ActivityPeriod) => {
+  switch (policy.kind) {
+    case 'days': {
+      const position = (plan?.days || []).findIndex((d: any) => d.dayNumber === dayNumber);
+      return position !== -1 && position < policy.days;
+    }
+    case 'mornings':
+      return period === 'morning';
+    case 'teaser':
+      return false;
+  }
+};
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_PRICING, applyDiscount, computePrice, loadPricingConfig, pricingConfigErrors } from './pricing';
+
+describe('applyDiscount', () => {
+  const price = computePrice({ totalDays: 5 });
+
+  it('takes percentages and fixed amounts off', () => {
+    expect(applyDiscount(price, { discountType: 'percentage', value: 20 }).amount).toBe(400);
+    expect(applyDiscount(price, { discountType: 'fixed', value: 150 }).amount).toBe(350);
+    expect(applyDiscount(price, { discountType: 'fixed', value: 900 }).amount).toBe(0);
+  });
+
+  it("rounds amounts Stripe can't charge down to free", () => {
+    const discounted = applyDiscount(price, { discountType: 'percentage', value: 95 });
+    expect(discounted.amount).toBe(0);
+    expect(discounted.formatted).toBe('$0.00');
+    expect(applyDiscount(price, { discountType: 'fixed', value: 450 }).amount).toBe(50);
+  });
+});
+
+describe('loadPricingConfig', () => {
+  afterEach(() => vi.restoreAllMocks());
+
+  it('fills in missing keys from the defaults', () => {
+    const config = loadPricingConfig(JSON.stringify({ tiers: [{ maxDays: null, amount: 700, label: 'Any trip' }] }));
+    expect(config.currency).toBe('usd');
+    expect(computePrice({ totalDays: 30 }, config).amount).toBe(700);
+  });
+
+  it.each([
+    ['malformed JSON', '{"tiers": ['],
+    ['empty tiers', '{"tiers": []}'],
+    ['a missing amount', '{"tiers": [{"maxDays": null, "label": "Any trip"}]}'],
+    ['a negative amount', '{"tiers": [{"maxDays": null, "amount": -100, "label": "Any trip"}]}'],
+    ['a negative multiplier', '{"tripTypeMultipliers": {"Family": -1}}']
+  ])('falls back to the defaults with a logged error for %s', (_, raw) => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadPricingConfig(raw)).toBe(DEFAULT_PRICING);
+    expect(error).toHaveBeenCalledOnce();
+  });
+});
+
+describe('pricingConfigErrors', () => {
+  it('accepts the defaults', () => {
+    expect(pricingConfigErrors(DEFAULT_PRICING)).toEqual([]);
+  });
+
+  it('names each invalid key', () => {
+    const errors = pricingConfigErrors({
+      ...DEFAULT_PRICING,
+      tiers: [{ maxDays: 14, amount: 800, label: 'Two weeks' }, { maxDays: 7, amount: 500, label: 'A week' }],
+      destinations: [{ match: '', multiplier: 0 }]
+    });
+    expect(errors).toEqual([
+      'tiers[1] must cover longer trips than tiers[0]',
+      'destinations[0].match is required',
+      'destinations[0].multiplier must be a positive number'
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+// Price calculation for unlocking an itinerary.
+// Both /api/create-checkout-session and GET /api/itinerary/:id/price go through
+// `getItineraryPrice`, so the amount charged always matches the amount shown.
+
+export interface PricingTier {
+  maxDays: number | null; // null = no upper bound
+  amount: number; // smallest currency unit (e.g. cents)
+  label: string;
+}
+
+export interface DestinationPricing {
+  match: string; // case-insensitive substring of the destination, e.g. "Japan"
+  currency?: string;
+  amount?: number; // replaces the tier amount
+  multiplier?: number; // scales the tier amount
+}
+
+export interface PricingConfig {
+  currency: string;
+  tiers: PricingTier[];
+  tripTypeMultipliers: Record<string, number>;
+  destinations: DestinationPricing[];
+}
+
+export interface Price {
+  amount: number;
+  currency: string;
+  formatted: string;
+  tier: string;
+}
+
+export const DEFAULT_PRICING: PricingConfig = {
+  currency: 'usd',
+  tiers: [
+    { maxDays: 7, amount: 500, label: 'Up to a week' },
+    { maxDays: 14, amount: 800, label: 'Up to two weeks' },
+    { maxDays: null, amount: 1200, label: 'Extended trip' }
+  ],
+  tripTypeMultipliers: {},
+  destinations: []
+};
+
+// Currencies Stripe charges in whole units
+const ZERO_DECIMAL_CURRENCIES = ['bif', 'clp', 'djf', 'gnf', 'jpy', 'kmf', 'krw', 'mga', 'pyg', 'rwf', 'ugx', 'vnd', 'vuv', 'xaf', 'xof', 'xpf'];
+
+const isAmount = (value: any) => Number.isInteger(value) && value >= 0;
+const isPositive = (value: any) => typeof value === 'number' && Number.isFinite(value) && value > 0;
+const isCurrency = (value: any) => typeof value === 'string' && /^[a-z]{3}$/i.test(value);
+
+// Everything wrong with a pricing config, as messages naming the offending key
+export const pricingConfigErrors = (config: any): string[] => {
+  const errors: string[] = [];
+  if (!isCurrency(config.currency)) errors.push('currency must be a 3-letter currency code');
+
+  if (!Array.isArray(config.tiers) || config.tiers.length === 0) {
+    errors.push('tiers must be a non-empty list');
+  } else {
+    config.tiers.forEach((tier: any, i: number) => {
+      if (!tier || typeof tier !== 'object') {
+        errors.push(`tiers[${i}] must be an object`);
+        return;
+      }
+      if (tier.maxDays !== null && !(Number.isInteger(tier.maxDays) && tier.maxDays > 0)) errors.push(`tiers[${i}].maxDays must be a positive whole number or null`);
+      if (!isAmount(tier.amount)) errors.push(`tiers[${i}].amount must be a whole, non-negative amount in the smallest currency unit`);
+      if (typeof tier.label !== 'string' || !tier.label.trim()) errors.push(`tiers[${i}].label is required`);
+      // Prices are looked up by the first tier the trip fits, so a later tier must cover longer trips
+      const previous = config.tiers[i - 1];
+      if (previous && (previous.maxDays === null || (tier.maxDays !== null && tier.maxDays <= previous.maxDays))) {
+        errors.push(`tiers[${i}] must cover longer trips than tiers[${i - 1}]`);
+      }
+    });
+  }
+
+  if (!config.tripTypeMultipliers || typeof config.tripTypeMultipliers !== 'object' || Array.isArray(config.tripTypeMultipliers)) {
+    errors.push('tripTypeMultipliers must be an object');
+  } else {
+    Object.entries(config.tripTypeMultipliers).forEach(([tripType, multiplier]) => {
+      if (!isPositive(multiplier)) errors.push(`tripTypeMultipliers.${tripType} must be a positive number`);
+    });
+  }
+
+  if (!Array.isArray(config.destinations)) {
+    errors.push('destinations must be a list');
+  } else {
+    config.destinations.forEach((destination: any, i: number) => {
+      if (!destination || typeof destination !== 'object') {
+        errors.push(`destinations[${i}] must be an object`);
+        return;
+      }
+      if (typeof destination.match !== 'string' || !destination.match.trim()) errors.push(`destinations[${i}].match is required`);
+      if (destination.currency !== undefined && !isCurrency(destination.currency)) errors.push(`destinations[${i}].currency must be a 3-letter currency code`);
+      if (destination.amount !== undefined && !isAmount(destination.amount)) errors.push(`destinations[${i}].amount must be a whole, non-negative amount`);
+      if (destination.multiplier !== undefined && !isPositive(destination.multiplier)) errors.push(`destinations[${i}].multiplier must be a positive number`);
+    });
+  }
+  return errors;
+};
+
+// Reads PRICING_CONFIG (JSON) from the environment, falling back to the defaults for any missing key.
+// A config that doesn't parse or validate is ignored as a whole, so a typo never misprices a trip.
+export const loadPricingConfig = (raw = process.env.PRICING_CONFIG): PricingConfig => {
+  if (!raw) return DEFAULT_PRICING;
+  let config: any;
+  try {
+    const parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) throw new Error('PRICING_CONFIG must be a JSON object');
+    config = { ...DEFAULT_PRICING, ...parsed };
+  } catch (e) {
+    console.error("Invalid PRICING_CONFIG, using default pricing:", e);
+    return DEFAULT_PRICING;
+  }
+
+  const errors = pricingConfigErrors(config);
+  if (errors.length > 0) {
+    console.error(`Invalid PRICING_CONFIG, using default pricing: ${errors.join('; ')}`);
+    return DEFAULT_PRICING;
+  }
+  return config;
+};
+
+export const formatPrice = (amount: number, currency: string) => {
+  const zeroDecimal = ZERO_DECIMAL_CURRENCIES.includes(currency.toLowerCase());
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency: currency.toUpperCase() })
+    .format(zeroDecimal ? amount : amount / 100);
+};
+
+export const computePrice = (
+  trip: { totalDays: number; tripType?: string; destination?: string },
+  config: PricingConfig = DEFAULT_PRICING
+): Price => {
+  const tier = config.tiers.find(t => t.maxDays === null || trip.totalDays <= t.maxDays)
+    || config.tiers[config.tiers.length - 1];
+
+  const destination = (trip.destination || '').toLowerCase();
+  const override = config.destinations.find(d => d.match && destination.includes(d.match.toLowerCase()));
+
+  let amount = override?.amount ?? tier.amount;
+  amount *= override?.multiplier ?? 1;
+  amount *= (trip.tripType && config.tripTypeMultipliers[trip.tripType]) || 1;
+  amount = Math.round(amount);
+
+  const currency = (override?.currency || config.currency).toLowerCase();
+  return { amount, currency, formatted: formatPrice(amount, currency), tier: tier.label };
+};
+
+// Smallest amount Stripe will charge, in the currency's smallest unit (50 for anything not listed)
+const MINIMUM_CHARGES: Record<string, number> = {
+  aed: 200, bgn: 100, czk: 1500, dkk: 250, gbp: 30, hkd: 400, huf: 17500, jpy: 50,
+  mxn: 1000, myr: 200, nok: 300, pln: 200, ron: 200, sek: 300, thb: 1000
+};
+
+export const minimumCharge = (currency: string) => MINIMUM_CHARGES[currency.toLowerCase()] ?? 50;
+
+// Applies a promo discount. Anything Stripe couldn't charge (below its minimum) rounds down to free.
+export const applyDiscount = (price: Price, discount: { discountType: string; value: number }): Price => {
+  const off = discount.discountType === 'percentage'
+    ? Math.round(price.amount * Math.min(100, Math.max(0, discount.value)) / 100)
+    : discount.value;
+  let amount = Math.max(0, price.amount - off);
+  if (amount < minimumCharge(price.currency)) amount = 0;
+  return { ...price, amount, formatted: formatPrice(amount, price.currency) };
+};
+
+// Loaded on first use so .env has been read by then
+let pricingConfig: PricingConfig | null = null;
+
+// Price for a stored itinerary document
+export const getItineraryPrice = (itinerary: any): Price => {
+  if (!pricingConfig) pricingConfig = loadPricingConfig();
+  return computePrice({
+    totalDays: itinerary.plan?.days?.length || 0,
+    tripType: itinerary.prefs?.tripType,
+    destination: itinerary.plan?.destination
+  }, pricingConfig);
+};
@@ -0,0 +1,68 @@
+// Promo code validation and redemption.
+// Codes are quoted (validated + priced) before checkout and only redeemed once a payment succeeds.
+// Per-email limits count the signed-in account's email, since an itinerary's email can be changed at will.
+
+import { PromoCode } from '../models/PromoCode';
+import { Price, applyDiscount, getItineraryPrice } from './pricing';
+
+export interface PromoQuote {
+  code: string;
+  original: Price;
+  price: Price;
+}
+
+export const normalizePromoCode = (code: string) => (code || '').trim().toUpperCase();
+
+export const quotePromoCode = async (rawCode: string, itinerary: any, email?: string | null): Promise<{ quote?: PromoQuote; error?: string }> => {
+  const code = normalizePromoCode(rawCode);
+  const promo = code ? await PromoCode.findOne({ code }) : null;
+  if (!promo || !promo.active) return { error: 'This code is not valid' };
+
+  if (promo.expiresAt && promo.expiresAt.getTime() < Date.now()) {
+    return { error: 'This code has expired' };
+  }
+  if (promo.maxRedemptions != null && promo.redemptions.length >= promo.maxRedemptions) {
+    return { error: 'This code has been fully redeemed' };
+  }
+  if (promo.perEmailLimit != null) {
+    if (!email) return { error: 'Sign in before using this code' };
+    const used = promo.redemptions.filter(r => r.email === email.toLowerCase()).length;
+    if (used >= promo.perEmailLimit) return { error: 'You have already used this code' };
+  }
+
+  const destination = (itinerary.plan?.destination || '').toLowerCase();
+  if (promo.destinations.length > 0 && !promo.destinations.some(d => destination.includes(d.toLowerCase()))) {
+    return { error: 'This code is not valid for this destination' };
+  }
+
+  const original = getItineraryPrice(itinerary);
+  if (promo.discountType === 'fixed' && promo.currency !== original.currency) {
+    return { error: 'This code is not valid for this trip' };
+  }
+
+  return { quote: { code, original, price: applyDiscount(original, promo) } };
+};
+
+// Records a redemption only if the code still has room for it. The limits are checked in the
+// same update that adds the redemption, so concurrent checkouts can't go past them.
+// Resolves to false when the code was no longer redeemable.
+export const redeemPromoCode = async (rawCode: string, itineraryId: string, email?: string | null): Promise<boolean> => {
+  const normalizedEmail = email ? email.toLowerCase() : null;
+  const redemptionsBy = { $size: { $filter: { input: '$redemptions', cond: { $eq: ['$$this.email', normalizedEmail] } } } };
+
+  const redeemed = await PromoCode.findOneAndUpdate(
+    {
+      code: normalizePromoCode(rawCode),
+      active: true,
+      $and: [
+        { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+        { $or: [{ maxRedemptions: null }, { $expr: { $lt: [{ $size: '$redemptions' }, '$maxRedemptions'] } }] },
+        normalizedEmail
+          ? { $or: [{ perEmailLimit: null }, { $expr: { $lt: [redemptionsBy, '$perEmailLimit'] } }] }
+          : { perEmailLimit: null }
+      ]
+    },
+    { $push: { redemptions: { email: normalizedEmail, itineraryId, redeemedAt: new Date() } } }
+  );
+  return !!redeemed;
+};
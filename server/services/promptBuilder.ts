@@ -0,0 +1,124 @@
+// Turns the traveller's preferences into the prompts aiService sends. Every collected
+// preference becomes an explicit constraint line, so nothing the user told us is left for
+// the model to guess; preferenceCheck verifies the result against the same preferences.
+
+import { Activity, ActivityContext, ActivityPeriod, PaceType, UserPreferences } from '../../types';
+import { HotelStay } from './hotels';
+
+// Activities per period for each pace
+export const PACE_ACTIVITIES: Record<PaceType, Record<ActivityPeriod, number>> = {
+  Slow: { morning: 1, afternoon: 1, evening: 1 },
+  Balanced: { morning: 2, afternoon: 2, evening: 1 },
+  Fast: { morning: 3, afternoon: 2, evening: 2 }
+};
+
+// A multi-city leg only covers part of the trip, so must-visits elsewhere are not its job
+export type PromptScope = 'trip' | 'leg';
+
+export const formatDateForPrompt = (isoDate: string): string => {
+  if (!isoDate) return '';
+  const [year, month, day] = isoDate.split('-');
+  return `${day}/${month}/${year}`;
+};
+
+// The free-text must-visit field, one place per comma, semicolon or line
+export const parseMustVisits = (text?: string): string[] =>
+  (text || '').split(/[,;\n]/).map(place => place.trim()).filter(Boolean);
+
+// Follow-up cards the traveller swiped away, as plain words
+export const rejectedFollowUps = (prefs: UserPreferences): string[] =>
+  Object.entries(prefs.followUpAnswers || {})
+    .filter(([_, liked]) => !liked)
+    .map(([id]) => id.replace(/_/g, ' '));
+
+const describeTravellers = (prefs: UserPreferences) => {
+  const { age, gender, kidsAgeRange } = prefs.demographics || {};
+  const details = [
+    gender && prefs.tripType === 'Solo' ? gender : '',
+    age ? `${prefs.tripType === 'Solo' ? 'age' : 'average age'} ${age}` : '',
+    kidsAgeRange ? `children aged ${kidsAgeRange}` : ''
+  ].filter(Boolean);
+  return `${prefs.tripType}${details.length ? ` (${details.join(', ')})` : ''}`;
+};
+
+// Kids under 15 rule out nightlife and late evenings; teenagers just need it to suit them
+const familyConstraint = (prefs: UserPreferences) => {
+  const range = prefs.demographics?.kidsAgeRange;
+  if (prefs.tripType !== 'Family') return '';
+  if (!range || range === '15-20') return 'Family trip: every activity must suit teenagers and adults together.';
+  return `Kid-friendly only (children aged ${range}): no bars, nightclubs or adult-only venues, restaurants must welcome children, `
+    + 'keep evenings early and include a break in the afternoon.';
+};
+
+const paceConstraint = (pace: PaceType) => {
+  const counts = PACE_ACTIVITIES[pace] || PACE_ACTIVITIES.Balanced;
+  return `Pace ${pace}: exactly ${counts.morning} morning, ${counts.afternoon} afternoon and ${counts.evening} evening `
+    + `activit${counts.evening === 1 ? 'y' : 'ies'} per day, not counting fixed plans.`;
+};
+
+export const buildItineraryConstraints = (prefs: UserPreferences, hotels: HotelStay[] = [], scope: PromptScope = 'trip'): string[] => {
+  const startDate = formatDateForPrompt(prefs.startDate);
+  const mustVisits = parseMustVisits(prefs.mustVisit);
+  const rejected = rejectedFollowUps(prefs);
+  const fixedPlans = prefs.fixedPlans || [];
+
+  return [
+    `Travellers: ${describeTravellers(prefs)}. Budget: ${prefs.budget}. Vibe: ${prefs.vibe}.`,
+    paceConstraint(prefs.pace),
+    familyConstraint(prefs),
+    prefs.interests.length ? `Favour their interests: ${prefs.interests.join(', ')}.` : '',
+    hotels.length > 0
+      ? `Staying at: ${hotels.map(h => `${h.name} (from ${formatDateForPrompt(h.startDate) || startDate})`).join('; ')}. Each day starts and ends at that night's hotel, so plan days around it.`
+      : prefs.hotelLocation ? `Staying at: ${prefs.hotelLocation}. Plan days around it.` : '',
+    mustVisits.length === 0 ? ''
+      : scope === 'trip'
+        ? `Must visit, each exactly once somewhere in the trip, using the name as given: ${mustVisits.join('; ')}.`
+        : `Must visit, if in ${prefs.destination}: ${mustVisits.join('; ')}. Skip any that are in another city.`,
+    ...fixedPlans.map(plan =>
+      `Fixed plan on ${formatDateForPrompt(plan.date)}: "${plan.description}". Include it that day with "type": "user-plan" and "isFixedPlan": true.`),
+    rejected.length ? `Do not include anything like: ${rejected.join(', ')}.` : '',
+    'Never repeat a place: every activity name must be unique across the whole trip.'
+  ].filter(Boolean);
+};
+
+export const buildItineraryPrompt = (prefs: UserPreferences, hotels: HotelStay[] = [], scope: PromptScope = 'trip') => `
+    Create JSON itinerary for ${prefs.destination}, ${formatDateForPrompt(prefs.startDate)} to ${formatDateForPrompt(prefs.endDate)}.
+    CONSTRAINTS:
+    ${buildItineraryConstraints(prefs, hotels, scope).map(line => `- ${line}`).join('\n    ')}
+
+    Structure:
+    {
+      "destination": "${prefs.destination}",
+      "days": [{
+          "dayNumber": 1, "date": "DD/MM/YYYY", "areaFocus": "...", "title": "...", "vibe": "...", "vibeIcons": ["x"],
+          "highlightEvent": { "name": "...", "description": "...", "mapsQuery": "..." },
+          "morning": [{ "name": "...", "description": "...", "emoji": "x", "category": "...", "type": "attraction | restaurant | event | local-gem | user-plan", "mapsQuery": "...", "priceLevel": "$$", "admissionFee": "$20", "rating": 4.5, "openingHours": "..." }],
+          "afternoon": [], "evening": []
+      }]
+    }
+  `;
+
+export const buildAlternativePrompt = (
+  prefs: UserPreferences,
+  currentActivity: Activity,
+  context: ActivityContext,
+  existingNames: string[],
+  customRequest: string
+) => {
+  const constraints = [
+    `Travellers: ${describeTravellers(prefs)}. Budget: ${prefs.budget}.`,
+    familyConstraint(prefs),
+    prefs.interests.length ? `Favour their interests: ${prefs.interests.join(', ')}.` : '',
+    `It replaces a ${currentActivity.type || 'activity'} in the ${context.timeOfDay}${context.area ? ` around ${context.area}` : ''}, so it must be open then and nearby.`,
+    existingNames.length ? `Already in the trip, do not suggest any of: ${existingNames.join('; ')}.` : '',
+    customRequest ? `The traveller asks: ${customRequest}` : ''
+  ].filter(Boolean);
+
+  return `
+    Suggest ALTERNATIVE activity for: "${currentActivity.name}" in ${prefs.destination}.
+    CONSTRAINTS:
+    ${constraints.map(line => `- ${line}`).join('\n    ')}
+    - Real place with a specific name.
+    Return JSON (Activity Object): { "name": "...", "description": "...", "emoji": "x", "duration": "...", "category": "...", "type": "attraction | restaurant | event | local-gem", "mapsQuery": "...", "priceLevel": "$$", "rating": 4.5, "openingHours": "...", "latitude": 0, "longitude": 0 }
+  `;
+};
@@ -0,0 +1,173 @@
+// Revision log helpers for the Itinerary model.
+// Every change to `plan` appends a full snapshot to the Revision collection; undo/redo move
+// `currentRevision` along the itinerary's `revisionNumbers`, and a new change made after an
+// undo discards the redo branch.
+
+import { Revision } from '../models/Revision';
+import { ACTIVITY_PERIODS } from '../../types';
+import { ActivityEdit } from './itineraryEditor';
+
+export type RevisionReason = 'generation' | 'regenerate' | 'delete' | 'insert' | 'reorder' | 'optimize' | 'restore';
+
+// Activity swaps come from the regenerate flow, so 'replace' is logged as a regeneration
+export const EDIT_REASONS: Record<ActivityEdit['op'], RevisionReason> = {
+  replace: 'regenerate',
+  delete: 'delete',
+  insert: 'insert',
+  reorder: 'reorder'
+};
+
+export const MAX_REVISIONS = 50;
+
+// Reasons whose summaries name activities (see describeActivityEdit)
+const ACTIVITY_EDIT_REASONS: RevisionReason[] = Object.values(EDIT_REASONS);
+
+const MASKED_SUMMARIES: Partial<Record<RevisionReason, string>> = {
+  regenerate: 'Activity replaced',
+  delete: 'Activity removed',
+  insert: 'Activity added',
+  reorder: 'Activities reordered'
+};
+
+// A revision's summary as a locked itinerary may show it: edits can name activities on
+// days the preview hides (or that were visible before a refund locked the trip again)
+export const visibleSummary = (revision: any, unlocked: boolean): string =>
+  unlocked || !ACTIVITY_EDIT_REASONS.includes(revision.reason) ? revision.summary : MASKED_SUMMARIES[revision.reason as RevisionReason] || '';
+
+export interface RevisionChange {
+  dayNumber: number;
+  period?: string;
+  change: 'added' | 'removed' | 'updated' | 'reordered' | 'day-added' | 'day-removed' | 'day-updated';
+  activity?: string;
+  before?: any;
+  after?: any;
+}
+
+const clonePlan = (plan: any) => JSON.parse(JSON.stringify(plan));
+
+const revisionNumbers = (itinerary: any): number[] => itinerary.revisionNumbers || [];
+
+const currentIndex = (itinerary: any): number => revisionNumbers(itinerary).indexOf(itinerary.currentRevision);
+
+const findRevision = (itinerary: any, number: number) =>
+  revisionNumbers(itinerary).includes(number) ? Revision.findOne({ itineraryId: itinerary.id, number }) : null;
+
+// Seeds the log with the current plan for itineraries created before revisions existed
+export const ensureRevisionBaseline = async (itinerary: any) => {
+  if (revisionNumbers(itinerary).length > 0) return;
+  await Revision.create({ itineraryId: itinerary.id, number: 1, reason: 'generation', summary: 'Itinerary generated', plan: clonePlan(itinerary.plan), createdAt: itinerary.createdAt || new Date() });
+  itinerary.revisionNumbers = [1];
+  itinerary.currentRevision = 1;
+};
+
+// Appends the itinerary's current plan as a new revision, dropping the redo branch and anything past MAX_REVISIONS.
+// The itinerary itself still needs saving afterwards.
+export const recordRevision = async (itinerary: any, reason: RevisionReason, summary = '') => {
+  const numbers = revisionNumbers(itinerary);
+  const index = currentIndex(itinerary);
+  const number = numbers.reduce((max, n) => Math.max(max, n), 0) + 1;
+  const kept = [...(index === -1 ? numbers : numbers.slice(0, index + 1)), number].slice(-MAX_REVISIONS);
+
+  await Revision.create({ itineraryId: itinerary.id, number, reason, summary, plan: clonePlan(itinerary.plan) });
+  await Revision.deleteMany({ itineraryId: itinerary.id, number: { $nin: kept } });
+  itinerary.revisionNumbers = kept;
+  itinerary.currentRevision = number;
+};
+
+export const getHistoryState = (itinerary: any) => {
+  const index = currentIndex(itinerary);
+  return {
+    revision: itinerary.currentRevision || 0,
+    canUndo: index > 0,
+    canRedo: index !== -1 && index < revisionNumbers(itinerary).length - 1
+  };
+};
+
+// The kept revisions, oldest first, without their plans
+export const listRevisions = (itinerary: any) =>
+  Revision.find({ itineraryId: itinerary.id, number: { $in: revisionNumbers(itinerary) } }, { plan: 0 }).sort({ number: 1 });
+
+// Both revisions with their plans, or null if either is not in the log
+export const findRevisionPair = async (itinerary: any, from: number, to: number) => {
+  const [fromRevision, toRevision] = await Promise.all([findRevision(itinerary, from), findRevision(itinerary, to)]);
+  return fromRevision && toRevision ? { from: fromRevision, to: toRevision } : null;
+};
+
+// Moves the plan one revision back (-1) or forward (+1) without writing a new revision
+export const stepRevision = async (itinerary: any, direction: -1 | 1): Promise<boolean> => {
+  const index = currentIndex(itinerary);
+  const number = index === -1 ? undefined : revisionNumbers(itinerary)[index + direction];
+  const target = number === undefined ? null : await findRevision(itinerary, number);
+  if (!target) return false;
+
+  itinerary.plan = clonePlan(target.plan);
+  itinerary.currentRevision = target.number;
+  return true;
+};
+
+// Copies an older revision's plan forward as a new 'restore' revision
+export const restoreRevision = async (itinerary: any, number: number): Promise<boolean> => {
+  const target = await findRevision(itinerary, number);
+  if (!target) return false;
+
+  itinerary.plan = clonePlan(target.plan);
+  await recordRevision(itinerary, 'restore', `Restored revision ${number}`);
+  return true;
+};
+
+const findDay = (plan: any, dayNumber: number) =>
+  (plan?.days || []).find((d: any) => d.dayNumber === dayNumber);
+
+const sameJSON = (a: any, b: any) => JSON.stringify(a) === JSON.stringify(b);
+
+// Lists what changed between two plans, by day, period and activity name
+export const diffPlans = (fromPlan: any, toPlan: any): RevisionChange[] => {
+  const changes: RevisionChange[] = [];
+  const dayNumbers = new Set<number>([
+    ...(fromPlan?.days || []).map((d: any) => d.dayNumber),
+    ...(toPlan?.days || []).map((d: any) => d.dayNumber)
+  ]);
+
+  [...dayNumbers].sort((a, b) => a - b).forEach(dayNumber => {
+    const before = findDay(fromPlan, dayNumber);
+    const after = findDay(toPlan, dayNumber);
+    if (!before || !after) {
+      changes.push({ dayNumber, change: before ? 'day-removed' : 'day-added' });
+      return;
+    }
+
+    // Travel legs are derived from the activities, so they never count as a change of their own
+    const { morning: _m1, afternoon: _a1, evening: _e1, travelLegs: _t1, ...beforeMeta } = before;
+    const { morning: _m2, afternoon: _a2, evening: _e2, travelLegs: _t2, ...afterMeta } = after;
+    if (!sameJSON(beforeMeta, afterMeta)) changes.push({ dayNumber, change: 'day-updated' });
+
+    ACTIVITY_PERIODS.forEach(period => {
+      const beforeList: any[] = before[period] || [];
+      const afterList: any[] = after[period] || [];
+      const beforeNames = beforeList.map(a => a.name);
+      const afterNames = afterList.map(a => a.name);
+
+      beforeList.forEach(activity => {
+        const match = afterList.find(a => a.name === activity.name);
+        if (!match) {
+          changes.push({ dayNumber, period, change: 'removed', activity: activity.name, before: activity });
+        } else if (!sameJSON(activity, match)) {
+          changes.push({ dayNumber, period, change: 'updated', activity: activity.name, before: activity, after: match });
+        }
+      });
+      afterList.forEach(activity => {
+        if (!beforeNames.includes(activity.name)) {
+          changes.push({ dayNumber, period, change: 'added', activity: activity.name, after: activity });
+        }
+      });
+
+      const sharedBefore = beforeNames.filter(n => afterNames.includes(n));
+      const sharedAfter = afterNames.filter(n => beforeNames.includes(n));
+      if (!sameJSON(sharedBefore, sharedAfter)) {
+        changes.push({ dayNumber, period, change: 'reordered', before: sharedBefore, after: sharedAfter });
+      }
+    });
+  });
+
+  return changes;
+};
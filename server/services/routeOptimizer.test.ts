@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { dayDistanceKm, haversineKm, optimizeRoute, parseOpeningHours } from './routeOptimizer';
+
+// Synthetic points along the equator: 0.01° of longitude is about 1.1 km
+const at = (name: string, longitude: number, extra: any = {}) => ({ name, latitude: 0.001, longitude, ...extra });
+const day = (dayNumber: number, morning: any[], extra: any = {}) => ({ dayNumber, morning, afternoon: [], evening: [], ...extra });
+const names = (d: any) => d.morning.map((a: any) => a.name);
+
+describe('haversineKm', () => {
+  it('measures 1° of latitude as about 111 km', () => {
+    expect(haversineKm({ latitude: 0, longitude: 10 }, { latitude: 1, longitude: 10 })).toBeCloseTo(111.2, 0);
+  });
+});
+
+describe('parseOpeningHours', () => {
+  it('reads common formats', () => {
+    expect(parseOpeningHours('9:00 AM - 5:00 PM')).toEqual({ open: 540, close: 1020 });
+    expect(parseOpeningHours('10am to 6pm')).toEqual({ open: 600, close: 1080 });
+    expect(parseOpeningHours('Open 24 hours')).toEqual({ open: 0, close: 1440 });
+    expect(parseOpeningHours('Varies')).toBeNull();
+  });
+});
+
+describe('optimizeRoute', () => {
+  it('orders a period into the shortest loop from the hotel', () => {
+    const plan = { days: [day(1, [at('C', 0.03), at('A', 0.01), at('B', 0.02)], { hotel: at('Hotel', 0) })] };
+    const { plan: optimized, report } = optimizeRoute(plan);
+    // The loop is as short walked either way round
+    expect(['A,B,C', 'C,B,A']).toContain(names(optimized.days[0]).join());
+    expect(report.totalAfterKm).toBeLessThan(report.totalBeforeKm);
+    expect(dayDistanceKm(optimized.days[0])).toBeCloseTo(report.days[0].afterKm, 1);
+  });
+
+  it('keeps fixed plans and events in their slots', () => {
+    const plan = { days: [day(1, [at('C', 0.03), at('Concert', 0.05, { type: 'event' }), at('A', 0.01), at('Dinner', 0.04, { isFixedPlan: true })], { hotel: at('Hotel', 0) })] };
+    const morning = names(optimizeRoute(plan).plan.days[0]);
+    expect(morning[1]).toBe('Concert');
+    expect(morning[3]).toBe('Dinner');
+  });
+
+  // Day 1 sits around 0°, day 2 around 1°; each has one stop that belongs to the other
+  const crossedDays = (extraOnDay1: any = {}, dayExtra: any = {}) => ({
+    days: [
+      day(1, [at('Near 1', 0.01), at('Far', 1.01, extraOnDay1)], { hotel: at('Hotel 1', 0), ...dayExtra }),
+      day(2, [at('Near 2', 1.02), at('Stray', 0.02)], { hotel: at('Hotel 2', 1) })
+    ]
+  });
+
+  it('swaps activities between days only when asked to', () => {
+    expect(optimizeRoute(crossedDays()).report.movedBetweenDays).toBe(0);
+
+    const { plan, report } = optimizeRoute(crossedDays(), { allowDayMoves: true });
+    expect(report.movedBetweenDays).toBe(2);
+    expect(names(plan.days[0])).toContain('Stray');
+    expect(names(plan.days[1])).toContain('Far');
+  });
+
+  it('never moves dated events to another day', () => {
+    const { report } = optimizeRoute(crossedDays({ type: 'event' }), { allowDayMoves: true });
+    expect(report.movedBetweenDays).toBe(0);
+  });
+
+  it("never moves the day's highlight event to another day", () => {
+    const plan = crossedDays({}, { highlightEvent: { name: 'far', description: '', mapsQuery: '' } });
+    expect(optimizeRoute(plan, { allowDayMoves: true }).report.movedBetweenDays).toBe(0);
+  });
+
+  it('keeps activities within their own city on multi-city trips', () => {
+    const plan = crossedDays();
+    plan.days[1] = { ...plan.days[1], legIndex: 1 } as any;
+    expect(optimizeRoute(plan, { allowDayMoves: true }).report.movedBetweenDays).toBe(0);
+  });
+});
@@ -0,0 +1,292 @@
+// Deterministic route optimisation for a generated plan.
+// Reorders the activities inside each period so the day is walked in the shortest
+// loop from (and back to) the day's hotel, and can optionally swap activities between days
+// when that shortens both. Everything here is pure: same plan in, same plan out.
+//
+// Constraints:
+//   - fixed plans, dated events (including the day's highlight event) and activities
+//     without coordinates never move
+//   - activities stay in their period, so dinner stays in the evening
+//   - an order is only used if every activity with parseable opening hours can be
+//     reached while it is open; otherwise the original order is kept
+
+import { ACTIVITY_PERIODS, ActivityPeriod } from '../../types';
+import { PERIOD_WINDOWS, parseDurationMinutes } from './calendarExport';
+
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface OptimizeOptions {
+  allowDayMoves?: boolean;
+}
+
+export interface DayDistance {
+  dayNumber: number;
+  beforeKm: number;
+  afterKm: number;
+}
+
+export interface OptimizeReport {
+  days: DayDistance[];
+  totalBeforeKm: number;
+  totalAfterKm: number;
+  movedBetweenDays: number;
+}
+
+// Rough door-to-door speed used only to check opening hours, not shown to anyone
+const FEASIBILITY_SPEED_KMH = 15;
+// Periods longer than this fall back to a nearest-neighbour order instead of trying every permutation
+const MAX_EXHAUSTIVE_STOPS = 7;
+const MAX_SWAP_PASSES = 20;
+const EPSILON_KM = 0.01;
+
+const EARTH_RADIUS_KM = 6371;
+
+export const haversineKm = (a: GeoPoint, b: GeoPoint): number => {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = rad(b.latitude - a.latitude);
+  const dLng = rad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(rad(a.latitude)) * Math.cos(rad(b.latitude)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+export const hasCoordinates = (item: any): item is GeoPoint =>
+  !!item && typeof item.latitude === 'number' && typeof item.longitude === 'number' &&
+  Math.abs(item.latitude) <= 90 && Math.abs(item.longitude) <= 180 && !(item.latitude === 0 && item.longitude === 0);
+
+type PinCheck = (activity: any) => boolean;
+
+// Events are booked for their date, so like the traveller's own plans they stay where they are
+const isPinned: PinCheck = activity =>
+  !!activity?.isFixedPlan || activity?.type === 'user-plan' || activity?.type === 'event' || !hasCoordinates(activity);
+
+const normaliseName = (name: any) => (typeof name === 'string' ? name.trim().toLowerCase() : '');
+
+const round = (km: number) => Math.round(km * 100) / 100;
+
+// Sum of the straight-line legs between consecutive points that have coordinates
+const pathKm = (points: any[]): number => {
+  let total = 0;
+  let previous: GeoPoint | null = null;
+  points.forEach(point => {
+    if (!hasCoordinates(point)) return;
+    if (previous) total += haversineKm(previous, point);
+    previous = point;
+  });
+  return total;
+};
+
+const activitiesOf = (day: any): any[] => ACTIVITY_PERIODS.flatMap(period => day?.[period] || []);
+
+// Each day starts and ends at `day.hotel` (see services/hotels) when it has coordinates
+const anchorOf = (day: any): GeoPoint | null => (hasCoordinates(day?.hotel) ? day.hotel : null);
+
+// Hotel -> every activity in visiting order -> hotel
+export const dayDistanceKm = (day: any): number => {
+  const stops = activitiesOf(day);
+  const hotel = anchorOf(day);
+  return pathKm(hotel ? [hotel, ...stops, hotel] : stops);
+};
+
+const parseClock = (hour: string, minute: string | undefined, meridiem: string | undefined) => {
+  let h = Number(hour) % 24;
+  if (meridiem) h = (h % 12) + (meridiem.toLowerCase() === 'pm' ? 12 : 0);
+  return h * 60 + Number(minute || 0);
+};
+
+// Reads "9:00 AM - 5:00 PM", "09:00–17:30", "10am to 6pm" or "Open 24 hours".
+// Returns null when the text can't be read, which means "no constraint".
+export const parseOpeningHours = (text?: string): { open: number; close: number } | null => {
+  const value = (text || '').toLowerCase();
+  if (/24\s*(hours|hrs|h)\b|24\/7/.test(value)) return { open: 0, close: 24 * 60 };
+
+  const match = value.match(/(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?\s*(?:-|–|—|to)\s*(\d{1,2})(?:[:.](\d{2}))?\s*(am|pm)?/);
+  if (!match) return null;
+
+  // "9-5pm": the opening time borrows the closing meridiem only if that keeps it before closing
+  const close = parseClock(match[4], match[5], match[6]);
+  let open = parseClock(match[1], match[2], match[3]);
+  if (!match[3] && match[6]) {
+    const borrowed = parseClock(match[1], match[2], match[6]);
+    if (borrowed < close) open = borrowed;
+  }
+  return { open, close: close <= open ? close + 24 * 60 : close };
+};
+
+// Walks a period in order from `from`, waiting for places that aren't open yet.
+// False when any activity would be reached too late to finish before closing.
+const fitsOpeningHours = (period: ActivityPeriod, activities: any[], from: GeoPoint | null): boolean => {
+  let clock = PERIOD_WINDOWS[period].start;
+  let previous = from;
+  for (const activity of activities) {
+    if (previous && hasCoordinates(activity)) clock += (haversineKm(previous, activity) / FEASIBILITY_SPEED_KMH) * 60;
+    const duration = parseDurationMinutes(activity.duration);
+    const hours = parseOpeningHours(activity.openingHours);
+    if (hours) {
+      if (clock < hours.open) clock = hours.open;
+      if (clock + duration > hours.close) return false;
+    }
+    clock += duration;
+    if (hasCoordinates(activity)) previous = activity;
+  }
+  return true;
+};
+
+const lastPoint = (activities: any[], fallback: GeoPoint | null): GeoPoint | null =>
+  [...activities].reverse().find(hasCoordinates) || fallback;
+
+const permutations = <T>(items: T[]): T[][] => {
+  if (items.length <= 1) return [items];
+  return items.flatMap((item, i) =>
+    permutations([...items.slice(0, i), ...items.slice(i + 1)]).map(rest => [item, ...rest]));
+};
+
+const nearestNeighbour = (items: any[], from: GeoPoint | null): any[] => {
+  const remaining = [...items];
+  const ordered: any[] = [];
+  let current = from;
+  while (remaining.length > 0) {
+    let best = 0;
+    if (current) {
+      remaining.forEach((item, i) => {
+        if (haversineKm(current!, item) < haversineKm(current!, remaining[best])) best = i;
+      });
+    }
+    current = remaining[best];
+    ordered.push(...remaining.splice(best, 1));
+  }
+  return ordered;
+};
+
+// Best order for one period. Pinned activities keep their slot; the rest fill the other slots.
+const orderPeriod = (period: ActivityPeriod, activities: any[], from: GeoPoint | null, to: GeoPoint | null, pinned: PinCheck): any[] => {
+  const movable = activities.filter(a => !pinned(a));
+  if (movable.length < 2) return activities;
+
+  const fill = (order: any[]) => {
+    const queue = [...order];
+    return activities.map(a => (pinned(a) ? a : queue.shift()));
+  };
+  const cost = (list: any[]) => pathKm([from, ...list, to]);
+
+  const candidates = movable.length <= MAX_EXHAUSTIVE_STOPS
+    ? permutations(movable).map(fill)
+    : [fill(nearestNeighbour(movable, from))];
+
+  let best = fitsOpeningHours(period, activities, from) ? activities : null;
+  let bestCost = best ? cost(best) : Infinity;
+  candidates.forEach(candidate => {
+    const candidateCost = cost(candidate);
+    if (candidateCost < bestCost - 1e-9 && fitsOpeningHours(period, candidate, from)) {
+      best = candidate;
+      bestCost = candidateCost;
+    }
+  });
+  return best || activities;
+};
+
+// Orders every period of a day, carrying the last stop forward as the next period's start
+const optimizeDay = (day: any, pinned: PinCheck): any => {
+  const result = { ...day };
+  const hotel = anchorOf(day);
+  const lastPeriod = [...ACTIVITY_PERIODS].reverse().find(p => (day[p] || []).length > 0);
+  let from = hotel;
+  ACTIVITY_PERIODS.forEach(period => {
+    const activities: any[] = day[period] || [];
+    if (activities.length === 0) return;
+    result[period] = orderPeriod(period, activities, from, period === lastPeriod ? hotel : null, pinned);
+    from = lastPoint(result[period], from);
+  });
+  // Periods are ordered one after another, so guard against a later period paying for an earlier one
+  return dayDistanceKm(result) <= dayDistanceKm(day) ? result : day;
+};
+
+// Periods of the day whose order can't be kept within opening hours
+const openingHourConflicts = (day: any): number => {
+  let from = anchorOf(day);
+  return ACTIVITY_PERIODS.filter(period => {
+    const activities: any[] = day[period] || [];
+    const fits = fitsOpeningHours(period, activities, from);
+    from = lastPoint(activities, from);
+    return !fits;
+  }).length;
+};
+
+// Hill-climbs on swaps of two movable activities in the same period on different days.
+// Swapping (rather than moving) keeps every day's load unchanged.
+const swapBetweenDays = (days: any[], pinned: PinCheck): any[] => {
+  let current = days.map(day => optimizeDay(day, pinned));
+
+  for (let pass = 0; pass < MAX_SWAP_PASSES; pass++) {
+    let improved = false;
+    for (let d1 = 0; d1 < current.length && !improved; d1++) {
+      for (let d2 = d1 + 1; d2 < current.length && !improved; d2++) {
+        // On multi-city trips activities only swap between days in the same city
+        if ((current[d1].legIndex ?? 0) !== (current[d2].legIndex ?? 0)) continue;
+        for (const period of ACTIVITY_PERIODS) {
+          const a: any[] = current[d1][period] || [];
+          const b: any[] = current[d2][period] || [];
+          const before = dayDistanceKm(current[d1]) + dayDistanceKm(current[d2]);
+          const conflicts = openingHourConflicts(current[d1]) + openingHourConflicts(current[d2]);
+
+          for (let i = 0; i < a.length && !improved; i++) {
+            if (pinned(a[i])) continue;
+            for (let j = 0; j < b.length && !improved; j++) {
+              if (pinned(b[j])) continue;
+              const nextA = optimizeDay({ ...current[d1], [period]: a.map((x, k) => (k === i ? b[j] : x)) }, pinned);
+              const nextB = optimizeDay({ ...current[d2], [period]: b.map((x, k) => (k === j ? a[i] : x)) }, pinned);
+              // A swap may not add opening-hour conflicts, though days that already had one can still improve
+              if (dayDistanceKm(nextA) + dayDistanceKm(nextB) < before - EPSILON_KM &&
+                  openingHourConflicts(nextA) + openingHourConflicts(nextB) <= conflicts) {
+                current = current.map((day, k) => (k === d1 ? nextA : k === d2 ? nextB : day));
+                improved = true;
+              }
+            }
+          }
+          if (improved) break;
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return current;
+};
+
+// Returns a reordered copy of the plan and the distance per day before and after
+export const optimizeRoute = (plan: any, options: OptimizeOptions = {}): { plan: any; report: OptimizeReport } => {
+  const days: any[] = Array.isArray(plan?.days) ? plan.days : [];
+
+  // The activity a day's highlightEvent points at belongs to that date too
+  const highlights = new Set(days.flatMap(day => {
+    const highlight = normaliseName(day?.highlightEvent?.name);
+    return highlight ? activitiesOf(day).filter(activity => normaliseName(activity?.name) === highlight) : [];
+  }));
+  const pinned: PinCheck = activity => isPinned(activity) || highlights.has(activity);
+
+  const optimized = options.allowDayMoves
+    ? swapBetweenDays(days, pinned)
+    : days.map(day => optimizeDay(day, pinned));
+  // Activities are moved by reference, so anything no longer on its original day has moved
+  const moved = days.reduce((count, day, i) => {
+    const after = activitiesOf(optimized[i]);
+    return count + activitiesOf(day).filter(activity => !after.includes(activity)).length;
+  }, 0);
+
+  const report = days.map((day, i) => ({
+    dayNumber: day.dayNumber,
+    beforeKm: round(dayDistanceKm(day)),
+    afterKm: round(dayDistanceKm(optimized[i]))
+  }));
+
+  return {
+    plan: { ...plan, days: optimized },
+    report: {
+      days: report,
+      totalBeforeKm: round(report.reduce((sum, d) => sum + d.beforeKm, 0)),
+      totalAfterKm: round(report.reduce((sum, d) => sum + d.afterKm, 0)),
+      movedBetweenDays: moved
+    }
+  };
+};
@@ -0,0 +1,56 @@
+// View-only share links for an itinerary.
+// Unlike the owner token, a share token never grants writes, and the owner can
+// revoke it or give it an expiry. Tokens are stored as-is so the owner can copy them again.
+
+import { Itinerary } from '../models/Itinerary';
+import { createToken } from './auth';
+
+export const MAX_SHARE_LINK_DAYS = 365;
+
+export const isShareLinkActive = (link: any, now = new Date()) =>
+  !link.revokedAt && (!link.expiresAt || link.expiresAt > now);
+
+// Validates the requested lifetime: undefined/null means "never expires"
+export const parseExpiresInDays = (value: any): { days?: number | null; error?: string } => {
+  if (value === undefined || value === null || value === '') return { days: null };
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 1 || days > MAX_SHARE_LINK_DAYS) {
+    return { error: `expiresInDays must be a whole number between 1 and ${MAX_SHARE_LINK_DAYS}` };
+  }
+  return { days };
+};
+
+// Adds a new link to the (unsaved) itinerary document and returns it
+export const addShareLink = (itinerary: any, expiresInDays: number | null) => {
+  const link = {
+    token: createToken(),
+    expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+    revokedAt: null,
+    createdAt: new Date()
+  };
+  itinerary.shareLinks.push(link);
+  return link;
+};
+
+// Marks the link revoked; false when the itinerary has no such link
+export const revokeShareLink = (itinerary: any, token: string) => {
+  const link = (itinerary.shareLinks || []).find((l: any) => l.token === token);
+  if (!link) return false;
+  if (!link.revokedAt) link.revokedAt = new Date();
+  return true;
+};
+
+// Links the owner still cares about: active ones, newest first
+export const listShareLinks = (itinerary: any) =>
+  (itinerary.shareLinks || [])
+    .filter((l: any) => isShareLinkActive(l))
+    .map((l: any) => ({ token: l.token, expiresAt: l.expiresAt, createdAt: l.createdAt }))
+    .reverse();
+
+// Resolves a share token to its itinerary, or null when unknown, revoked or expired
+export const findSharedItinerary = async (token: string) => {
+  const itinerary = await Itinerary.findOne({ 'shareLinks.token': token });
+  if (!itinerary) return null;
+  const link = itinerary.shareLinks.find((l: any) => l.token === token);
+  return link && isShareLinkActive(link) ? { itinerary, link } : null;
+};
@@ -0,0 +1,127 @@
+// Travel legs between consecutive activities of a day.
+// Legs are derived from coordinates and stored on each day as `travelLegs`, so they are
+// recomputed whenever the plan is written (generation, edits, route optimisation), along
+// with each activity's distance from the day's hotel.
+// Distances are straight-line; travel times scale them by a detour factor to approximate streets.
+
+import { ACTIVITY_PERIODS, ActivityPeriod } from '../../types';
+import { hasCoordinates, haversineKm } from './routeOptimizer';
+
+export type TravelMode = 'walk' | 'transit' | 'drive';
+
+export interface TravelConfig {
+  speedsKmh: Record<TravelMode, number>;
+  detourFactor: number;
+  transitWaitMinutes: number; // added to every transit leg for walking to the stop and waiting
+  maxWalkMinutes: number; // longer walks are suggested as transit, or a drive beyond maxTransitKm
+  maxTransitKm: number;
+  paceThresholds: Record<string, number>; // minutes of the suggested mode before a leg is flagged
+}
+
+export interface TravelStop {
+  period: ActivityPeriod;
+  index: number;
+}
+
+export interface TravelLeg {
+  from: TravelStop;
+  to: TravelStop;
+  distanceKm: number;
+  walkMinutes: number;
+  transitMinutes: number;
+  driveMinutes: number;
+  mode: TravelMode;
+  minutes: number; // for the suggested mode
+  tooLong: boolean;
+}
+
+export const DEFAULT_TRAVEL_CONFIG: TravelConfig = {
+  speedsKmh: { walk: 4.5, transit: 20, drive: 30 },
+  detourFactor: 1.3,
+  transitWaitMinutes: 8,
+  maxWalkMinutes: 20,
+  maxTransitKm: 30,
+  paceThresholds: { Slow: 20, Balanced: 30, Fast: 45 }
+};
+
+// Reads TRAVEL_CONFIG (JSON) from the environment, falling back to the defaults for any missing key
+export const loadTravelConfig = (raw = process.env.TRAVEL_CONFIG): TravelConfig => {
+  if (!raw) return DEFAULT_TRAVEL_CONFIG;
+  try {
+    const parsed = JSON.parse(raw);
+    return {
+      ...DEFAULT_TRAVEL_CONFIG,
+      ...parsed,
+      speedsKmh: { ...DEFAULT_TRAVEL_CONFIG.speedsKmh, ...parsed.speedsKmh },
+      paceThresholds: { ...DEFAULT_TRAVEL_CONFIG.paceThresholds, ...parsed.paceThresholds }
+    };
+  } catch (e) {
+    console.warn("Invalid TRAVEL_CONFIG, using default travel speeds:", e);
+    return DEFAULT_TRAVEL_CONFIG;
+  }
+};
+
+export const buildLeg = (a: any, b: any, from: TravelStop, to: TravelStop, pace: string | undefined, config: TravelConfig): TravelLeg => {
+  const distanceKm = haversineKm(a, b);
+  const minutesBy = (mode: TravelMode) => Math.round((distanceKm * config.detourFactor / config.speedsKmh[mode]) * 60);
+
+  const walkMinutes = minutesBy('walk');
+  const transitMinutes = minutesBy('transit') + config.transitWaitMinutes;
+  const driveMinutes = minutesBy('drive');
+
+  const mode: TravelMode = walkMinutes <= config.maxWalkMinutes ? 'walk' : distanceKm <= config.maxTransitKm ? 'transit' : 'drive';
+  const minutes = mode === 'walk' ? walkMinutes : mode === 'transit' ? transitMinutes : driveMinutes;
+  const threshold = config.paceThresholds[pace || 'Balanced'] ?? config.paceThresholds.Balanced;
+
+  return {
+    from,
+    to,
+    distanceKm: Math.round(distanceKm * 100) / 100,
+    walkMinutes,
+    transitMinutes,
+    driveMinutes,
+    mode,
+    minutes,
+    tooLong: minutes > threshold
+  };
+};
+
+// Legs between each pair of neighbouring activities in visiting order, including the hop
+// from one period into the next. A pair is skipped when either side has no coordinates.
+export const computeDayLegs = (day: any, pace?: string, config = loadTravelConfig()): TravelLeg[] => {
+  const stops = ACTIVITY_PERIODS.flatMap(period =>
+    (day?.[period] || []).map((activity: any, index: number) => ({ activity, stop: { period, index } })));
+
+  const legs: TravelLeg[] = [];
+  for (let i = 1; i < stops.length; i++) {
+    const previous = stops[i - 1];
+    const next = stops[i];
+    if (hasCoordinates(previous.activity) && hasCoordinates(next.activity)) {
+      legs.push(buildLeg(previous.activity, next.activity, previous.stop, next.stop, pace, config));
+    }
+  }
+  return legs;
+};
+
+// Straight-line distance from the day's hotel, or undefined when either end has no coordinates
+const distanceFromHotel = (activity: any, hotel: any) =>
+  hasCoordinates(activity) && hasCoordinates(hotel) ? Math.round(haversineKm(hotel, activity) * 100) / 100 : undefined;
+
+// Returns a copy of the plan with `travelLegs` set on every day and each activity's `distanceFromHotelKm`
+export const withTravelLegs = (plan: any, pace?: string, config = loadTravelConfig()): any => {
+  if (!plan || !Array.isArray(plan.days)) return plan;
+  return {
+    ...plan,
+    days: plan.days.map((day: any) => {
+      const updated: any = { ...day, travelLegs: computeDayLegs(day, pace, config) };
+      ACTIVITY_PERIODS.forEach(period => {
+        updated[period] = (day[period] || []).map((activity: any) => {
+          const { distanceFromHotelKm, ...rest } = activity;
+          const distance = distanceFromHotel(activity, day.hotel);
+          return distance === undefined ? rest : { ...rest, distanceFromHotelKm: distance };
+        });
+      });
+      return updated;
+    })
+  };
+};
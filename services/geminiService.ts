@@ -1,8 +1,60 @@
 
-import { UserPreferences, SmartQuestion, Itinerary, Activity, DayPlan } from "../types";
+import { UserPreferences, SmartQuestion, Itinerary, Activity, ActivityContext, DayPlan, ActivityEdit, ActivityPeriod, ItineraryPayload, GenerationEvent, ItineraryRevision, RevisionChange, ItineraryPrice, PromoQuote, AccountUser, TripSummary, ShareLink, SharedItineraryPayload, Collaborator, ActivityFeedback, QuestionDeck, MergeStrategy, DeckMerge, RouteReport } from "../types";
+import { describeFieldErrors, validateActivity, validatePreferences, validateSaveEmailRequest } from "../validation";
 
 const API_BASE = 'http://localhost:3001/api';
 
+// Session token from magic-link sign-in, sent as a bearer token
+const SESSION_KEY = 'tripdaddy_session';
+
+const authHeaders = (): Record<string, string> => {
+    const token = localStorage.getItem(SESSION_KEY);
+    return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// Owner tokens for itineraries generated in this browser: { [itineraryId]: token }
+const OWNER_TOKENS_KEY = 'tripdaddy_owner_tokens';
+
+const readOwnerTokens = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(OWNER_TOKENS_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+const rememberOwnerToken = (itineraryId: string, token: string) => {
+    localStorage.setItem(OWNER_TOKENS_KEY, JSON.stringify({ ...readOwnerTokens(), [itineraryId]: token }));
+};
+
+// Headers proving ownership of an itinerary: its owner token and/or the signed-in session
+const ownerHeaders = (itineraryId: string): Record<string, string> => {
+    const token = readOwnerTokens()[itineraryId];
+    return { ...authHeaders(), ...(token ? { 'X-Owner-Token': token } : {}) };
+};
+
+// Invite tokens for group trips this browser was invited to: { [itineraryId]: token }
+const COLLABORATOR_TOKENS_KEY = 'tripdaddy_collaborator_tokens';
+
+const readCollaboratorTokens = (): Record<string, string> => {
+    try {
+        return JSON.parse(localStorage.getItem(COLLABORATOR_TOKENS_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+// Called when arriving from an invite email
+export const rememberCollaboratorToken = (itineraryId: string, token: string) => {
+    localStorage.setItem(COLLABORATOR_TOKENS_KEY, JSON.stringify({ ...readCollaboratorTokens(), [itineraryId]: token }));
+};
+
+// Owner headers plus the collaborator invite token, for routes collaborators may use
+const memberHeaders = (itineraryId: string): Record<string, string> => {
+    const token = readCollaboratorTokens()[itineraryId];
+    return { ...ownerHeaders(itineraryId), ...(token ? { 'X-Collaborator-Token': token } : {}) };
+};
+
 export const validateDestination = async (destination: string): Promise<{ isValid: boolean, formattedName?: string }> => {
   try {
     const res = await fetch(`${API_BASE}/validate-destination`, {
@@ -17,36 +69,374 @@ export const validateDestination = async (destination: string): Promise<{ isVali
 };
 
 export const checkEventsAndGetQuestions = async (prefs: UserPreferences): Promise<SmartQuestion[]> => {
+  const { errors } = validatePreferences(prefs);
+  if (errors) {
+    console.warn("Not asking for questions, invalid preferences:", describeFieldErrors(errors));
+    return [];
+  }
   try {
     const res = await fetch(`${API_BASE}/check-events`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ prefs })
     });
+    if (!res.ok) return [];
     return await res.json();
   } catch (error) {
     return [];
   }
 };
 
-export const generateItinerary = async (prefs: UserPreferences): Promise<{ id: string, plan: Itinerary, unlocked: boolean, totalDays: number, images: Record<number, string> } | null> => {
+// Shares the follow-up questions with the group; returns the deck id and the organiser's token
+export const createQuestionDeck = async (destination: string, questions: SmartQuestion[]): Promise<{ id: string, ownerToken: string } | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/question-decks`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ destination, questions })
+        });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        console.error("Share questions failed", e);
+        return null;
+    }
+};
+
+export const getQuestionDeck = async (deckId: string): Promise<QuestionDeck | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/question-decks/${deckId}`);
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+// Our own response to each question deck answered in this browser: { [deckId]: { responseId, responseToken } }
+const DECK_RESPONSES_KEY = 'tripdaddy_deck_responses';
+
+const readDeckResponses = (): Record<string, { responseId: string, responseToken: string }> => {
+    try {
+        return JSON.parse(localStorage.getItem(DECK_RESPONSES_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+// Answering the same deck again from this browser replaces the earlier swipes
+export const submitDeckResponse = async (deckId: string, name: string, answers: Record<string, boolean>): Promise<{ success: boolean, error?: string }> => {
+    try {
+        const res = await fetch(`${API_BASE}/question-decks/${deckId}/responses`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ name, answers, ...readDeckResponses()[deckId] })
+        });
+        const data = await res.json();
+        if (!res.ok) return { success: false, error: data.error };
+        if (data.responseId) {
+            const saved = { responseId: data.responseId, responseToken: data.responseToken };
+            localStorage.setItem(DECK_RESPONSES_KEY, JSON.stringify({ ...readDeckResponses(), [deckId]: saved }));
+        }
+        return { success: true };
+    } catch (e) {
+        return { success: false };
+    }
+};
+
+export const mergeQuestionDeck = async (
+  deckId: string,
+  ownerToken: string,
+  strategy: MergeStrategy,
+  weights: Record<string, number> = {}
+): Promise<DeckMerge | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/question-decks/${deckId}/merge`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', 'X-Owner-Token': ownerToken },
+            body: JSON.stringify({ strategy, weights })
+        });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+// Generates a trip over /generate-trip/stream, passing each progress event to `onEvent`.
+// Resolves to the saved itinerary from the final "done" event, or null if generation failed.
+export const generateItinerary = async (
+  prefs: UserPreferences,
+  onEvent: (event: GenerationEvent) => void = () => {}
+): Promise<ItineraryPayload | null> => {
+  const { errors } = validatePreferences(prefs);
+  if (errors) {
+    console.warn("Not generating, invalid preferences:", describeFieldErrors(errors));
+    return null;
+  }
   try {
-    const res = await fetch(`${API_BASE}/generate-trip`, {
+    const res = await fetch(`${API_BASE}/generate-trip/stream`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
+        headers: { 'Content-Type': 'application/json', ...authHeaders() },
         body: JSON.stringify({ prefs })
     });
-    const data = await res.json();
-    return data;
+    if (!res.ok || !res.body) return null;
+
+    // Server-sent events: "data: <json>" messages separated by a blank line
+    const reader = res.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let result: ItineraryPayload | null = null;
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+        const messages = buffer.split('\n\n');
+        buffer = messages.pop() || '';
+        for (const message of messages) {
+            const data = message.split('\n').filter(line => line.startsWith('data: ')).map(line => line.slice(6)).join('\n');
+            if (!data) continue;
+            const event: GenerationEvent = JSON.parse(data);
+            onEvent(event);
+            if (event.phase === 'done') result = event.itinerary;
+            if (event.phase === 'error') console.warn("Generation failed:", event.error);
+        }
+    }
+
+    if (result?.id && result.ownerToken) rememberOwnerToken(result.id, result.ownerToken);
+    return result;
   } catch (e) {
     console.warn("Generation failed", e);
     return null;
   }
 };
 
-export const getItineraryById = async (id: string): Promise<{ id: string, plan: Itinerary, unlocked: boolean, totalDays: number, images: Record<number, string> } | null> => {
+export const getItineraryById = async (id: string): Promise<ItineraryPayload | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${id}`, { headers: memberHeaders(id) });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+// Download link for the itinerary as an .ics file (locked days are left out by the server)
+export const getCalendarUrl = (itineraryId: string) => `${API_BASE}/itinerary/${itineraryId}/calendar.ics`;
+
+// Download link for the printable PDF; the server refuses it until the itinerary is unlocked
+export const getPdfUrl = (itineraryId: string) => `${API_BASE}/itinerary/${itineraryId}/itinerary.pdf`;
+
+// Download link for each day's route as GeoJSON, KML or GPX
+export const getRouteExportUrl = (itineraryId: string, format: 'geojson' | 'kml' | 'gpx') => `${API_BASE}/itinerary/${itineraryId}/route.${format}`;
+
+export const updateItineraryActivities = async (itineraryId: string, edit: ActivityEdit): Promise<ItineraryPayload | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/activities`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
+            body: JSON.stringify(edit)
+        });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        console.error("Update itinerary failed", e);
+        return null;
+    }
+};
+
+export const optimizeItineraryRoute = async (itineraryId: string, allowDayMoves = false): Promise<(ItineraryPayload & { report: RouteReport }) | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/optimize`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
+            body: JSON.stringify({ allowDayMoves })
+        });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        console.error("Optimize route failed", e);
+        return null;
+    }
+};
+
+export const undoItineraryChange = async (itineraryId: string): Promise<ItineraryPayload | null> => {
     try {
-        const res = await fetch(`${API_BASE}/itinerary/${id}`);
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/undo`, { method: 'POST', headers: ownerHeaders(itineraryId) });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+export const redoItineraryChange = async (itineraryId: string): Promise<ItineraryPayload | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/redo`, { method: 'POST', headers: ownerHeaders(itineraryId) });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+export const getItineraryRevisions = async (itineraryId: string): Promise<{ revision: number, canUndo: boolean, canRedo: boolean, revisions: ItineraryRevision[] } | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/revisions`, { headers: memberHeaders(itineraryId) });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+export const diffItineraryRevisions = async (itineraryId: string, from: number, to: number): Promise<RevisionChange[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/revisions/diff?from=${from}&to=${to}`, { headers: memberHeaders(itineraryId) });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.changes;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const restoreItineraryRevision = async (itineraryId: string, revision: number): Promise<ItineraryPayload | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/revisions/${revision}/restore`, { method: 'POST', headers: ownerHeaders(itineraryId) });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+export const getCollaborators = async (itineraryId: string): Promise<Collaborator[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/collaborators`, { headers: ownerHeaders(itineraryId) });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.collaborators;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const inviteCollaborator = async (itineraryId: string, email: string): Promise<{ collaborators?: Collaborator[], error?: string }> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/collaborators`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
+            body: JSON.stringify({ email })
+        });
+        const data = await res.json();
+        if (!res.ok) return { error: data.error || 'Could not send the invite' };
+        return { collaborators: data.collaborators };
+    } catch (e) {
+        return { error: 'Could not send the invite. Please try again.' };
+    }
+};
+
+export const removeCollaborator = async (itineraryId: string, email: string): Promise<Collaborator[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/collaborators/${encodeURIComponent(email)}`, { method: 'DELETE', headers: ownerHeaders(itineraryId) });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.collaborators;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const getActivityFeedback = async (itineraryId: string): Promise<ActivityFeedback[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/feedback`, { headers: memberHeaders(itineraryId) });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.feedback;
+    } catch (e) {
+        return null;
+    }
+};
+
+// value: 1 (thumbs up), -1 (thumbs down) or 0 (withdraw)
+export const voteOnActivity = async (
+  itineraryId: string,
+  target: { dayNumber: number, period: ActivityPeriod, activityName: string },
+  value: number
+): Promise<ActivityFeedback[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/votes`, {
+            method: 'PUT',
+            headers: { 'Content-Type': 'application/json', ...memberHeaders(itineraryId) },
+            body: JSON.stringify({ ...target, value })
+        });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.feedback;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const proposeReplacement = async (
+  itineraryId: string,
+  target: { dayNumber: number, period: ActivityPeriod, activityName: string },
+  suggestion: string
+): Promise<ActivityFeedback[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/proposals`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...memberHeaders(itineraryId) },
+            body: JSON.stringify({ ...target, suggestion })
+        });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.feedback;
+    } catch (e) {
+        return null;
+    }
+};
+
+export const getShareLinks = async (itineraryId: string): Promise<ShareLink[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/share-links`, { headers: ownerHeaders(itineraryId) });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.links;
+    } catch (e) {
+        return null;
+    }
+};
+
+// expiresInDays = null creates a link that never expires
+export const createShareLink = async (itineraryId: string, expiresInDays: number | null): Promise<ShareLink | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/share-links`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
+            body: JSON.stringify({ expiresInDays })
+        });
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        console.error("Create share link failed", e);
+        return null;
+    }
+};
+
+export const revokeShareLink = async (itineraryId: string, token: string): Promise<boolean> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/share-links/${token}`, { method: 'DELETE', headers: ownerHeaders(itineraryId) });
+        return res.ok;
+    } catch (e) {
+        return false;
+    }
+};
+
+export const getSharedItinerary = async (token: string): Promise<SharedItineraryPayload | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/shared/${token}`);
         if (!res.ok) return null;
         return await res.json();
     } catch (e) {
@@ -55,10 +445,11 @@ export const getItineraryById = async (id: string): Promise<{ id: string, plan:
 };
 
 export const saveUserEmail = async (email: string, itineraryId: string): Promise<boolean> => {
+    if (validateSaveEmailRequest({ email, itineraryId }).errors) return false;
     try {
         const res = await fetch(`${API_BASE}/save-email`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
             body: JSON.stringify({ email, itineraryId })
         });
         return res.ok;
@@ -67,15 +458,42 @@ export const saveUserEmail = async (email: string, itineraryId: string): Promise
     }
 };
 
-export const createCheckoutSession = async (itineraryId: string): Promise<string | null> => {
+export const getItineraryPrice = async (itineraryId: string): Promise<ItineraryPrice | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/itinerary/${itineraryId}/price`);
+        if (!res.ok) return null;
+        return await res.json();
+    } catch (e) {
+        return null;
+    }
+};
+
+export const validatePromoCode = async (itineraryId: string, code: string): Promise<{ quote?: PromoQuote, error?: string }> => {
+    try {
+        const res = await fetch(`${API_BASE}/promo/validate`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json', ...authHeaders() },
+            body: JSON.stringify({ itineraryId, code })
+        });
+        const data = await res.json();
+        if (!res.ok || !data.valid) return { error: data.error || 'This code is not valid' };
+        return { quote: { code: data.code, original: data.original, price: data.price } };
+    } catch (e) {
+        return { error: 'Could not check this code. Please try again.' };
+    }
+};
+
+// Returns a Stripe Checkout URL, or `unlocked: true` when a promo code made the trip free
+export const createCheckoutSession = async (itineraryId: string, promoCode?: string): Promise<{ url?: string, unlocked?: boolean } | null> => {
     try {
         const res = await fetch(`${API_BASE}/create-checkout-session`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({ itineraryId })
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
+            body: JSON.stringify({ itineraryId, promoCode })
         });
         const data = await res.json();
-        return data.url || null;
+        if (data.unlocked) return { unlocked: true };
+        return data.url ? { url: data.url } : null;
     } catch (e) {
         console.error("Payment session failed", e);
         return null;
@@ -105,10 +523,15 @@ export const shareItinerary = async (email: string, itineraryId: string): Promis
 export const getAlternativeActivity = async (
   prefs: UserPreferences, 
   currentActivity: Activity, 
-  context: { dayTitle: string, area: string, timeOfDay: string },
+  context: ActivityContext,
   existingActivityNames: string[] = [],
   customRequest?: string
 ): Promise<Activity | null> => {
+  const invalid = validatePreferences(prefs).errors || validateActivity(currentActivity, 'currentActivity').errors;
+  if (invalid) {
+    console.warn("Not asking for an alternative, invalid request:", describeFieldErrors(invalid));
+    return null;
+  }
   try {
     const res = await fetch(`${API_BASE}/alternative-activity`, {
         method: 'POST',
@@ -117,6 +540,7 @@ export const getAlternativeActivity = async (
             prefs, currentActivity, context, existingNames: existingActivityNames, customRequest 
         })
     });
+    if (!res.ok) return null;
     return await res.json();
   } catch (e) {
     return null;
@@ -141,7 +565,7 @@ export const saveGeneratedImage = async (itineraryId: string, dayNumber: number,
     try {
         const res = await fetch(`${API_BASE}/save-image`, {
             method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
+            headers: { 'Content-Type': 'application/json', ...ownerHeaders(itineraryId) },
             body: JSON.stringify({ itineraryId, dayNumber, image })
         });
         return res.ok;
@@ -149,3 +573,68 @@ export const saveGeneratedImage = async (itineraryId: string, dayNumber: number,
         return false;
     }
 }
+
+
+export const requestLoginLink = async (email: string): Promise<boolean> => {
+    try {
+        const res = await fetch(`${API_BASE}/auth/request-link`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ email })
+        });
+        return res.ok;
+    } catch (e) {
+        return false;
+    }
+}
+
+// Exchanges the token from a sign-in email for a session, which is remembered in localStorage
+export const verifyLoginLink = async (token: string): Promise<AccountUser | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/auth/verify`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ token })
+        });
+        if (!res.ok) return null;
+        const data = await res.json();
+        localStorage.setItem(SESSION_KEY, data.token);
+        return data.user;
+    } catch (e) {
+        return null;
+    }
+}
+
+export const getCurrentUser = async (): Promise<AccountUser | null> => {
+    if (!localStorage.getItem(SESSION_KEY)) return null;
+    try {
+        const res = await fetch(`${API_BASE}/auth/me`, { headers: authHeaders() });
+        if (res.status === 401) localStorage.removeItem(SESSION_KEY);
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.user;
+    } catch (e) {
+        return null;
+    }
+}
+
+export const logout = async (): Promise<void> => {
+    try {
+        await fetch(`${API_BASE}/auth/logout`, { method: 'POST', headers: authHeaders() });
+    } catch (e) {
+        console.warn("Logout request failed", e);
+    } finally {
+        localStorage.removeItem(SESSION_KEY);
+    }
+}
+
+export const getMyTrips = async (): Promise<TripSummary[] | null> => {
+    try {
+        const res = await fetch(`${API_BASE}/me/trips`, { headers: authHeaders() });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.trips;
+    } catch (e) {
+        return null;
+    }
+}
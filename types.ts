@@ -1,11 +1,28 @@
 
-export type TripType = 'Solo' | 'Couple' | 'Friends' | 'Family';
-export type BudgetLevel = 'Low' | 'Medium' | 'High';
-export type VibeType = 'Extreme/Fun' | 'Laid back/Chill' | 'Both';
-export type PaceType = 'Slow' | 'Balanced' | 'Fast';
-export type Interest = 'Dining' | 'Nightlife' | 'Culture' | 'Active' | 'Viewpoints' | 'Nature' | 'Shopping' | 'Local Experiences' | 'Shows & Concerts';
-export type KidsAgeRange = '0-5' | '5-10' | '10-15' | '15-20';
-export type Gender = 'Male' | 'Female' | 'Non-binary/Other';
+// Shared by the client and the server (see validation.ts). The option lists are values so
+// request bodies can be checked against them at runtime; the union types derive from them.
+export const TRIP_TYPES = ['Solo', 'Couple', 'Friends', 'Family'] as const;
+export const BUDGET_LEVELS = ['Low', 'Medium', 'High'] as const;
+export const VIBE_TYPES = ['Extreme/Fun', 'Laid back/Chill', 'Both'] as const;
+export const PACE_TYPES = ['Slow', 'Balanced', 'Fast'] as const;
+export const INTERESTS = ['Dining', 'Nightlife', 'Culture', 'Active', 'Viewpoints', 'Nature', 'Shopping', 'Local Experiences', 'Shows & Concerts'] as const;
+export const KIDS_AGE_RANGES = ['0-5', '5-10', '10-15', '15-20'] as const;
+export const GENDERS = ['Male', 'Female', 'Non-binary/Other'] as const;
+export const ACTIVITY_TYPES = ['attraction', 'restaurant', 'event', 'local-gem', 'user-plan'] as const;
+export const ACTIVITY_PERIODS = ['morning', 'afternoon', 'evening'] as const;
+export const MERGE_STRATEGIES = ['majority', 'veto', 'weighted'] as const;
+export const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+
+export type TripType = typeof TRIP_TYPES[number];
+export type BudgetLevel = typeof BUDGET_LEVELS[number];
+export type VibeType = typeof VIBE_TYPES[number];
+export type PaceType = typeof PACE_TYPES[number];
+export type Interest = typeof INTERESTS[number];
+export type KidsAgeRange = typeof KIDS_AGE_RANGES[number];
+export type Gender = typeof GENDERS[number];
+export type ActivityType = typeof ACTIVITY_TYPES[number];
+export type MergeStrategy = typeof MERGE_STRATEGIES[number];
+export type DiscountType = typeof DISCOUNT_TYPES[number];
 
 export interface FixedPlan {
   id: string;
@@ -19,11 +36,29 @@ export interface Demographics {
   kidsAgeRange?: KidsAgeRange;
 }
 
+// A later check-in on a multi-stay trip; the first hotel is `hotelLocation`
+export interface HotelStay {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD, the stay runs until the next one starts
+}
+
+// One city of a multi-city trip
+export interface TripLeg {
+  id: string;
+  destination: string;
+  startDate: string;
+  endDate: string;
+  hotelLocation: string;
+}
+
 export interface UserPreferences {
   destination: string;
   startDate: string;
   endDate: string;
   hotelLocation: string;
+  hotelStays?: HotelStay[];
+  legs?: TripLeg[]; // two or more for a multi-city trip; destination and dates then span all of them
   tripType: TripType;
   budget: BudgetLevel;
   vibe: VibeType;
@@ -54,7 +89,7 @@ export interface Activity {
   website?: string; // URL
   mapsQuery: string; // Specific query to find the place (e.g. "Place Name, City")
   category?: string; // New classification field
-  type: 'attraction' | 'restaurant' | 'event' | 'local-gem' | 'user-plan';
+  type: ActivityType;
   isLocalRecommendation?: boolean;
   isMichelin?: boolean;
   isPopular?: boolean;
@@ -63,6 +98,7 @@ export interface Activity {
   latitude?: number;
   longitude?: number;
   placeId?: string;
+  distanceFromHotelKm?: number; // from that day's hotel, set by the server
 }
 
 export interface DayPlan {
@@ -81,9 +117,211 @@ export interface DayPlan {
     description: string;
     mapsQuery: string; // Specific query
   };
+  hotel?: HotelLocation; // where the day starts and ends
+  travelLegs?: TravelLeg[]; // worked out by the server from activity coordinates
+  // Multi-city trips only
+  legIndex?: number;
+  city?: string;
+  transfer?: TransferInfo; // set on the travel day that opens each leg after the first
+}
+
+export interface TransferInfo {
+  from: string;
+  to: string;
+  mode: string; // 'flight' | 'train' | 'bus' | 'car' | 'ferry', or '' if unknown
+  duration: string;
+  description: string;
+  tips: string[];
+}
+
+export type TravelMode = 'walk' | 'transit' | 'drive';
+
+// The trip between two neighbouring activities; `from`/`to` point into the day's period lists
+export interface TravelLeg {
+  from: { period: ActivityPeriod; index: number };
+  to: { period: ActivityPeriod; index: number };
+  distanceKm: number;
+  walkMinutes: number;
+  transitMinutes: number;
+  driveMinutes: number;
+  mode: TravelMode; // suggested mode
+  minutes: number;
+  tooLong: boolean; // longer than the trip's pace allows
 }
 
 export interface Itinerary {
   destination: string;
   days: DayPlan[];
-}
\ No newline at end of file
+  legs?: { destination: string; startDate: string; endDate: string; hotelLocation?: string }[]; // multi-city trips
+}
+export type ActivityPeriod = typeof ACTIVITY_PERIODS[number];
+
+// Where an activity being swapped out sits, sent along with alternative requests
+export interface ActivityContext {
+  dayTitle: string;
+  area: string;
+  timeOfDay: ActivityPeriod;
+}
+
+// Mirrors the edit ops accepted by PATCH /api/itinerary/:id/activities
+export type ActivityEdit =
+  | { op: 'replace'; dayNumber: number; period: ActivityPeriod; index: number; activity: Activity }
+  | { op: 'delete'; dayNumber: number; period: ActivityPeriod; index: number }
+  | { op: 'insert'; dayNumber: number; period: ActivityPeriod; index?: number; activity: Activity }
+  | { op: 'reorder'; dayNumber: number; period: ActivityPeriod; fromIndex: number; toIndex: number };
+
+export interface ItineraryRevision {
+  number: number;
+  reason: 'generation' | 'regenerate' | 'delete' | 'insert' | 'reorder' | 'optimize' | 'restore';
+  summary: string;
+  createdAt: string;
+}
+
+export interface RevisionChange {
+  dayNumber: number;
+  period?: ActivityPeriod;
+  change: 'added' | 'removed' | 'updated' | 'reordered' | 'day-added' | 'day-removed' | 'day-updated';
+  activity?: string;
+  before?: any;
+  after?: any;
+}
+
+// Returned by POST /api/itinerary/:id/optimize alongside the updated itinerary
+export interface RouteReport {
+  days: { dayNumber: number; beforeKm: number; afterKm: number }[];
+  totalBeforeKm: number;
+  totalAfterKm: number;
+  movedBetweenDays: number;
+}
+
+// A day's hotel; coordinates are missing when it couldn't be located
+export interface HotelLocation {
+  name: string;
+  latitude?: number;
+  longitude?: number;
+}
+
+// What the server returns for every itinerary read or write
+export interface ItineraryPayload {
+  id: string;
+  plan: Itinerary;
+  unlocked: boolean;
+  canEdit: boolean; // false for people viewing someone else's trip
+  canVote: boolean; // owner and invited collaborators
+  ownerToken?: string; // only on the response that created the itinerary
+  preview: PreviewInfo | null; // null once unlocked
+  totalDays: number;
+  images: Record<number, string>;
+  revision: number;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+// Progress of a trip being generated, one per message from POST /api/generate-trip/stream.
+// Multi-city trips go through drafting, locating and optimizing once per city.
+export type GenerationEvent =
+  | { phase: 'drafting'; city: string }
+  // Drafted, before coordinates and routing; masked like the saved plan will be, and
+  // without `day` when the free preview hides that day
+  | { phase: 'day'; dayIndex: number; totalDays: number; day?: DayPlan }
+  | { phase: 'locating' }
+  | { phase: 'optimizing' }
+  | { phase: 'saving' }
+  | { phase: 'done'; itinerary: ItineraryPayload }
+  | { phase: 'error'; error: string };
+
+export type GenerationPhase = GenerationEvent['phase'];
+
+// Unlock price as computed by the server (amount in the smallest currency unit)
+export interface ItineraryPrice {
+  amount: number;
+  currency: string;
+  formatted: string;
+  tier: string;
+}
+
+export interface PromoQuote {
+  code: string;
+  original: ItineraryPrice;
+  price: ItineraryPrice;
+}
+
+// What the server hid from a locked itinerary under its free-preview policy
+export interface PreviewInfo {
+  policy: string; // e.g. "days:2", "mornings", "teaser"
+  hiddenDays: number;
+  lockedPeriods: ActivityPeriod[];
+  lockedActivityCounts: Record<number, Partial<Record<ActivityPeriod, number>>>;
+  redactedFields: string[];
+}
+
+export interface AccountUser {
+  email: string;
+}
+
+// One row of the "My Trips" dashboard
+export interface TripSummary {
+  id: string;
+  destination: string;
+  startDate: string | null; // DD/MM/YYYY, as in DayPlan.date
+  endDate: string | null;
+  totalDays: number;
+  unlocked: boolean;
+  purchased: boolean;
+  createdAt: string;
+}
+
+// A view-only link created by the owner (see /api/itinerary/:id/share-links)
+export interface ShareLink {
+  token: string;
+  expiresAt: string | null; // null = never expires
+  createdAt: string;
+}
+
+// What a share link resolves to: a read-only view without the itinerary id
+export interface SharedItineraryPayload extends Omit<ItineraryPayload, 'id' | 'ownerToken'> {
+  expiresAt: string | null;
+}
+
+// Group trips: someone the owner invited to vote on activities
+export interface Collaborator {
+  email: string;
+  invitedAt: string;
+}
+
+// Vote tally and replacement proposals for one activity
+export interface ActivityFeedback {
+  dayNumber: number;
+  period: ActivityPeriod;
+  activityName: string;
+  up: number;
+  down: number;
+  net: number;
+  myVote: number; // 1, -1 or 0
+  proposals: { voter: string; suggestion: string; createdAt: string }[];
+}
+
+// Group question deck: the follow-up questions shared with every traveller before generation
+export interface QuestionDeck {
+  id: string;
+  destination: string;
+  questions: SmartQuestion[];
+  responseCount: number;
+}
+
+// A question the group answered both ways, and how the merge settled it
+export interface DeckDisagreement {
+  questionId: string;
+  title: string;
+  emoji?: string;
+  yes: string[];
+  no: string[];
+  result: boolean;
+}
+
+export interface DeckMerge {
+  strategy: MergeStrategy;
+  answers: Record<string, boolean>; // ready to use as followUpAnswers
+  responses: { id: string; name: string; weight: number }[];
+  disagreements: DeckDisagreement[];
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeFieldErrors, validateDeckMergeRequest, validateDeckResponseRequest, validateLoginLinkRequest, validatePreferences,
+  validatePromoCodeRequest, validateProposalRequest, validateQuestionDeckRequest, validateVoteRequest
+} from './validation';
+
+const fieldsOf = (result: { errors?: { field: string }[] }) => (result.errors || []).map(error => error.field);
+
+const prefs = {
+  destination: 'Lisbon',
+  startDate: '2026-05-01',
+  endDate: '2026-05-04',
+  tripType: 'Couple',
+  budget: 'Medium',
+  vibe: 'Both',
+  pace: 'Balanced',
+  interests: ['Dining'],
+  fixedPlans: []
+};
+
+describe('validatePreferences', () => {
+  it('accepts a complete set of preferences', () => {
+    expect(validatePreferences(prefs).value?.destination).toBe('Lisbon');
+  });
+
+  it('reports every invalid field in one pass', () => {
+    const result = validatePreferences({ ...prefs, destination: ' ', endDate: '2026-04-01', pace: 'Sprint', interests: ['Dining', 'Golf'] });
+    expect(fieldsOf(result)).toEqual(['prefs.destination', 'prefs.endDate', 'prefs.pace', 'prefs.interests[1]']);
+    expect(describeFieldErrors(result.errors!)).toContain('prefs.pace must be one of: Slow, Balanced, Fast');
+  });
+
+  it('checks each leg of a multi-city trip', () => {
+    const result = validatePreferences({ ...prefs, legs: [{ destination: 'Porto', startDate: '2026-05-01', endDate: '2026-05-02' }, { destination: '', startDate: '2026-05-03' }] });
+    expect(fieldsOf(result)).toEqual(['prefs.legs[1].destination', 'prefs.legs[1].endDate']);
+  });
+});
+
+describe('validateLoginLinkRequest', () => {
+  it('normalises the email', () => {
+    expect(validateLoginLinkRequest({ email: ' Ana@Example.com ' }).value).toEqual({ email: 'ana@example.com' });
+  });
+
+  it('rejects anything that is not an email', () => {
+    expect(fieldsOf(validateLoginLinkRequest({ email: 'ana' }))).toEqual(['email']);
+    expect(fieldsOf(validateLoginLinkRequest({}))).toEqual(['email']);
+  });
+});
+
+describe('validateVoteRequest and validateProposalRequest', () => {
+  const ref = { dayNumber: 2, period: 'evening', activityName: 'Fado show' };
+
+  it('accepts a vote on an activity', () => {
+    expect(validateVoteRequest({ ...ref, value: -1 }).value).toEqual({ ...ref, value: -1 });
+  });
+
+  it('names the invalid parts of the activity reference', () => {
+    expect(fieldsOf(validateVoteRequest({ dayNumber: 0, period: 'night', activityName: '', value: 2 })))
+      .toEqual(['dayNumber', 'period', 'activityName', 'value']);
+  });
+
+  it('limits the length of a suggestion', () => {
+    expect(validateProposalRequest({ ...ref, suggestion: ' A tram ride ' }).value?.suggestion).toBe('A tram ride');
+    expect(fieldsOf(validateProposalRequest({ ...ref, suggestion: 'x'.repeat(301) }))).toEqual(['suggestion']);
+  });
+});
+
+describe('question deck requests', () => {
+  const question = { id: 'q1', emoji: '🍷', title: 'Wine tasting', description: 'Half a day in the Douro?' };
+
+  it('requires at least one well-formed question', () => {
+    expect(validateQuestionDeckRequest({ destination: 'Lisbon', questions: [question] }).value?.questions).toEqual([question]);
+    expect(fieldsOf(validateQuestionDeckRequest({ questions: [] }))).toEqual(['questions']);
+    expect(fieldsOf(validateQuestionDeckRequest({ questions: [{ id: 'q1' }] }))).toEqual(['questions[0].title']);
+  });
+
+  it('keeps only answers to questions in the deck', () => {
+    const result = validateDeckResponseRequest({ name: 'Ana', answers: { q1: true, stale: false } }, ['q1', 'q2']);
+    expect(result.value).toEqual({ name: 'Ana', answers: { q1: true }, responseId: undefined, responseToken: undefined });
+  });
+
+  it('names answers that are not yes or no', () => {
+    expect(fieldsOf(validateDeckResponseRequest({ name: 'Ana', answers: { q1: 'yes', q2: true } }, ['q1', 'q2']))).toEqual(['answers.q1']);
+    expect(fieldsOf(validateDeckResponseRequest({ name: '', answers: { other: true } }, ['q1']))).toEqual(['name', 'answers']);
+  });
+
+  it('defaults the merge to a majority with even weights', () => {
+    expect(validateDeckMergeRequest({}).value).toEqual({ strategy: 'majority', weights: {} });
+    expect(validateDeckMergeRequest({ strategy: 'weighted', weights: { r1: 2 } }).value).toEqual({ strategy: 'weighted', weights: { r1: 2 } });
+    expect(fieldsOf(validateDeckMergeRequest({ strategy: 'loudest', weights: { r1: 11 } }))).toEqual(['strategy', 'weights.r1']);
+  });
+});
+
+describe('validatePromoCodeRequest', () => {
+  it('accepts a code with optional limits', () => {
+    const result = validatePromoCodeRequest({ code: 'SPRING', discountType: 'percentage', value: 20, maxRedemptions: 100, destinations: ['Portugal'] });
+    expect(result.value).toMatchObject({ code: 'SPRING', discountType: 'percentage', value: 20, maxRedemptions: 100, perEmailLimit: undefined, destinations: ['Portugal'] });
+  });
+
+  it('names each invalid field', () => {
+    const result = validatePromoCodeRequest({ discountType: 'percentage', value: 120, currency: 'dollars', expiresAt: 'soon', perEmailLimit: 0 });
+    expect(fieldsOf(result)).toEqual(['code', 'value', 'currency', 'expiresAt', 'perEmailLimit']);
+  });
+});
@@ -0,0 +1,474 @@
+// Request validators shared by the client and the server, built on the option lists in types.ts.
+// The client checks what it is about to send; the server runs the same checks on the AI, image,
+// email, payment, sign-in, group and admin routes and answers a 400 naming each invalid field.
+
+import {
+  ACTIVITY_PERIODS, ACTIVITY_TYPES, BUDGET_LEVELS, DISCOUNT_TYPES, GENDERS, INTERESTS, KIDS_AGE_RANGES, MERGE_STRATEGIES, PACE_TYPES, TRIP_TYPES, VIBE_TYPES,
+  Activity, ActivityContext, ActivityPeriod, DiscountType, MergeStrategy, SmartQuestion, UserPreferences
+} from './types';
+
+export interface FieldError {
+  field: string; // dotted path into the request body, e.g. "prefs.legs[1].startDate"
+  message: string;
+}
+
+// Exactly one of `value` or `errors` is set
+export interface ValidationResult<T> {
+  value?: T;
+  errors?: FieldError[];
+}
+
+export const MAX_TEXT_LENGTH = 500;
+export const MAX_LIST_LENGTH = 50;
+
+const isObject = (value: any) => !!value && typeof value === 'object' && !Array.isArray(value);
+const isEmail = (value: string) => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value);
+const isIsoDate = (value: any) => typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value));
+const oneOf = (options: readonly string[]) => `must be one of: ${options.join(', ')}`;
+
+// Collects errors while reading fields, so one pass reports everything that is wrong
+class FieldReader {
+  errors: FieldError[] = [];
+
+  fail(field: string, message: string) {
+    this.errors.push({ field, message });
+  }
+
+  text(value: any, field: string, { required = false, max = MAX_TEXT_LENGTH } = {}): string {
+    if (value === undefined || value === null) {
+      if (required) this.fail(field, 'is required');
+      return '';
+    }
+    if (typeof value !== 'string') {
+      this.fail(field, 'must be a string');
+      return '';
+    }
+    const text = value.trim();
+    if (required && !text) this.fail(field, 'must not be empty');
+    if (text.length > max) this.fail(field, `must be at most ${max} characters`);
+    return text;
+  }
+
+  date(value: any, field: string): string {
+    if (!isIsoDate(value)) {
+      this.fail(field, 'must be a YYYY-MM-DD date');
+      return '';
+    }
+    return value;
+  }
+
+  choice<T extends string>(value: any, field: string, options: readonly T[], required = true): T | undefined {
+    if (value === undefined && !required) return undefined;
+    if (!options.includes(value)) {
+      this.fail(field, oneOf(options));
+      return undefined;
+    }
+    return value;
+  }
+
+  list(value: any, field: string, { required = true, max = MAX_LIST_LENGTH } = {}): any[] {
+    if (value === undefined && !required) return [];
+    if (!Array.isArray(value)) {
+      this.fail(field, 'must be an array');
+      return [];
+    }
+    if (value.length > max) this.fail(field, `must have at most ${max} entries`);
+    return value.slice(0, max);
+  }
+
+  object(value: any, field: string): any | null {
+    if (!isObject(value)) {
+      this.fail(field, 'must be an object');
+      return null;
+    }
+    return value;
+  }
+
+  number(value: any, field: string, min: number, max: number): number | undefined {
+    if (value === undefined) return undefined;
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < min || value > max) {
+      this.fail(field, `must be a number from ${min} to ${max}`);
+      return undefined;
+    }
+    return value;
+  }
+
+  integer(value: any, field: string, min: number, max: number): number {
+    if (!Number.isInteger(value) || value < min || value > max) {
+      this.fail(field, `must be a whole number from ${min} to ${max}`);
+      return min;
+    }
+    return value;
+  }
+
+  email(value: any, field: string): string {
+    const email = this.text(value, field, { required: true, max: 254 }).toLowerCase();
+    if (email && !isEmail(email)) this.fail(field, 'must be an email address');
+    return email;
+  }
+
+  result<T>(value: T): ValidationResult<T> {
+    return this.errors.length > 0 ? { errors: this.errors } : { value };
+  }
+}
+
+const readRange = (reader: FieldReader, input: any, field: string) => {
+  const startDate = reader.date(input.startDate, `${field}.startDate`);
+  const endDate = reader.date(input.endDate, `${field}.endDate`);
+  if (startDate && endDate && endDate < startDate) reader.fail(`${field}.endDate`, 'must not be before startDate');
+  return { startDate, endDate };
+};
+
+const readPreferences = (reader: FieldReader, input: any, field: string): UserPreferences | null => {
+  const prefs = reader.object(input, field);
+  if (!prefs) return null;
+
+  const demographics = reader.object(prefs.demographics ?? {}, `${field}.demographics`) || {};
+  const followUpAnswers = reader.object(prefs.followUpAnswers ?? {}, `${field}.followUpAnswers`) || {};
+  Object.entries(followUpAnswers).forEach(([id, answer]) => {
+    if (typeof answer !== 'boolean') reader.fail(`${field}.followUpAnswers.${id}`, 'must be true or false');
+  });
+
+  const value: UserPreferences = {
+    destination: reader.text(prefs.destination, `${field}.destination`, { required: true, max: 200 }),
+    ...readRange(reader, prefs, field),
+    hotelLocation: reader.text(prefs.hotelLocation, `${field}.hotelLocation`, { max: 200 }),
+    tripType: reader.choice(prefs.tripType, `${field}.tripType`, TRIP_TYPES)!,
+    budget: reader.choice(prefs.budget, `${field}.budget`, BUDGET_LEVELS)!,
+    vibe: reader.choice(prefs.vibe, `${field}.vibe`, VIBE_TYPES)!,
+    pace: reader.choice(prefs.pace, `${field}.pace`, PACE_TYPES)!,
+    interests: reader.list(prefs.interests, `${field}.interests`)
+      .map((interest, i) => reader.choice(interest, `${field}.interests[${i}]`, INTERESTS)!),
+    demographics: {
+      gender: reader.choice(demographics.gender, `${field}.demographics.gender`, GENDERS, false),
+      age: demographics.age === undefined ? undefined : reader.text(demographics.age, `${field}.demographics.age`, { max: 20 }),
+      kidsAgeRange: reader.choice(demographics.kidsAgeRange, `${field}.demographics.kidsAgeRange`, KIDS_AGE_RANGES, false)
+    },
+    fixedPlans: reader.list(prefs.fixedPlans, `${field}.fixedPlans`, { required: false }).map((plan, i) => {
+      const path = `${field}.fixedPlans[${i}]`;
+      const item = reader.object(plan, path) || {};
+      return {
+        id: reader.text(item.id, `${path}.id`, { required: true, max: 50 }),
+        date: reader.date(item.date, `${path}.date`),
+        description: reader.text(item.description, `${path}.description`, { required: true })
+      };
+    }),
+    mustVisit: reader.text(prefs.mustVisit, `${field}.mustVisit`),
+    followUpAnswers: followUpAnswers as Record<string, boolean>
+  };
+
+  if (prefs.hotelStays !== undefined) {
+    value.hotelStays = reader.list(prefs.hotelStays, `${field}.hotelStays`).map((stay, i) => {
+      const path = `${field}.hotelStays[${i}]`;
+      const item = reader.object(stay, path) || {};
+      return {
+        id: reader.text(item.id, `${path}.id`, { max: 50 }),
+        name: reader.text(item.name, `${path}.name`, { required: true, max: 200 }),
+        startDate: reader.date(item.startDate, `${path}.startDate`)
+      };
+    });
+  }
+
+  if (prefs.legs !== undefined) {
+    value.legs = reader.list(prefs.legs, `${field}.legs`).map((leg, i) => {
+      const path = `${field}.legs[${i}]`;
+      const item = reader.object(leg, path) || {};
+      return {
+        id: reader.text(item.id, `${path}.id`, { max: 50 }),
+        destination: reader.text(item.destination, `${path}.destination`, { required: true, max: 200 }),
+        ...readRange(reader, item, path),
+        hotelLocation: reader.text(item.hotelLocation, `${path}.hotelLocation`, { max: 200 })
+      };
+    });
+  }
+
+  return value;
+};
+
+const ACTIVITY_TEXT_FIELDS = ['description', 'duration', 'emoji', 'mapsQuery', 'category', 'openingHours', 'admissionFee', 'website', 'placeId', 'priceLevel'] as const;
+const ACTIVITY_FLAG_FIELDS = ['isLocalRecommendation', 'isMichelin', 'isPopular', 'isFixedPlan'] as const;
+
+const readActivity = (reader: FieldReader, input: any, field: string): Activity | null => {
+  const activity = reader.object(input, field);
+  if (!activity) return null;
+
+  reader.text(activity.name, `${field}.name`, { required: true, max: 200 });
+  reader.choice(activity.type, `${field}.type`, ACTIVITY_TYPES);
+  ACTIVITY_TEXT_FIELDS.forEach(key => reader.text(activity[key], `${field}.${key}`, { max: 2000 }));
+  ACTIVITY_FLAG_FIELDS.forEach(key => {
+    if (activity[key] !== undefined && typeof activity[key] !== 'boolean') reader.fail(`${field}.${key}`, 'must be true or false');
+  });
+  reader.number(activity.rating, `${field}.rating`, 0, 5);
+  reader.number(activity.latitude, `${field}.latitude`, -90, 90);
+  reader.number(activity.longitude, `${field}.longitude`, -180, 180);
+
+  // Known fields are checked above; the activity passes through as sent so nothing is lost
+  return activity as Activity;
+};
+
+const readContext = (reader: FieldReader, input: any, field: string): ActivityContext | null => {
+  const context = reader.object(input, field);
+  if (!context) return null;
+  return {
+    dayTitle: reader.text(context.dayTitle, `${field}.dayTitle`, { max: 200 }),
+    area: reader.text(context.area, `${field}.area`, { max: 200 }),
+    timeOfDay: reader.choice(context.timeOfDay, `${field}.timeOfDay`, ACTIVITY_PERIODS)!
+  };
+};
+
+export const validatePreferences = (input: any, field = 'prefs'): ValidationResult<UserPreferences> => {
+  const reader = new FieldReader();
+  const value = readPreferences(reader, input, field);
+  return reader.result(value!);
+};
+
+export const validateActivity = (input: any, field = 'activity'): ValidationResult<Activity> => {
+  const reader = new FieldReader();
+  const value = readActivity(reader, input, field);
+  return reader.result(value!);
+};
+
+// --- Request bodies of the AI routes ---
+
+export const validateDestinationRequest = (body: any): ValidationResult<{ destination: string }> => {
+  const reader = new FieldReader();
+  const destination = reader.text(body?.destination, 'destination', { required: true, max: 200 });
+  return reader.result({ destination });
+};
+
+// /check-events and /generate-trip
+export const validatePreferencesRequest = (body: any): ValidationResult<{ prefs: UserPreferences }> => {
+  const reader = new FieldReader();
+  const prefs = readPreferences(reader, body?.prefs, 'prefs');
+  return reader.result({ prefs: prefs! });
+};
+
+export interface AlternativeRequest {
+  prefs: UserPreferences;
+  currentActivity: Activity;
+  context: ActivityContext;
+  existingNames: string[];
+  customRequest: string;
+}
+
+export const validateAlternativeRequest = (body: any): ValidationResult<AlternativeRequest> => {
+  const reader = new FieldReader();
+  const prefs = readPreferences(reader, body?.prefs, 'prefs');
+  const currentActivity = readActivity(reader, body?.currentActivity, 'currentActivity');
+  const context = readContext(reader, body?.context, 'context');
+  const existingNames = reader.list(body?.existingNames, 'existingNames', { required: false, max: 1000 })
+    .map((name, i) => reader.text(name, `existingNames[${i}]`, { max: 200 }));
+  const customRequest = reader.text(body?.customRequest, 'customRequest');
+  return reader.result({ prefs: prefs!, currentActivity: currentActivity!, context: context!, existingNames, customRequest });
+};
+
+export interface DayImageRequest {
+  dayTitle: string;
+  area: string;
+  destination: string;
+  vibe: string;
+}
+
+export const validateDayImageRequest = (body: any): ValidationResult<DayImageRequest> => {
+  const reader = new FieldReader();
+  return reader.result({
+    dayTitle: reader.text(body?.dayTitle, 'dayTitle', { required: true, max: 200 }),
+    area: reader.text(body?.area, 'area', { max: 200 }),
+    destination: reader.text(body?.destination, 'destination', { required: true, max: 200 }),
+    vibe: reader.text(body?.vibe, 'vibe')
+  });
+};
+
+// --- Request bodies of the image, email and payment routes ---
+
+export const MAX_DAYS = 366;
+export const MAX_IMAGE_LENGTH = 10_000_000; // characters of a base64 data URL
+
+const readItineraryId = (reader: FieldReader, body: any) =>
+  reader.text(body?.itineraryId, 'itineraryId', { required: true, max: 100 });
+
+export const validateSaveImageRequest = (body: any): ValidationResult<{ itineraryId: string; dayNumber: number; image: string }> => {
+  const reader = new FieldReader();
+  const itineraryId = readItineraryId(reader, body);
+  // The day number becomes a key under `images`, so nothing but a plain number gets through
+  const dayNumber = reader.integer(body?.dayNumber, 'dayNumber', 1, MAX_DAYS);
+  const image = reader.text(body?.image, 'image', { required: true, max: MAX_IMAGE_LENGTH });
+  if (image && !image.startsWith('data:image/')) reader.fail('image', 'must be an image data URL');
+  return reader.result({ itineraryId, dayNumber, image });
+};
+
+export const validateSaveEmailRequest = (body: any): ValidationResult<{ itineraryId: string; email: string }> => {
+  const reader = new FieldReader();
+  return reader.result({ itineraryId: readItineraryId(reader, body), email: reader.email(body?.email, 'email') });
+};
+
+export const validatePromoRequest = (body: any): ValidationResult<{ itineraryId: string; code: string }> => {
+  const reader = new FieldReader();
+  return reader.result({
+    itineraryId: readItineraryId(reader, body),
+    code: reader.text(body?.code, 'code', { required: true, max: 50 })
+  });
+};
+
+export const validateCheckoutRequest = (body: any): ValidationResult<{ itineraryId: string; promoCode: string }> => {
+  const reader = new FieldReader();
+  return reader.result({
+    itineraryId: readItineraryId(reader, body),
+    promoCode: reader.text(body?.promoCode, 'promoCode', { max: 50 })
+  });
+};
+
+export const validateVerifyPaymentRequest = (body: any): ValidationResult<{ itineraryId: string; sessionId: string }> => {
+  const reader = new FieldReader();
+  return reader.result({
+    itineraryId: readItineraryId(reader, body),
+    sessionId: reader.text(body?.sessionId, 'sessionId', { required: true, max: 500 })
+  });
+};
+
+// --- Request bodies of the sign-in, group trip and admin routes ---
+
+export const MAX_SUGGESTION_LENGTH = 300;
+export const MAX_DECK_QUESTIONS = 30;
+export const MAX_DECK_RESPONSES = 50;
+export const MAX_WEIGHT = 10;
+
+export const validateLoginLinkRequest = (body: any): ValidationResult<{ email: string }> => {
+  const reader = new FieldReader();
+  return reader.result({ email: reader.email(body?.email, 'email') });
+};
+
+// Activities are referenced by day, period and name (see server/services/groupVoting)
+export interface ActivityRef {
+  dayNumber: number;
+  period: ActivityPeriod;
+  activityName: string;
+}
+
+const readActivityRef = (reader: FieldReader, body: any): ActivityRef => ({
+  dayNumber: reader.integer(body?.dayNumber, 'dayNumber', 1, MAX_DAYS),
+  period: reader.choice(body?.period, 'period', ACTIVITY_PERIODS)!,
+  activityName: reader.text(body?.activityName, 'activityName', { required: true, max: 200 })
+});
+
+export const validateVoteRequest = (body: any): ValidationResult<ActivityRef & { value: number }> => {
+  const reader = new FieldReader();
+  const ref = readActivityRef(reader, body);
+  const value = body?.value;
+  if (![1, -1, 0].includes(value)) reader.fail('value', 'must be 1, -1 or 0');
+  return reader.result({ ...ref, value });
+};
+
+export const validateProposalRequest = (body: any): ValidationResult<ActivityRef & { suggestion: string }> => {
+  const reader = new FieldReader();
+  const ref = readActivityRef(reader, body);
+  const suggestion = reader.text(body?.suggestion, 'suggestion', { required: true, max: MAX_SUGGESTION_LENGTH });
+  return reader.result({ ...ref, suggestion });
+};
+
+export const validateQuestionDeckRequest = (body: any): ValidationResult<{ destination: string; questions: SmartQuestion[] }> => {
+  const reader = new FieldReader();
+  const destination = reader.text(body?.destination, 'destination', { max: 200 });
+  const list = reader.list(body?.questions, 'questions', { max: MAX_DECK_QUESTIONS });
+  if (Array.isArray(body?.questions) && list.length === 0) reader.fail('questions', 'must have at least one question');
+  const questions = list.map((question, i) => {
+    const path = `questions[${i}]`;
+    const item = reader.object(question, path) || {};
+    return {
+      id: reader.text(item.id, `${path}.id`, { required: true, max: 50 }),
+      emoji: reader.text(item.emoji, `${path}.emoji`, { max: 20 }),
+      title: reader.text(item.title, `${path}.title`, { required: true, max: 200 }),
+      description: reader.text(item.description, `${path}.description`)
+    };
+  });
+  return reader.result({ destination, questions });
+};
+
+export interface DeckResponseRequest {
+  name: string;
+  answers: Record<string, boolean>;
+  responseId?: string;
+  responseToken?: string;
+}
+
+// Answers are checked against the deck's questions; answers to anything else are dropped
+export const validateDeckResponseRequest = (body: any, questionIds: string[]): ValidationResult<DeckResponseRequest> => {
+  const reader = new FieldReader();
+  const name = reader.text(body?.name, 'name', { required: true, max: 50 });
+
+  const answers: Record<string, boolean> = {};
+  const input = reader.object(body?.answers, 'answers');
+  if (input) {
+    questionIds.filter(id => input[id] !== undefined).forEach(id => {
+      if (typeof input[id] === 'boolean') answers[id] = input[id];
+      else reader.fail(`answers.${id}`, 'must be true or false');
+    });
+    if (Object.keys(answers).length === 0) reader.fail('answers', 'must answer at least one question');
+  }
+
+  // Sent back when changing earlier answers
+  const responseId = body?.responseId === undefined ? undefined : reader.text(body.responseId, 'responseId', { required: true, max: 100 });
+  const responseToken = body?.responseToken === undefined ? undefined : reader.text(body.responseToken, 'responseToken', { required: true, max: 200 });
+  return reader.result({ name, answers, responseId, responseToken });
+};
+
+// Weights are by response id; leave them out and every traveller counts once
+export const validateDeckMergeRequest = (body: any): ValidationResult<{ strategy: MergeStrategy; weights: Record<string, number> }> => {
+  const reader = new FieldReader();
+  const strategy = body?.strategy === undefined ? 'majority' : reader.choice(body.strategy, 'strategy', MERGE_STRATEGIES)!;
+
+  const weights: Record<string, number> = {};
+  const input = body?.weights === undefined || body?.weights === null ? {} : reader.object(body.weights, 'weights');
+  if (input) {
+    const entries = Object.entries(input);
+    if (entries.length > MAX_DECK_RESPONSES) reader.fail('weights', `must have at most ${MAX_DECK_RESPONSES} entries`);
+    entries.slice(0, MAX_DECK_RESPONSES).forEach(([id, weight]) => {
+      const checked = reader.number(weight, `weights.${id}`, 0, MAX_WEIGHT);
+      if (checked !== undefined) weights[id] = checked;
+    });
+  }
+  return reader.result({ strategy, weights });
+};
+
+export interface PromoCodeRequest {
+  code: string;
+  discountType: DiscountType;
+  value: number;
+  currency?: string;
+  expiresAt?: string;
+  maxRedemptions?: number;
+  perEmailLimit?: number;
+  destinations: string[];
+}
+
+export const validatePromoCodeRequest = (body: any): ValidationResult<PromoCodeRequest> => {
+  const reader = new FieldReader();
+  const code = reader.text(body?.code, 'code', { required: true, max: 50 });
+  const discountType = reader.choice(body?.discountType, 'discountType', DISCOUNT_TYPES)!;
+  // Percentages are 0-100; fixed discounts are in the smallest currency unit
+  if (body?.value === undefined) reader.fail('value', 'is required');
+  const value = reader.number(body?.value, 'value', 0, discountType === 'percentage' ? 100 : Number.MAX_SAFE_INTEGER) ?? 0;
+
+  const currency = body?.currency === undefined ? undefined : reader.text(body.currency, 'currency');
+  if (currency !== undefined && !/^[a-z]{3}$/i.test(currency)) reader.fail('currency', 'must be a 3-letter currency code');
+  const expiresAt = body?.expiresAt === undefined || body?.expiresAt === null ? undefined : reader.text(body.expiresAt, 'expiresAt', { max: 50 });
+  if (expiresAt !== undefined && isNaN(Date.parse(expiresAt))) reader.fail('expiresAt', 'must be a date');
+  const limit = (value: any, field: string) =>
+    value === undefined || value === null ? undefined : reader.integer(value, field, 1, Number.MAX_SAFE_INTEGER);
+
+  return reader.result({
+    code,
+    discountType,
+    value,
+    currency,
+    expiresAt,
+    maxRedemptions: limit(body?.maxRedemptions, 'maxRedemptions'),
+    perEmailLimit: limit(body?.perEmailLimit, 'perEmailLimit'),
+    destinations: reader.list(body?.destinations, 'destinations', { required: false })
+      .map((destination, i) => reader.text(destination, `destinations[${i}]`, { required: true, max: 200 }))
+  });
+};
+
+// One line for an error response or an alert, e.g. "prefs.pace must be one of: Slow, Balanced, Fast"
+export const describeFieldErrors = (errors: FieldError[]) =>
+  errors.map(error => `${error.field} ${error.message}`).join('; ');